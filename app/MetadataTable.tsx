@@ -0,0 +1,132 @@
+"use client";
+import clsx from "clsx";
+import { useSnapshot } from "valtio";
+import { persistState } from "./persistState";
+import { detectTextEncoding, MetadataEntry } from "./utils/media-metadata";
+
+/**
+ * Keys edited in their own tab, listed here read-only
+ */
+export function isWorkflowKey(key: string) {
+  return /^(workflow|prompt)$/i.test(key);
+}
+
+/**
+ * Table of every metadata entry of the editing file, keys can be added,
+ * renamed, edited and deleted. Repeated keys (e.g. vorbis comments) are
+ * separate rows.
+ */
+export function MetadataTable({
+  original,
+  onOpenTab,
+}: {
+  // the entries as read from the file, to mark edited rows
+  original: MetadataEntry[];
+  onOpenTab: (tab: "workflow" | "prompt") => void;
+}) {
+  const snap = useSnapshot(persistState, { sync: true });
+  const entries = snap.editing_metadata;
+  const originalKeys = new Set(original.map((e) => `${e.key}\0${e.value}`));
+
+  const update = (index: number, change: Partial<MetadataEntry>) => {
+    const entry = { ...persistState.editing_metadata[index], ...change };
+    entry.encoding = detectTextEncoding(entry.value);
+    persistState.editing_metadata[index] = entry;
+  };
+
+  return (
+    <div className="w-full h-full overflow-auto p-2">
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="p-1 w-[14em]">Key</th>
+            <th className="p-1">Value</th>
+            <th className="p-1 w-[10em]">Stored in</th>
+            <th className="p-1 w-[5em]"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry, i) => {
+            // rows added here are never workflow or prompt, see getEditedMetadata
+            const readOnly = !!entry.origin && isWorkflowKey(entry.key);
+            const edited = !originalKeys.has(`${entry.key}\0${entry.value}`);
+            return (
+              <tr
+                key={i}
+                className={clsx("border-t align-top", {
+                  "bg-amber-50": edited,
+                })}
+              >
+                <td className="p-1">
+                  <input
+                    name="metadata-key"
+                    className="input input-sm w-full"
+                    value={entry.key}
+                    placeholder="key"
+                    readOnly={readOnly}
+                    onChange={(e) => update(i, { key: e.target.value })}
+                  />
+                </td>
+                <td className="p-1">
+                  {readOnly ? (
+                    <button
+                      className="text-slate-500 underline"
+                      onClick={() =>
+                        onOpenTab(
+                          /^prompt$/i.test(entry.key) ? "prompt" : "workflow",
+                        )
+                      }
+                    >
+                      {entry.value.length} characters, edit in its tab
+                    </button>
+                  ) : (
+                    <textarea
+                      name="metadata-value"
+                      className="input input-sm w-full font-mono"
+                      rows={Math.min(6, entry.value.split("\n").length)}
+                      value={entry.value}
+                      placeholder="value"
+                      onChange={(e) => update(i, { value: e.target.value })}
+                    />
+                  )}
+                </td>
+                <td className="p-1 text-xs text-slate-500">
+                  {entry.origin || "new"}
+                  <br />
+                  {entry.encoding}
+                </td>
+                <td className="p-1">
+                  {!readOnly && (
+                    <button
+                      name="metadata-delete"
+                      className="text-red-700"
+                      onClick={() =>
+                        void persistState.editing_metadata.splice(i, 1)
+                      }
+                    >
+                      Delete
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <button
+        name="metadata-add"
+        className="btn mt-2"
+        onClick={() =>
+          void persistState.editing_metadata.push({
+            key: "",
+            value: "",
+            origin: "",
+            encoding: "ascii",
+          })
+        }
+      >
+        Add key
+      </button>
+    </div>
+  );
+}
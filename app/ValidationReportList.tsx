@@ -0,0 +1,91 @@
+"use client";
+import clsx from "clsx";
+import { RepairFix } from "./utils/media-repair";
+import { ValidationReport } from "./utils/media-validator";
+
+/**
+ * Structural problems of files that could not be read, or that were checked
+ * on request, with the byte offset of each problem. Files with errors can be
+ * repaired, the fixes are listed with the problems that remain.
+ */
+export function ValidationReportList({
+  reports,
+  onDismiss,
+  onRepair,
+}: {
+  reports: { name: string; report: ValidationReport; fixes?: RepairFix[] }[];
+  onDismiss: (index: number) => void;
+  onRepair?: (index: number) => void;
+}) {
+  if (!reports.length) return null;
+  return (
+    <div className="flex flex-col gap-1 overflow-auto max-h-[40vh]">
+      <label className="font-semibold">File checks</label>
+      {reports.map(({ name, report, fixes = [] }, i) => (
+        <details
+          key={i}
+          className="border rounded p-1 text-sm"
+          open={i === reports.length - 1}
+        >
+          <summary className="cursor-pointer">
+            {name}{" "}
+            <span className="text-xs text-slate-500">
+              ({report.format}
+              {!report.checked
+                ? ", no structural checks for this format"
+                : report.issues.length
+                  ? `, ${report.issues.length} problems`
+                  : ", no problems found"}
+              {!!fixes.length && `, ${fixes.length} fixed`})
+            </span>
+            <button
+              className="float-right text-slate-500"
+              title="Dismiss"
+              onClick={() => onDismiss(i)}
+            >
+              ✕
+            </button>
+            {onRepair && report.issues.some((e) => e.severity === "error") && (
+              <button
+                className="float-right text-slate-500 mr-2"
+                title="Rebuild the broken structures, keeping the image, audio or video data and the metadata that can be read"
+                onClick={() => onRepair(i)}
+              >
+                Repair
+              </button>
+            )}
+          </summary>
+          <table className="w-full text-xs">
+            <tbody>
+              {report.issues.map((issue, j) => (
+                <tr key={j} className="align-top">
+                  <td
+                    className={clsx("pr-2 font-semibold", {
+                      "text-red-700": issue.severity === "error",
+                      "text-amber-700": issue.severity === "warning",
+                    })}
+                  >
+                    {issue.severity}
+                  </td>
+                  <td className="pr-2 font-mono" title={`${issue.offset}`}>
+                    0x{issue.offset.toString(16).padStart(8, "0")}
+                  </td>
+                  <td>{issue.message}</td>
+                </tr>
+              ))}
+              {fixes.map((fix, j) => (
+                <tr key={`fix-${j}`} className="align-top">
+                  <td className="pr-2 font-semibold text-green-700">fixed</td>
+                  <td className="pr-2 font-mono" title={`${fix.offset}`}>
+                    0x{fix.offset.toString(16).padStart(8, "0")}
+                  </td>
+                  <td>{fix.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      ))}
+    </div>
+  );
+}
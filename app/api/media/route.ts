@@ -1,3 +1,8 @@
+import {
+  getCodecByType,
+  getExtensionByType,
+  isSupportedFileName,
+} from "../../utils/codecs";
 import { detectContentType } from "./detectContentType";
 
 export const dynamic = "force-dynamic";
@@ -63,13 +68,7 @@ export async function GET(request: Request) {
     }
     // If the filename does not have an extension, guess from contentType
     else if (!/\.[a-z0-9]+$/i.test(fileName) && contentType) {
-      const extMap: Record<string, string> = {
-        "image/png": "png",
-        "image/webp": "webp",
-        "audio/flac": "flac",
-        "video/mp4": "mp4",
-      };
-      const guessedExt = extMap[contentType.split(";")[0].trim()];
+      const guessedExt = getExtensionByType(contentType);
       if (guessedExt) {
         fileName += `.${guessedExt}`;
       }
@@ -111,9 +110,8 @@ export async function GET(request: Request) {
 
   // Check if the file type is supported
   const extension = fileName.split(".").pop()?.toLowerCase() || "";
-  const isSupported = ["png", "webp", "flac", "mp4"].some(
-    (ext) => contentType.includes(ext) || extension === ext,
-  );
+  const isSupported =
+    !!getCodecByType(contentType) || isSupportedFileName(fileName);
 
   if (!isSupported) {
     return new Response(
@@ -11,8 +11,38 @@ import useSWR from "swr";
 import TimeAgo from "timeago-react";
 // import useManifestPWA from "use-manifest-pwa";
 import { useSnapshot } from "valtio";
+import { isWorkflowKey, MetadataTable } from "./MetadataTable";
 import { persistState } from "./persistState";
-import { readWorkflowInfo, setWorkflowInfo } from "./utils/exif";
+import { ValidationReportList } from "./ValidationReportList";
+import { describeCodecError } from "./utils/codec-errors";
+import {
+  getMediaKind,
+  getSupportedExtensions,
+  getTypeByExtension,
+  isSupportedFileName,
+  MediaKind,
+} from "./utils/codecs";
+import {
+  getMediaMetadata,
+  readWorkflowInfo,
+  repairMedia,
+  setWorkflowInfo,
+  stripMetadata,
+  validateMedia,
+  verifyMetadataWrite,
+} from "./utils/exif";
+import { patchFile } from "./utils/file-patch";
+import {
+  detectTextEncoding,
+  diffMetadata,
+  MediaMetadata,
+  MetadataEntry,
+  MetadataWriteOptions,
+  toMetadataRecord,
+} from "./utils/media-metadata";
+import { RepairFix } from "./utils/media-repair";
+import { ValidationReport } from "./utils/media-validator";
+import { compareWorkflowAndPrompt } from "./utils/workflow-prompt";
 
 /**
  * @author snomiao <snomiao@gmail.com> 2024
@@ -41,6 +71,14 @@ export default function Home() {
   const snapSync = useSnapshot(persistState, { sync: true });
   const [workingDir, setWorkingDir] = useState<FileSystemDirectoryHandle>();
   const [urlInput, setUrlInput] = useState("");
+  const [reports, setReports] = useState<
+    {
+      name: string;
+      file: File;
+      report: ValidationReport;
+      fixes?: RepairFix[];
+    }[]
+  >([]);
 
   useSWR(
     "/filelist",
@@ -64,21 +102,37 @@ export default function Home() {
     Awaited<ReturnType<typeof readWorkflowInfo>>[]
   >([]);
 
+  const editorTab = snap.editing_tab === "prompt" ? "prompt" : "workflow";
+  const tableChanges = getMetadataTableChanges(snap.editing_metadata);
+  const promptWarnings = tasklist[snap.editing_index]
+    ? compareWorkflowAndPrompt(
+        snap.editing_workflow_json,
+        snap.editing_prompt_json,
+      )
+    : [];
+
   async function gotFiles(input: File[] | FileList) {
     const files = input instanceof FileList ? fileListToArray(input) : input;
     if (!files.length) return toast.error("No files provided.");
     const readedWorkflowInfos = (await sflow(files)
       .filter((e) => {
-        if (e.name.match(/\.(png|flac|webp|mp4|mp3)$/i)) return true;
+        if (isSupportedFileName(e.name)) return true;
         toast.error("Not Supported format discarded: " + e.name);
         return null;
       })
       .map(
         async (e) =>
-          await readWorkflowInfo(e).catch((err) => {
-            toast.error(`FAIL to read ${e.name}\nCause:${String(err)}`);
-            return null;
-          }),
+          await readWorkflowInfo(e)
+            .then((info) => {
+              // the file is fine, it just has no workflow
+              if (!info.workflowJson)
+                toast(`No workflow embedded in ${e.name}`);
+              return info;
+            })
+            .catch(async (err) => {
+              await reportReadFailure(e, err);
+              return null;
+            }),
       )
       .filter(
         (e): e is Awaited<ReturnType<typeof readWorkflowInfo>> => e !== null,
@@ -178,7 +232,11 @@ export default function Home() {
         <div className="flex flex-col gap-1">
           <div className="">
             <label className="font-semibold">
-              Import files (supports *.png, *.webp, *.flac, *.mp4):
+              Import files (supports{" "}
+              {getSupportedExtensions()
+                .map((e) => `*.${e}`)
+                .join(", ")}
+              ):
             </label>
             &nbsp;
             <span>{workingDir ? "✅ Linked" : ""}</span>
@@ -187,7 +245,7 @@ export default function Home() {
             <input
               readOnly
               className="input input-bordered border-dashed input-sm w-full text-center"
-              placeholder="Way-1. Paste/Drop files here (png, webp, flac, mp3, mp4)"
+              placeholder={`Way-1. Paste/Drop files here (${getSupportedExtensions().join(", ")})`}
               onPaste={async (e) => await gotFiles(e.clipboardData.files)}
             />
             <div className="flex w-full gap-2">
@@ -195,7 +253,7 @@ export default function Home() {
                 value={urlInput}
                 onChange={(e) => setUrlInput(e.target.value)}
                 className="input input-bordered input-sm flex-1"
-                placeholder="Way-4. Paste URL here (png, webp, flac, mp3, mp4)"
+                placeholder={`Way-4. Paste URL here (${getSupportedExtensions().join(", ")})`}
                 onKeyDown={(e) => {
                   if (e.key === "Enter" && urlInput) {
                     (
@@ -234,11 +292,12 @@ export default function Home() {
                     types: [
                       {
                         description: "Supported Files",
-                        accept: {
-                          "image/*": [".png", ".webp"],
-                          "audio/*": [".flac", ".mp3"],
-                          "video/*": [".mp4"],
-                        },
+                        accept: Object.fromEntries(
+                          (["image", "audio", "video"] as const).map((kind) => [
+                            `${kind}/*`,
+                            getSupportedExtensions(kind).map((e) => `.${e}`),
+                          ]),
+                        ),
                       },
                     ],
                     excludeAcceptAllOption: true,
@@ -265,8 +324,24 @@ export default function Home() {
               Way-3. Mount a Folder
             </button>
             <i>* possibly choose /HanzoStudio/output</i>
+            {workingDir && (
+              <button
+                name="strip-folder"
+                className="btn btn-sm w-full"
+                onClick={() => stripMountedFolder(workingDir)}
+              >
+                Strip metadata of all files in the folder
+              </button>
+            )}
           </div>
         </div>
+        <ValidationReportList
+          reports={reports}
+          onDismiss={(index) =>
+            setReports((reports) => reports.filter((_, i) => i !== index))
+          }
+          onRepair={(index) => repairReportedFile(index)}
+        />
         <br />
         <label className="font-semibold">Editable Workflows</label>
         <ul className={clsx("flex flex-col gap-1 overflow-auto")}>
@@ -296,22 +371,17 @@ export default function Home() {
                   />{" "}
                   {(() => {
                     const thumbnail: Record<string, JSX.Element> = {
-                      flac: (
+                      audio: (
                         <div className="w-[2em] h-[2em] inline-flex items-center justify-center bg-slate-100 rounded">
                           <span className="text-xs">🎵</span>
                         </div>
                       ),
-                      mp4: (
-                        <div className="w-[2em] h-[2em] inline-flex items-center justify-center bg-slate-100 rounded">
-                          <span className="text-xs">🎬</span>
-                        </div>
-                      ),
                       video: (
                         <div className="w-[2em] h-[2em] inline-flex items-center justify-center bg-slate-100 rounded">
                           <span className="text-xs">🎬</span>
                         </div>
                       ),
-                      img: (
+                      image: (
                         <img
                           src={e.previewUrl}
                           className="w-[2em] h-[2em] inline object-cover"
@@ -324,18 +394,10 @@ export default function Home() {
                         </div>
                       ),
                     };
-                    const ext =
-                      e.file.name.split(".").pop()?.toLowerCase() || "";
-                    const typeMap: Record<string, keyof typeof thumbnail> = {
-                      png: "img",
-                      jpg: "img",
-                      jpeg: "img",
-                      webp: "img",
-                      flac: "flac",
-                      mp4: "mp4",
-                    };
-                    // Use dict/typeMap instead of if/else
-                    return thumbnail[typeMap[ext]] || thumbnail.default;
+                    const kind = getMediaKind(
+                      getTypeByExtension(e.file.name) ?? e.file.type,
+                    );
+                    return (kind && thumbnail[kind]) || thumbnail.default;
                   })()}{" "}
                   <div className="inline-flex flex-col">
                     <label htmlFor={id}>{e.name}</label>
@@ -369,15 +431,7 @@ export default function Home() {
                 </div>
               );
             }
-            const typeMap: Record<string, () => JSX.Element> = {
-              mp4: () => (
-                <video
-                  src={editingTask.previewUrl}
-                  className="h-[3em] w-[3em] inline object-contain rounded"
-                  controls
-                  muted
-                />
-              ),
+            const typeMap: Record<MediaKind, () => JSX.Element> = {
               video: () => (
                 <video
                   src={editingTask.previewUrl}
@@ -386,13 +440,6 @@ export default function Home() {
                   muted
                 />
               ),
-              flac: () => (
-                <audio
-                  src={editingTask.previewUrl}
-                  className="h-[3em] w-[10em] inline rounded"
-                  controls
-                />
-              ),
               audio: () => (
                 <audio
                   src={editingTask.previewUrl}
@@ -400,7 +447,7 @@ export default function Home() {
                   controls
                 />
               ),
-              img: () => (
+              image: () => (
                 <img
                   src={editingTask.previewUrl}
                   className="h-[3em] w-[3em] inline object-contain rounded"
@@ -408,26 +455,11 @@ export default function Home() {
                 />
               ),
             };
-            const ext =
-              editingTask.file.name.split(".").pop()?.toLowerCase() || "";
-            const extTypeMap: Record<string, keyof typeof typeMap> = {
-              png: "img",
-              jpg: "img",
-              jpeg: "img",
-              webp: "img",
-              mp4: "mp4",
-              flac: "flac",
-              mp3: "audio",
-            };
-            let typeKey = extTypeMap[ext];
-            if (!typeKey) {
-              if (editingTask.file.type.includes("video")) typeKey = "video";
-              else if (editingTask.file.type.includes("audio"))
-                typeKey = "audio";
-            }
-            return typeKey && typeMap[typeKey]
-              ? typeMap[typeKey]()
-              : typeMap["img"]();
+            const kind = getMediaKind(
+              getTypeByExtension(editingTask.file.name) ??
+                editingTask.file.type,
+            );
+            return typeMap[kind ?? "image"]();
           })()}
           <div>
             <input
@@ -445,14 +477,21 @@ export default function Home() {
             <button
               disabled={
                 tryMinifyJson(snap.editing_workflow_json ?? "") ===
-                tryMinifyJson(tasklist[snap.editing_index]?.workflowJson ?? "")
+                  tryMinifyJson(
+                    tasklist[snap.editing_index]?.workflowJson ?? "",
+                  ) &&
+                tryMinifyJson(snap.editing_prompt_json ?? "") ===
+                  tryMinifyJson(
+                    tasklist[snap.editing_index]?.promptJson ?? "",
+                  ) &&
+                !tableChanges.changed.entries.length &&
+                !tableChanges.removed.length
               }
               className="btn btn-primary"
               id="save-workflow"
               onClick={async () => {
-                const workflow = tryMinifyJson(snap.editing_workflow_json);
-                const modifiedMetadata = { workflow };
-                await saveCurrentFile(modifiedMetadata);
+                const { metadata, remove } = getEditedMetadata();
+                await saveCurrentFile(metadata, { remove });
               }}
             >
               Save workflow{" "}
@@ -465,21 +504,86 @@ export default function Home() {
               </span>
             </button>
           </div>
+          <div>
+            <button
+              name="strip-metadata"
+              className="btn"
+              title="Remove the workflow, prompt and all other metadata, e.g. before sharing the file"
+              onClick={() => stripCurrentFile()}
+            >
+              Strip metadata
+            </button>
+          </div>
+          <div>
+            <button
+              name="check-file"
+              className="btn"
+              title="Check the structure of the file (sizes, checksums, ordering)"
+              onClick={() => checkCurrentFile()}
+            >
+              Check file
+            </button>
+          </div>
         </div>
+        {!!promptWarnings.length && (
+          <div className="px-2 text-sm text-amber-700">
+            ⚠️ The workflow and the prompt disagree, the file may run
+            differently than it looks:
+            <ul className="list-disc list-inside max-h-[6em] overflow-auto">
+              {promptWarnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex flex-row gap-1 px-2">
+          {(["workflow", "prompt", "metadata"] as const).map((tab) => (
+            <button
+              key={tab}
+              name={`editing-tab-${tab}`}
+              className={clsx("px-3 py-1 border-b-2", {
+                "border-slate-700 font-semibold": snap.editing_tab === tab,
+                "border-transparent text-slate-500": snap.editing_tab !== tab,
+              })}
+              onClick={() => void (persistState.editing_tab = tab)}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+        {snap.editing_tab === "metadata" && (
+          <MetadataTable
+            original={tasklist[snap.editing_index]?.metadata.entries ?? []}
+            onOpenTab={(tab) => void (persistState.editing_tab = tab)}
+          />
+        )}
         <Editor
           language="json"
-          value={snap.editing_workflow_json ?? "{}"}
+          // separate models keep the undo history of each tab
+          path={editorTab}
+          value={
+            (editorTab === "prompt"
+              ? snap.editing_prompt_json
+              : snap.editing_workflow_json) ?? "{}"
+          }
           onChange={(e) => {
             const content = e ?? "";
-            persistState.editing_workflow_json = content;
-            if (
-              snap.autosave &&
-              content !== tasklist[snap.editing_index]?.workflowJson
-            ) {
-              saveCurrentFile({ workflow: tryMinifyJson(content) });
+            const task = tasklist[snap.editing_index];
+            if (editorTab === "prompt") {
+              persistState.editing_prompt_json = content;
+            } else {
+              persistState.editing_workflow_json = content;
+            }
+            const original =
+              editorTab === "prompt" ? task?.promptJson : task?.workflowJson;
+            if (snap.autosave && content !== original) {
+              const { metadata, remove } = getEditedMetadata();
+              saveCurrentFile(metadata, { remove });
             }
           }}
-          className="w-[calc(100%-1px)] h-full"
+          className={clsx("w-[calc(100%-1px)] h-full", {
+            hidden: snap.editing_tab === "metadata",
+          })}
           onValidate={(e) => console.log(e)}
           onMount={(editor) => setEditor(editor)}
         />
@@ -496,20 +600,87 @@ export default function Home() {
     </div>
   );
 
-  async function saveCurrentFile(modifiedMetadata: { workflow: string }) {
+  /**
+   * Keys changed in the metadata table, workflow and prompt are edited in
+   * their own tabs
+   */
+  function getMetadataTableChanges(
+    edited: readonly MetadataEntry[] = persistState.editing_metadata,
+  ) {
+    const task = tasklist[persistState.editing_index];
+    const isTableEntry = (e: MetadataEntry) => e.key && !isWorkflowKey(e.key);
+    return diffMetadata(
+      { entries: task?.metadata.entries.filter(isTableEntry) ?? [] },
+      { entries: edited.filter(isTableEntry) },
+    );
+  }
+
+  /**
+   * The edited workflow, prompt and other keys, written together in one save,
+   * and the keys deleted in the metadata table.
+   * Files without a workflow or prompt only get one when it has been typed
+   * in.
+   */
+  function getEditedMetadata(): { metadata: MediaMetadata; remove: string[] } {
+    const toEntry = (key: string, value: string): MetadataEntry => ({
+      key,
+      value,
+      origin: "",
+      encoding: detectTextEncoding(value),
+    });
+    const entries: MetadataEntry[] = [];
+    const task = tasklist[persistState.editing_index];
+    if (task?.workflowJson || persistState.editing_workflow_json.trim())
+      entries.push(
+        toEntry("workflow", tryMinifyJson(persistState.editing_workflow_json)),
+      );
+    if (task?.promptJson || persistState.editing_prompt_json.trim())
+      entries.push(
+        toEntry("prompt", tryMinifyJson(persistState.editing_prompt_json)),
+      );
+    const { changed, removed } = getMetadataTableChanges();
+    entries.push(...changed.entries);
+    return { metadata: { entries }, remove: removed };
+  }
+
+  async function saveCurrentFile(
+    modifiedMetadata: MediaMetadata,
+    options?: MetadataWriteOptions,
+  ) {
     const file = tasklist[persistState.editing_index]?.file;
     if (!file) return;
 
+    const { workflow, prompt } = toMetadataRecord(modifiedMetadata);
+    const warnings = compareWorkflowAndPrompt(workflow, prompt ?? "");
+    if (warnings.length)
+      toast(`Saving a workflow and prompt that disagree: ${warnings[0]}`, {
+        icon: "⚠️",
+        // autosave calls this on every change
+        id: "prompt-warning",
+      });
+
     const filename = persistState.editing_filename || file.name;
 
     const buffer = await file.arrayBuffer();
 
     try {
-      const newBuffer = setWorkflowInfo(buffer, file.type, modifiedMetadata);
+      const newBuffer = await setWorkflowInfo(
+        buffer,
+        file.type,
+        modifiedMetadata,
+        options,
+      );
+      await assertVerifiedWrite(
+        buffer,
+        newBuffer,
+        file.type,
+        modifiedMetadata,
+        options,
+      );
       const fileToSave = new File([newBuffer], filename, { type: file.type });
 
       if (workingDir) {
-        await writeToWorkingDir(workingDir, fileToSave);
+        await writeToWorkingDir(workingDir, fileToSave, { file, buffer });
       } else {
         download(fileToSave);
       }
@@ -522,16 +693,187 @@ export default function Home() {
     }
   }
 
+  /**
+   * Save the editing file without any metadata, under the editing file name
+   */
+  async function stripCurrentFile() {
+    const task = tasklist[persistState.editing_index];
+    if (!task) return;
+    const { file, metadata } = task;
+    const filename = persistState.editing_filename || file.name;
+    if (
+      workingDir &&
+      !confirm(`Remove the workflow, prompt and all metadata from ${filename}?`)
+    )
+      return;
+
+    try {
+      const buffer = await file.arrayBuffer();
+      const newBuffer = await stripMetadata(buffer, file.type);
+      await assertVerifiedWrite(
+        buffer,
+        newBuffer,
+        file.type,
+        {},
+        {
+          remove: metadata.entries.map((e) => e.key),
+        },
+      );
+      const fileToSave = new File([newBuffer], filename, { type: file.type });
+      if (workingDir) {
+        await writeToWorkingDir(workingDir, fileToSave, { file, buffer });
+      } else {
+        download(fileToSave);
+      }
+      toast.success(`Metadata stripped from ${filename}`);
+    } catch (error) {
+      toast.error(
+        `FAIL to strip ${filename}\nCause:${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Strip the metadata of every supported file in the folder, in place
+   */
+  async function stripMountedFolder(workingDir: FileSystemDirectoryHandle) {
+    const handles: FileSystemFileHandle[] = [];
+    for await (const handle of workingDir.values()) {
+      if (handle.kind === "file" && isSupportedFileName(handle.name))
+        handles.push(handle as FileSystemFileHandle);
+    }
+    if (
+      !confirm(
+        `Remove the workflow, prompt and all metadata from ${handles.length} files in ${workingDir.name}? This can not be undone.`,
+      )
+    )
+      return;
+
+    let stripped = 0;
+    for (const handle of handles) {
+      try {
+        const file = await handle.getFile();
+        if (!file.size) continue;
+        // the folder only lists supported extensions
+        const type = getTypeByExtension(file.name)!;
+        const buffer = await file.arrayBuffer();
+        const { entries } = await getMediaMetadata(buffer, type);
+        const newBuffer = await stripMetadata(buffer, type);
+        await assertVerifiedWrite(
+          buffer,
+          newBuffer,
+          type,
+          {},
+          {
+            remove: entries.map((e) => e.key),
+          },
+        );
+        await patchFile(handle, { file, buffer }, newBuffer);
+        stripped++;
+      } catch (error) {
+        toast.error(`FAIL to strip ${handle.name}\nCause:${String(error)}`);
+      }
+    }
+    toast.success(`Metadata stripped from ${stripped} files`);
+    await scanFilelist(workingDir);
+  }
+
+  /**
+   * Refuse to save a written file that does not read back as intended or
+   * whose image or audio data changed, originals are overwritten in place
+   */
+  async function assertVerifiedWrite(
+    ...args: Parameters<typeof verifyMetadataWrite>
+  ) {
+    const problems = await verifyMetadataWrite(...args);
+    if (problems.length) {
+      throw new Error(
+        `The file was not saved, the written file failed verification:\n- ${problems.join("\n- ")}`,
+      );
+    }
+  }
+
+  /**
+   * Explain why a file can not be read with a structural check of it
+   */
+  async function reportReadFailure(file: File, error: unknown) {
+    toast.error(
+      `FAIL to read ${file.name}\nCause:${describeCodecError(error)}`,
+    );
+    const report = await validateMedia(await file.arrayBuffer(), file.type);
+    setReports((reports) => [...reports, { name: file.name, file, report }]);
+  }
+
+  async function checkCurrentFile() {
+    const file = tasklist[persistState.editing_index]?.file;
+    if (!file) return;
+    const report = await validateMedia(await file.arrayBuffer(), file.type);
+    setReports((reports) => [...reports, { name: file.name, file, report }]);
+  }
+
+  /**
+   * Rebuild the broken structures of a reported file and save it under its
+   * name, the report then lists the fixes and the problems that remain
+   */
+  async function repairReportedFile(index: number) {
+    const { file, report } = reports[index];
+    if (
+      workingDir &&
+      !confirm(`Repair ${file.name} in place? This can not be undone.`)
+    )
+      return;
+
+    try {
+      const original = await file.arrayBuffer();
+      const { buffer, fixes, issues } = await repairMedia(original, file.type);
+      if (!fixes.length)
+        return toast.error(`Nothing to repair in ${file.name}`);
+      const fileToSave = new File([buffer], file.name, { type: file.type });
+      if (workingDir) {
+        await writeToWorkingDir(workingDir, fileToSave, {
+          file,
+          buffer: original,
+        });
+      } else {
+        download(fileToSave);
+      }
+      setReports((reports) =>
+        reports.map((e, i) =>
+          i !== index
+            ? e
+            : { ...e, file: fileToSave, report: { ...report, issues }, fixes },
+        ),
+      );
+      toast.success(`Repaired ${file.name}, ${fixes.length} fixes`);
+    } catch (error) {
+      toast.error(
+        `FAIL to repair ${file.name}\nCause:${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Save a file in the mounted folder, a file saved over the file it was
+   * edited from is patched in place, passing only the changed bytes to the
+   * browser, which still copies the rest of the file
+   * @param original The file that was edited and its bytes
+   */
   async function writeToWorkingDir(
     workingDir: FileSystemDirectoryHandle,
     file: File,
+    original?: { file: File; buffer: ArrayBuffer },
   ) {
     const h = await workingDir.getFileHandle(file.name, {
       create: true,
     });
-    const w = await h.createWritable();
-    await w.write(file);
-    await w.close();
+    if (original?.file.name === file.name) {
+      await patchFile(h, original, new Uint8Array(await file.arrayBuffer()));
+    } else {
+      const w = await h.createWritable();
+      await w.write(file);
+      await w.close();
+    }
     await scanFilelist(workingDir);
   }
 
@@ -539,12 +881,19 @@ export default function Home() {
     const aIter = workingDir.values() as AsyncIterable<FileSystemFileHandle>;
     const readed = (await sf(aIter)
       .filter((e) => e.kind === "file")
-      .filter((e) => e.name.match(/\.(png|flac|webp|mp4|mp3)$/i))
+      .filter((e) => isSupportedFileName(e.name))
       .map(async (e) => await e.getFile())
-      .map(async (e) => await readWorkflowInfo(e as File))
+      .map(
+        async (e) =>
+          await readWorkflowInfo(e as File).catch(async (err) => {
+            await reportReadFailure(e as File, err);
+            return null;
+          }),
+      )
       .filter(
         (e): e is Awaited<ReturnType<typeof readWorkflowInfo>> =>
-          !!(e as Awaited<ReturnType<typeof readWorkflowInfo>>).workflowJson,
+          !!(e as Awaited<ReturnType<typeof readWorkflowInfo>> | null)
+            ?.workflowJson,
       )
       .toArray()) as Awaited<ReturnType<typeof readWorkflowInfo>>[];
     setTasklist(readed);
@@ -592,6 +941,14 @@ function chooseNthFileToEdit(
     return;
   }
   persistState.editing_index = i;
-  persistState.editing_workflow_json = tryPrettyJson(tasklist[i].workflowJson!);
+  persistState.editing_workflow_json = tryPrettyJson(
+    tasklist[i].workflowJson ?? "",
+  );
+  persistState.editing_prompt_json = tryPrettyJson(
+    tasklist[i].promptJson ?? "",
+  );
+  persistState.editing_metadata = tasklist[i].metadata.entries.map((e) => ({
+    ...e,
+  }));
   persistState.editing_filename = tasklist[i].name!;
 }
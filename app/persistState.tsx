@@ -1,5 +1,6 @@
 "use client";
 import { proxy } from "valtio";
+import { MetadataEntry } from "./utils/media-metadata";
 
 export const persistState = proxy({
   // comfy api, not used yet, but may be used in the future if we want re-run the workflow after saving
@@ -13,6 +14,11 @@ export const persistState = proxy({
   editing_index: -1,
   editing_filename: "",
   editing_workflow_json: "",
+  // the API format "prompt", saved together with the workflow
+  editing_prompt_json: "",
+  editing_tab: "workflow" as "workflow" | "prompt" | "metadata",
+  // all keys of the file, edited in the metadata table
+  editing_metadata: [] as MetadataEntry[],
 
   error: "",
 });
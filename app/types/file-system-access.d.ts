@@ -2,7 +2,9 @@ interface FileSystemFileHandle {
   kind: "file";
   name: string;
   getFile(): Promise<File>;
-  createWritable(): Promise<FileSystemWritableFileStream>;
+  createWritable(options?: {
+    keepExistingData?: boolean;
+  }): Promise<FileSystemWritableFileStream>;
 }
 
 interface FileSystemDirectoryHandle {
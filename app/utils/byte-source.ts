@@ -0,0 +1,42 @@
+/**
+ * Random access to the bytes of a file
+ *
+ * Readers of large files only need their headers and metadata regions, e.g.
+ * the PNG chunks before IDAT or the MP4 'moov' box. A source reads those
+ * ranges on demand, e.g. from a File of a mounted folder, which is backed by
+ * the disk, instead of loading the whole file into memory.
+ */
+
+export type ByteSource = {
+  // the size of the file in bytes
+  size: number;
+  /**
+   * Read a range of the file
+   * @param offset The first byte to read
+   * @param length The number of bytes to read
+   * @returns The bytes, shorter than length if the file ends before
+   */
+  read: (offset: number, length: number) => Promise<Uint8Array>;
+};
+
+/**
+ * A source over a file already in memory
+ */
+export function bufferSource(input: Uint8Array | ArrayBuffer): ByteSource {
+  const data = new Uint8Array(input);
+  return {
+    size: data.length,
+    read: async (offset, length) => data.slice(offset, offset + length),
+  };
+}
+
+/**
+ * A source over a Blob or File, ranges are read with Blob.slice
+ */
+export function blobSource(blob: Blob): ByteSource {
+  return {
+    size: blob.size,
+    read: async (offset, length) =>
+      new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+  };
+}
@@ -0,0 +1,174 @@
+import {
+  CodecError,
+  CorruptStructureError,
+  describeCodecError,
+  NotThisFormatError,
+  toCodecError,
+  TruncatedError,
+  UnsupportedFeatureError,
+} from "@/app/utils/codec-errors";
+import {
+  getMediaMetadata,
+  getWorkflowInfo,
+  repairMedia,
+  setWorkflowInfo,
+} from "@/app/utils/exif";
+import { getFlacMetadata } from "@/app/utils/exif-flac";
+import {
+  decodeTIFFBlock,
+  encodeTIFFBlock,
+  EXIF_TAGS,
+  getWebpMetadata,
+  setWebpMetadata,
+} from "@/app/utils/exif-webp";
+
+const catchError = async (run: () => unknown) => {
+  try {
+    await run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("expected an error");
+};
+
+it("should reject files of another format", async () => {
+  const garbage = Uint8Array.from(
+    new TextEncoder().encode("not a media file at all"),
+  ).buffer;
+  for (const type of ["image/png", "image/webp", "audio/mpeg", "video/mp4"]) {
+    const error = await catchError(() => getMediaMetadata(garbage, type));
+    expect(error).toBeInstanceOf(NotThisFormatError);
+    expect(error).toBeInstanceOf(CodecError);
+  }
+});
+
+it("should tell a file without workflow apart from a broken file", async () => {
+  const blank = await Bun.file("./tests/jpeg/blank.jpg").arrayBuffer();
+  const info = await getWorkflowInfo(blank, "image/jpeg");
+  expect(info.workflowJson).toBeUndefined();
+
+  const png = await Bun.file("./tests/png/compressed.png").bytes();
+
+  // the CRC of the IEND chunk is cut off
+  const error = await catchError(() =>
+    getWorkflowInfo(png.slice(0, -4).buffer, "image/png"),
+  );
+  expect(error).toBeInstanceOf(TruncatedError);
+  expect(error).toMatchObject({ format: "png", offset: png.length - 12 });
+  expect((error as TruncatedError).context).toEqual({
+    type: "IEND",
+    length: 0,
+  });
+  expect(describeCodecError(error)).toMatch(
+    /^The file is cut off: .* \(at byte \d+\)$/,
+  );
+});
+
+it("should report the offset of a truncated FLAC block", async () => {
+  const flac = await Bun.file("./tests/flac/padding.flac").bytes();
+  const error = await catchError(() => getFlacMetadata(flac.slice(0, 100)));
+  expect(error).toBeInstanceOf(TruncatedError);
+  expect((error as TruncatedError).offset).toBeLessThan(100);
+});
+
+it("should point at broken metadata structures inside a file", async () => {
+  const workflow = { workflow: "{}" };
+  // the IFD offset of the TIFF block after "Exif\0\0II*\0" points past it
+  const breakExif = (file: Uint8Array) => {
+    const exif = Buffer.from(file).indexOf("Exif\0\0II*\0");
+    new DataView(file.buffer).setUint32(exif + 10, 0xffff, true);
+    return exif;
+  };
+
+  const jpeg = await setWorkflowInfo(
+    await Bun.file("./tests/jpeg/blank.jpg").arrayBuffer(),
+    "image/jpeg",
+    workflow,
+  );
+  // the segment starts with its marker and length
+  const segment = breakExif(jpeg) - 4;
+  const jpegError = await catchError(() =>
+    getMediaMetadata(jpeg.slice().buffer, "image/jpeg"),
+  );
+  expect(jpegError).toBeInstanceOf(CorruptStructureError);
+  expect(jpegError).toMatchObject({ format: "jpeg", offset: segment });
+
+  const heif = await setWorkflowInfo(
+    await Bun.file("./tests/heif/blank.avif").arrayBuffer(),
+    "image/avif",
+    workflow,
+  );
+  // the item starts with the offset of the TIFF header
+  const item = breakExif(heif) - 4;
+  const heifError = await catchError(() =>
+    getMediaMetadata(heif.slice().buffer, "image/avif"),
+  );
+  expect(heifError).toBeInstanceOf(CorruptStructureError);
+  expect(heifError).toMatchObject({ format: "heif", offset: item });
+
+  // a 'wflo' box too small for its version and flags, at 20 + 8 + 8
+  const box = (type: string, content: number[]) => [
+    ...[0, 0, 0, 8 + content.length],
+    ...new TextEncoder().encode(type),
+    ...content,
+  ];
+  const mp4 = Uint8Array.from([
+    ...box("ftyp", [...new TextEncoder().encode("isom\0\0\0\0isom")]),
+    ...box("moov", box("udta", [...box("wflo", [0, 0]), ...box("free", [])])),
+  ]);
+  const mp4Error = await catchError(() =>
+    getMediaMetadata(mp4.buffer, "video/mp4"),
+  );
+  expect(mp4Error).toBeInstanceOf(CorruptStructureError);
+  expect(mp4Error).toMatchObject({ format: "mp4", offset: 36 });
+  expect((mp4Error as CorruptStructureError).context).toEqual({
+    type: "wflo",
+  });
+});
+
+it("should report ASCII values outside the TIFF block", async () => {
+  const tiff = encodeTIFFBlock([
+    {
+      tag: EXIF_TAGS.Make,
+      type: 2,
+      value: new TextEncoder().encode("workflow:{}\0"),
+    },
+  ]);
+  // the value offset of the entry at 10 points past the block, which ends
+  // before the value
+  new DataView(tiff.buffer).setUint32(10 + 8, 0xffff, true);
+  const error = await catchError(() => decodeTIFFBlock(tiff.slice(0, 26)));
+  expect(error).toBeInstanceOf(CorruptStructureError);
+  expect(error).toMatchObject({ format: "exif", offset: 10 });
+});
+
+it("should not warn about readable files", async () => {
+  const warn = jest.spyOn(console, "warn");
+  const webp = await Bun.file("./tests/webp/ComfyUI.webp").arrayBuffer();
+  const buffer = setWebpMetadata(webp, { seed: "1" });
+  expect(getWebpMetadata(buffer).seed).toBe("1");
+  expect(warn).not.toHaveBeenCalled();
+  warn.mockRestore();
+});
+
+it("should turn other errors into codec errors", () => {
+  const truncated = toCodecError(new RangeError("Offset is outside"), "gif");
+  expect(truncated).toBeInstanceOf(TruncatedError);
+  expect(truncated.format).toBe("gif");
+  expect(truncated.cause).toBeInstanceOf(RangeError);
+
+  const corrupt = toCodecError(new Error("bad"), "gif");
+  expect(corrupt).toBeInstanceOf(CorruptStructureError);
+  expect(corrupt.message).toBe("bad");
+
+  const codecError = new UnsupportedFeatureError("ogg", "Unsupported codec");
+  expect(toCodecError(codecError, "ogg")).toBe(codecError);
+  expect(codecError.name).toBe("UnsupportedFeatureError");
+});
+
+it("should refuse to repair formats without a repair mode", async () => {
+  const error = await catchError(() =>
+    repairMedia(new ArrayBuffer(16), "image/gif"),
+  );
+  expect(error).toBeInstanceOf(UnsupportedFeatureError);
+});
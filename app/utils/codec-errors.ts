@@ -0,0 +1,94 @@
+/**
+ * Errors of the media codecs
+ *
+ * Readers and writers throw these for files they can't handle, so callers
+ * can tell a file of another format, a file that ends early, a broken
+ * structure and a feature the codecs don't support apart. A file without
+ * workflow is none of these, its metadata is read without error.
+ */
+
+export type CodecErrorOptions = {
+  // byte offset of the structure the error is about
+  offset?: number;
+  // details for debugging, e.g. the box type or the declared size
+  context?: Record<string, unknown>;
+  cause?: unknown;
+};
+
+export class CodecError extends Error {
+  // the codec name, e.g. "png"
+  readonly format: string;
+  readonly offset?: number;
+  readonly context: Record<string, unknown>;
+
+  constructor(
+    format: string,
+    message: string,
+    { offset, context = {}, cause }: CodecErrorOptions = {},
+  ) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.format = format;
+    this.offset = offset;
+    this.context = context;
+  }
+}
+
+/**
+ * The file is not of the format of the codec, e.g. a wrong signature
+ */
+export class NotThisFormatError extends CodecError {}
+
+/**
+ * The file ends inside a structure, e.g. a chunk or box larger than the file
+ */
+export class TruncatedError extends CodecError {}
+
+/**
+ * A structure can't be read, e.g. an invalid marker or a missing required box
+ */
+export class CorruptStructureError extends CodecError {}
+
+/**
+ * The file is valid but uses something the codec can't read or write, e.g.
+ * an unknown codec or integer size
+ */
+export class UnsupportedFeatureError extends CodecError {}
+
+/**
+ * Turn an error thrown while walking a file into a codec error, reads past
+ * the end of a buffer mean the file is truncated
+ * @param error The error, codec errors are returned as they are
+ * @param format The codec name
+ */
+export function toCodecError(error: unknown, format: string): CodecError {
+  if (error instanceof CodecError) return error;
+  if (error instanceof RangeError) {
+    return new TruncatedError(format, `The ${format} file ends early`, {
+      cause: error,
+    });
+  }
+  return new CorruptStructureError(
+    format,
+    error instanceof Error ? error.message : String(error),
+    { cause: error },
+  );
+}
+
+/**
+ * Explain a read or write failure to users, the offset points at the broken
+ * structure for inspection with a hex editor
+ */
+export function describeCodecError(error: unknown): string {
+  if (!(error instanceof CodecError)) return String(error);
+  const at = error.offset === undefined ? "" : ` (at byte ${error.offset})`;
+  if (error instanceof NotThisFormatError)
+    return `${error.message}, the name or type of the file is wrong`;
+  if (error instanceof TruncatedError)
+    return `The file is cut off: ${error.message}${at}`;
+  if (error instanceof CorruptStructureError)
+    return `The file is damaged: ${error.message}${at}`;
+  if (error instanceof UnsupportedFeatureError)
+    return `Not supported: ${error.message}${at}`;
+  return `${error.message}${at}`;
+}
@@ -0,0 +1,56 @@
+import { detectContentType } from "@/app/api/media/detectContentType";
+import {
+  detectCodecType,
+  getCodecByType,
+  getCodecs,
+  getExtensionByType,
+  getSupportedExtensions,
+  getTypeByExtension,
+  isSupportedFileName,
+} from "@/app/utils/codecs";
+import { glob } from "glob";
+
+describe("detect codec from magic bytes", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+  expect(files.length).toBeGreaterThanOrEqual(15);
+
+  for (const filename of files) {
+    it(`should detect ${filename} without its name`, async () => {
+      const buffer = await Bun.file(filename).arrayBuffer();
+      const type = detectCodecType(buffer)!;
+      expect(type).toBeDefined();
+      // the file name agrees on the codec
+      expect(getCodecByType(type)).toBe(
+        getCodecByType(getTypeByExtension(filename)!),
+      );
+      expect(await detectContentType(buffer)).toBe(type);
+    });
+  }
+});
+
+it("should map every extension and MIME type back to its codec", () => {
+  for (const codec of getCodecs()) {
+    for (const [type, extensions] of Object.entries(codec.types)) {
+      expect(getCodecByType(type)).toBe(codec);
+      expect(getCodecByType(`${type}; charset=binary`)).toBe(codec);
+      for (const extension of extensions) {
+        expect(getTypeByExtension(`file.${extension}`)).toBe(type);
+      }
+      expect(getExtensionByType(type)).toBeDefined();
+    }
+  }
+});
+
+it("should support mp3 everywhere", () => {
+  expect(isSupportedFileName("song.MP3")).toBe(true);
+  expect(getSupportedExtensions("audio")).toContain("mp3");
+  expect(getCodecByType("audio/mpeg")?.name).toBe("mp3");
+  expect(getExtensionByType("audio/mp3")).toBe("mp3");
+});
+
+it("should reject unknown formats", () => {
+  expect(isSupportedFileName("notes.txt")).toBe(false);
+  expect(isSupportedFileName("png")).toBe(false);
+  expect(getCodecByType("text/plain")).toBeUndefined();
+  expect(detectCodecType(new Uint8Array([0, 1, 2, 3]).buffer)).toBeUndefined();
+});
@@ -0,0 +1,411 @@
+import {
+  getFlacMediaMetadata,
+  getFlacPayload,
+  setFlacMetadata,
+} from "./exif-flac";
+import { getGifMediaMetadata, getGifPayload, setGifMetadata } from "./exif-gif";
+import {
+  getHeifMediaMetadata,
+  getHeifPayload,
+  setHeifMetadata,
+} from "./exif-heif";
+import {
+  getJpegMediaMetadata,
+  getJpegPayload,
+  setJpegMetadata,
+} from "./exif-jpeg";
+import { getMp3MediaMetadata, getMp3Payload, setMp3Metadata } from "./exif-mp3";
+import { getMp4MediaMetadata, getMp4Payload, setMp4Metadata } from "./exif-mp4";
+import { getOggMediaMetadata, getOggPayload, setOggMetadata } from "./exif-ogg";
+import { getPngMediaMetadata, getPngPayload, setPngMetadata } from "./exif-png";
+import { getWavMediaMetadata, getWavPayload, setWavMetadata } from "./exif-wav";
+import {
+  getWebmMediaMetadata,
+  getWebmPayload,
+  setWebmMetadata,
+} from "./exif-webm";
+import {
+  getWebpMediaMetadata,
+  getWebpPayload,
+  setWebpMetadata,
+} from "./exif-webp";
+import { ByteSource } from "./byte-source";
+import {
+  MediaMetadata,
+  MetadataInput,
+  MetadataWriteOptions,
+} from "./media-metadata";
+import {
+  readFlacRegions,
+  readMp3Regions,
+  readMp4Regions,
+  readPngRegions,
+  readWavRegions,
+  readWebpRegions,
+  readWebmRegions,
+} from "./media-regions";
+import {
+  repairHeif,
+  repairMp3,
+  repairMp4,
+  repairPng,
+  repairWav,
+  repairWebp,
+  RepairResult,
+} from "./media-repair";
+import {
+  validateFlac,
+  validateHeif,
+  validateMp3,
+  validateMp4,
+  validatePng,
+  validateWav,
+  validateWebp,
+  ValidationIssue,
+} from "./media-validator";
+
+/**
+ * Registry of the supported media formats
+ *
+ * Every format declares its MIME types with their file extensions, how to
+ * recognize it from its first bytes, and its metadata reader and writer.
+ * File pickers, the media proxy, content type detection and the workflow
+ * read/write functions all look formats up here, so a format is supported
+ * everywhere once it is registered.
+ */
+
+export type MediaKind = "image" | "audio" | "video";
+
+export type MediaCodec = {
+  name: string;
+  // MIME type => file extensions (without dot), the first MIME type and the
+  // first extension of each type are the preferred ones
+  types: Record<string, string[]>;
+  /**
+   * Recognize the format from the start of a file
+   * @param header The first bytes of the file, at least 64 when available
+   * @returns The MIME type, or undefined if the file is not of this format
+   */
+  detect: (header: Uint8Array) => string | undefined;
+  read: (buffer: ArrayBuffer) => MediaMetadata | Promise<MediaMetadata>;
+  /**
+   * Read only the structures that can hold metadata, to read large files
+   * without loading them into memory
+   * @returns A smaller file of the same format, which `read` parses like the
+   * whole file, formats without regions leave this out and are read whole
+   */
+  readMetadataRegions?: (source: ByteSource) => Promise<Uint8Array>;
+  write: (
+    buffer: ArrayBuffer,
+    metadata: MetadataInput,
+    options?: MetadataWriteOptions,
+  ) => Uint8Array | Promise<Uint8Array>;
+  /**
+   * Get the coded image, audio or video data, which metadata edits must copy
+   * as is, to verify a write before it replaces the original
+   * @returns The data in file order, split at metadata structures
+   */
+  payload: (buffer: ArrayBuffer) => Uint8Array[];
+  /**
+   * Check the container structure (sizes, checksums, ordering)
+   * @returns The issues found, formats without checks leave this out
+   */
+  validate?: (buffer: ArrayBuffer) => ValidationIssue[];
+  /**
+   * Rebuild broken container structures, keeping the payload and the
+   * metadata that can still be read
+   * @returns The repaired file and what was fixed, formats without repairs
+   * leave this out
+   */
+  repair?: (buffer: ArrayBuffer) => RepairResult;
+};
+
+// number of bytes passed to MediaCodec.detect
+export const CODEC_HEADER_LENGTH = 64;
+
+const HEIF_BRANDS: Record<string, string> = {
+  avif: "image/avif",
+  avis: "image/avif",
+  heic: "image/heic",
+  heix: "image/heic",
+  heim: "image/heic",
+  heis: "image/heic",
+  hevc: "image/heic",
+  hevx: "image/heic",
+  mif1: "image/heif",
+  msf1: "image/heif",
+};
+
+const MP4_BRANDS: Record<string, string> = {
+  "qt  ": "video/quicktime",
+  "M4A ": "audio/mp4",
+  "M4B ": "audio/mp4",
+  "M4P ": "audio/mp4",
+  "M4V ": "video/x-m4v",
+  M4VH: "video/x-m4v",
+  M4VP: "video/x-m4v",
+};
+
+const codecs: MediaCodec[] = [
+  {
+    name: "png",
+    types: { "image/png": ["png"] },
+    detect: (header) =>
+      matchBytes(header, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+        ? "image/png"
+        : undefined,
+    read: getPngMediaMetadata,
+    readMetadataRegions: readPngRegions,
+    write: setPngMetadata,
+    payload: getPngPayload,
+    validate: validatePng,
+    repair: repairPng,
+  },
+  {
+    name: "jpeg",
+    types: { "image/jpeg": ["jpg", "jpeg"] },
+    detect: (header) =>
+      matchBytes(header, 0, [0xff, 0xd8, 0xff]) ? "image/jpeg" : undefined,
+    read: getJpegMediaMetadata,
+    write: setJpegMetadata,
+    payload: getJpegPayload,
+  },
+  {
+    name: "gif",
+    types: { "image/gif": ["gif"] },
+    detect: (header) =>
+      matchBytes(header, 0, "GIF87a") || matchBytes(header, 0, "GIF89a")
+        ? "image/gif"
+        : undefined,
+    read: getGifMediaMetadata,
+    write: setGifMetadata,
+    payload: getGifPayload,
+  },
+  {
+    name: "webp",
+    types: { "image/webp": ["webp"] },
+    detect: (header) =>
+      matchBytes(header, 0, "RIFF") && matchBytes(header, 8, "WEBP")
+        ? "image/webp"
+        : undefined,
+    read: getWebpMediaMetadata,
+    readMetadataRegions: readWebpRegions,
+    write: setWebpMetadata,
+    payload: getWebpPayload,
+    validate: validateWebp,
+    repair: repairWebp,
+  },
+  {
+    name: "heif",
+    types: {
+      "image/avif": ["avif"],
+      "image/heic": ["heic"],
+      "image/heif": ["heif"],
+    },
+    detect: (header) =>
+      matchBytes(header, 4, "ftyp")
+        ? HEIF_BRANDS[readType(header, 8)]
+        : undefined,
+    read: getHeifMediaMetadata,
+    write: setHeifMetadata,
+    payload: getHeifPayload,
+    validate: validateHeif,
+    repair: repairHeif,
+  },
+  {
+    name: "wav",
+    types: { "audio/wav": ["wav"], "audio/x-wav": [], "audio/wave": [] },
+    detect: (header) =>
+      matchBytes(header, 0, "RIFF") && matchBytes(header, 8, "WAVE")
+        ? "audio/wav"
+        : undefined,
+    read: getWavMediaMetadata,
+    readMetadataRegions: readWavRegions,
+    write: setWavMetadata,
+    payload: getWavPayload,
+    validate: validateWav,
+    repair: repairWav,
+  },
+  {
+    name: "flac",
+    types: { "audio/flac": ["flac"], "audio/x-flac": [] },
+    detect: (header) =>
+      matchBytes(header, 0, "fLaC") ? "audio/flac" : undefined,
+    read: getFlacMediaMetadata,
+    readMetadataRegions: readFlacRegions,
+    write: setFlacMetadata,
+    payload: getFlacPayload,
+    validate: validateFlac,
+  },
+  {
+    name: "ogg",
+    types: { "audio/ogg": ["ogg", "oga"], "audio/opus": ["opus"] },
+    detect: (header) =>
+      matchBytes(header, 0, "OggS") ? "audio/ogg" : undefined,
+    read: getOggMediaMetadata,
+    write: setOggMetadata,
+    payload: getOggPayload,
+  },
+  {
+    name: "webm",
+    types: {
+      "video/webm": ["webm"],
+      "audio/webm": [],
+      "video/x-matroska": ["mkv"],
+    },
+    // EBML header, the DocType tells WebM and Matroska apart
+    detect: (header) => {
+      if (!matchBytes(header, 0, [0x1a, 0x45, 0xdf, 0xa3])) return undefined;
+      return new TextDecoder().decode(header).includes("matroska")
+        ? "video/x-matroska"
+        : "video/webm";
+    },
+    read: getWebmMediaMetadata,
+    readMetadataRegions: readWebmRegions,
+    write: setWebmMetadata,
+    payload: getWebmPayload,
+  },
+  {
+    name: "mp4",
+    types: {
+      "video/mp4": ["mp4"],
+      "video/quicktime": ["mov"],
+      "video/x-m4v": ["m4v"],
+      "audio/mp4": ["m4a"],
+      "audio/x-m4a": [],
+    },
+    detect: (header) => {
+      if (matchBytes(header, 4, "moov") || matchBytes(header, 4, "mdat"))
+        return "video/mp4";
+      if (!matchBytes(header, 4, "ftyp")) return undefined;
+      const brand = readType(header, 8);
+      if (MP4_BRANDS[brand]) return MP4_BRANDS[brand];
+      // Common MP4 types: isom, iso2, mp41, mp42, etc.
+      return ["isom", "iso2", "mp41", "mp42", "avc1", "dash"].some((e) =>
+        brand.includes(e),
+      )
+        ? "video/mp4"
+        : undefined;
+    },
+    read: getMp4MediaMetadata,
+    readMetadataRegions: readMp4Regions,
+    write: setMp4Metadata,
+    payload: getMp4Payload,
+    validate: validateMp4,
+    repair: repairMp4,
+  },
+  {
+    name: "mp3",
+    types: { "audio/mpeg": ["mp3"], "audio/mp3": [] },
+    // ID3v2 tag or the sync word of an MPEG audio frame header
+    detect: (header) =>
+      matchBytes(header, 0, "ID3") ||
+      (header[0] === 0xff && (header[1] & 0xe0) === 0xe0)
+        ? "audio/mpeg"
+        : undefined,
+    read: getMp3MediaMetadata,
+    readMetadataRegions: readMp3Regions,
+    write: setMp3Metadata,
+    payload: getMp3Payload,
+    validate: validateMp3,
+    repair: repairMp3,
+  },
+];
+
+/**
+ * Add a format to the registry, formats registered later are detected last
+ */
+export function registerCodec(codec: MediaCodec) {
+  codecs.push(codec);
+}
+
+export function getCodecs(): readonly MediaCodec[] {
+  return codecs;
+}
+
+/**
+ * Find the codec of a MIME type, parameters like `; charset=` are ignored
+ */
+export function getCodecByType(type: string): MediaCodec | undefined {
+  const mimeType = type.split(";")[0].trim().toLowerCase();
+  return codecs.find((e) => mimeType in e.types);
+}
+
+/**
+ * Find the MIME type of a file name or extension
+ */
+export function getTypeByExtension(fileName: string): string | undefined {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  for (const codec of codecs) {
+    for (const [type, extensions] of Object.entries(codec.types)) {
+      if (extensions.includes(extension)) return type;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the preferred file extension of a MIME type, without dot
+ */
+export function getExtensionByType(type: string): string | undefined {
+  const mimeType = type.split(";")[0].trim().toLowerCase();
+  const codec = getCodecByType(mimeType);
+  if (!codec) return undefined;
+  // types without own extension use the extension of the main type
+  return codec.types[mimeType][0] ?? Object.values(codec.types).flat()[0];
+}
+
+/**
+ * Detect the MIME type of a file from its first bytes
+ * @returns The MIME type, or undefined for unknown formats
+ */
+export function detectCodecType(buffer: ArrayBuffer): string | undefined {
+  const header = new Uint8Array(buffer.slice(0, CODEC_HEADER_LENGTH));
+  for (const codec of codecs) {
+    const type = codec.detect(header);
+    if (type) return type;
+  }
+  return undefined;
+}
+
+/**
+ * Get the extensions of all registered formats, without dot
+ * @param kind Only extensions of image, audio or video types
+ */
+export function getSupportedExtensions(kind?: MediaKind): string[] {
+  return codecs.flatMap((codec) =>
+    Object.entries(codec.types)
+      .filter(([type]) => !kind || getMediaKind(type) === kind)
+      .flatMap(([, extensions]) => extensions),
+  );
+}
+
+export function isSupportedFileName(fileName: string): boolean {
+  return fileName.includes(".") && getTypeByExtension(fileName) !== undefined;
+}
+
+/**
+ * Whether a MIME type is an image, audio or video type
+ */
+export function getMediaKind(type: string): MediaKind | undefined {
+  const kind = type.split("/")[0];
+  return kind === "image" || kind === "audio" || kind === "video"
+    ? kind
+    : undefined;
+}
+
+function matchBytes(
+  header: Uint8Array,
+  offset: number,
+  signature: string | number[],
+): boolean {
+  const bytes =
+    typeof signature === "string"
+      ? Array.from(signature, (e) => e.charCodeAt(0))
+      : signature;
+  return bytes.every((byte, i) => header[offset + i] === byte);
+}
+
+function readType(header: Uint8Array, offset: number): string {
+  return String.fromCharCode(...header.slice(offset, offset + 4));
+}
@@ -104,3 +104,136 @@ test("set and get workflow data", async () => {
     console.warn("No FLAC sample files found for testing setFlacMetadata");
   }
 });
+
+describe("metadata blocks and padding", () => {
+  const file = Bun.file("./tests/flac/padding.flac");
+
+  it("should keep block order and reuse PADDING", async () => {
+    const original = new Uint8Array(await file.arrayBuffer());
+    const buffer = setFlacMetadata(original.slice().buffer, {
+      workflow: '{"test":"hello, snomiao"}',
+    });
+    expect(getFlacMetadata(buffer).workflow).toBe('{"test":"hello, snomiao"}');
+
+    const before = readBlocks(original);
+    const after = readBlocks(buffer);
+    // STREAMINFO, VORBIS_COMMENT, APPLICATION, PADDING
+    expect(after.blocks.map((e) => e.type)).toEqual([0, 4, 2, 1]);
+    expect(after.blocks[2].data).toEqual(before.blocks[2].data);
+    // the smaller comment gave its space to the padding, audio did not move
+    expect(after.audioOffset).toBe(before.audioOffset);
+    expect(buffer).toHaveLength(original.length);
+    expect(buffer.slice(after.audioOffset)).toEqual(
+      original.slice(before.audioOffset),
+    );
+
+    // a larger comment takes it back
+    const largeWorkflow = JSON.stringify({ test: "x".repeat(12000) });
+    const buffer2 = setFlacMetadata(buffer.slice().buffer, {
+      workflow: largeWorkflow,
+    });
+    expect(getFlacMetadata(buffer2).workflow).toBe(largeWorkflow);
+    expect(readBlocks(buffer2).audioOffset).toBe(before.audioOffset);
+  });
+
+  it("should grow the file when the padding is too small", async () => {
+    const original = new Uint8Array(await file.arrayBuffer());
+    const largeWorkflow = JSON.stringify({ test: "x".repeat(30000) });
+    const buffer = setFlacMetadata(original.slice().buffer, {
+      workflow: largeWorkflow,
+    });
+    expect(getFlacMetadata(buffer).workflow).toBe(largeWorkflow);
+
+    const before = readBlocks(original);
+    const after = readBlocks(buffer);
+    expect(after.blocks.map((e) => e.type)).toEqual([0, 4, 2, 1]);
+    expect(after.blocks[3].data).toEqual(before.blocks[3].data);
+    expect(buffer.slice(after.audioOffset)).toEqual(
+      original.slice(before.audioOffset),
+    );
+  });
+
+  it("should add PADDING when the comment shrinks", async () => {
+    const original = new Uint8Array(
+      await Bun.file("./tests/flac/view.flac").arrayBuffer(),
+    );
+    const buffer = setFlacMetadata(original.slice().buffer, { workflow: "{}" });
+    expect(getFlacMetadata(buffer).workflow).toBe("{}");
+
+    const after = readBlocks(buffer);
+    expect(after.blocks.map((e) => e.type)).toEqual([0, 4, 1]);
+    expect(after.audioOffset).toBe(readBlocks(original).audioOffset);
+  });
+
+  it("should keep repeated keys", async () => {
+    const original = new Uint8Array(await file.arrayBuffer());
+    const buffer = setFlacMetadata(original.slice().buffer, {
+      workflow: "{}",
+    });
+    expect(readComments(buffer)).toEqual([
+      "ARTIST=Hanzo",
+      "TITLE=猫",
+      "ARTIST=Studio",
+      'prompt={"1": {"class_type": "SaveAudio"}}',
+      "workflow={}",
+      "GENRE=Ambient",
+    ]);
+
+    // field names are case-insensitive, arrays write repeated entries
+    const buffer2 = setFlacMetadata(buffer.slice().buffer, {
+      artist: ["A", "B", "C"],
+      COMMENT: ["x", "y"],
+    });
+    expect(readComments(buffer2)).toEqual([
+      "artist=A",
+      "artist=B",
+      "artist=C",
+      "TITLE=猫",
+      'prompt={"1": {"class_type": "SaveAudio"}}',
+      "workflow={}",
+      "GENRE=Ambient",
+      "COMMENT=x",
+      "COMMENT=y",
+    ]);
+  });
+});
+
+/**
+ * Read the metadata blocks and check that only the last one is marked
+ */
+function readBlocks(flac: Uint8Array) {
+  const view = new DataView(flac.buffer, flac.byteOffset, flac.byteLength);
+  expect(String.fromCharCode(...flac.slice(0, 4))).toBe("fLaC");
+  const blocks: { type: number; data: Uint8Array }[] = [];
+  let offset = 4;
+  let isLast = false;
+  while (!isLast) {
+    isLast = (flac[offset] & 0x80) !== 0;
+    const size = view.getUint32(offset) & 0xffffff;
+    blocks.push({
+      type: flac[offset] & 0x7f,
+      data: flac.slice(offset + 4, offset + 4 + size),
+    });
+    offset += 4 + size;
+  }
+  // audio frames start with the sync code
+  expect(view.getUint16(offset) & 0xfffe).toBe(0xfff8);
+  return { blocks, audioOffset: offset };
+}
+
+function readComments(flac: Uint8Array) {
+  const { data } = readBlocks(flac).blocks.find((e) => e.type === 4)!;
+  const view = new DataView(data.buffer);
+  let offset = 4 + view.getUint32(0, true);
+  const count = view.getUint32(offset, true);
+  offset += 4;
+  const comments: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = view.getUint32(offset, true);
+    comments.push(
+      new TextDecoder().decode(data.slice(offset + 4, offset + 4 + length)),
+    );
+    offset += 4 + length;
+  }
+  return comments;
+}
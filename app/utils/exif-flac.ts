@@ -1,51 +1,111 @@
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  TruncatedError,
+  UnsupportedFeatureError,
+} from "./codec-errors";
+import {
+  detectTextEncoding,
+  isMediaMetadata,
+  MediaMetadata,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toMetadataValues,
+} from "./media-metadata";
+
+/**
+ * Metadata accepted by setFlacMetadata and setOggMetadata, arrays and
+ * repeated entries are written as repeated comments
+ */
+export type VorbisCommentInput =
+  MediaMetadata | Record<string, string | string[]>;
+
 export function getFlacMetadata(
   input: Uint8Array | ArrayBuffer,
 ): Record<string, string> {
+  return toMetadataRecord(getFlacMediaMetadata(input));
+}
+
+/**
+ * Get the Vorbis comments of a FLAC file in order, keeping repeated keys
+ * @param input The FLAC file buffer
+ * @returns The metadata entries
+ */
+export function getFlacMediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
   const buffer = new Uint8Array(input).buffer;
   const dataView = new DataView(buffer);
 
   // Verify the FLAC signature
   const signature = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
   if (signature !== "fLaC") {
-    throw new Error("Not a valid FLAC file");
+    throw new NotThisFormatError("flac", "Not a valid FLAC file");
   }
 
   // Parse metadata blocks
   let offset = 4;
-  let vorbisComment = null;
+  let vorbisComment: VorbisCommentEntry[] = [];
   while (offset < dataView.byteLength) {
     const isLastBlock = dataView.getUint8(offset) & 0x80;
     const blockType = dataView.getUint8(offset) & 0x7f;
     const blockSize = dataView.getUint32(offset, false) & 0xffffff;
+    if (offset + 4 + blockSize > dataView.byteLength)
+      throw truncatedBlockError(offset, blockType, blockSize);
     offset += 4;
 
     if (blockType === 4) {
       // Vorbis Comment block type
-      vorbisComment = parseVorbisComment(
-        new DataView(buffer, offset, blockSize),
-      );
+      try {
+        vorbisComment = parseVorbisCommentEntries(
+          new DataView(buffer, offset, blockSize),
+        );
+      } catch (cause) {
+        throw new CorruptStructureError(
+          "flac",
+          "Unreadable VORBIS_COMMENT block",
+          { offset: offset - 4, cause },
+        );
+      }
     }
 
     offset += blockSize;
     if (isLastBlock) break;
   }
 
-  return vorbisComment!;
+  return toVorbisCommentMetadata(vorbisComment);
 }
+/**
+ * Read a UTF-8 string, as used by Vorbis comments
+ */
 export function getString(
   dataView: DataView,
   offset: number,
   length: number,
 ): string {
-  let string = "";
-  for (let i = 0; i < length; i++) {
-    string += String.fromCharCode(dataView.getUint8(offset + i));
-  }
-  return string;
+  return new TextDecoder("utf-8").decode(
+    new Uint8Array(dataView.buffer, dataView.byteOffset + offset, length),
+  );
 }
+/**
+ * A `key=value` pair of a Vorbis comment, keys may repeat
+ */
+export type VorbisCommentEntry = [key: string, value: string];
+
 // Function to parse the Vorbis Comment block
 
 export function parseVorbisComment(dataView: DataView): Record<string, string> {
+  return Object.fromEntries(parseVorbisCommentEntries(dataView));
+}
+
+/**
+ * Parse the comments of a Vorbis Comment block in order, keeping repeated keys
+ * @param dataView The block data, starting with the vendor string length
+ * @returns The comment entries
+ */
+export function parseVorbisCommentEntries(
+  dataView: DataView,
+): VorbisCommentEntry[] {
   let offset = 0;
   const vendorLength = dataView.getUint32(offset, true);
   offset += 4;
@@ -54,7 +114,7 @@ export function parseVorbisComment(dataView: DataView): Record<string, string> {
 
   const userCommentListLength = dataView.getUint32(offset, true);
   offset += 4;
-  const comments: Record<string, string> = {};
+  const comments: VorbisCommentEntry[] = [];
   for (let i = 0; i < userCommentListLength; i++) {
     const commentLength = dataView.getUint32(offset, true);
     offset += 4;
@@ -64,147 +124,280 @@ export function parseVorbisComment(dataView: DataView): Record<string, string> {
     const ind = comment.indexOf("=");
     const key = comment.substring(0, ind);
 
-    comments[key] = comment.substring(ind + 1);
+    comments.push([key, comment.substring(ind + 1)]);
   }
 
   return comments;
 }
 
+/**
+ * Convert comment entries into metadata entries
+ */
+export function toVorbisCommentMetadata(
+  entries: VorbisCommentEntry[],
+): MediaMetadata {
+  return {
+    entries: entries.map(([key, value]) => ({
+      key,
+      value,
+      origin: "VORBIS_COMMENT",
+      encoding: detectTextEncoding(value),
+    })),
+  };
+}
+
+/**
+ * Apply new metadata to existing comment entries. The entries of a key being
+ * set (compared case-insensitively, as field names are) are replaced at the
+ * position of its first entry, all other entries are kept in order.
+ * @param entries The existing comment entries
+ * @param metadata The metadata to set, arrays are written as repeated entries
+ * @param remove Keys whose entries are dropped
+ * @returns The new comment entries
+ */
+export function mergeVorbisCommentEntries(
+  entries: VorbisCommentEntry[],
+  input: VorbisCommentInput,
+  remove: string[] = [],
+): VorbisCommentEntry[] {
+  const metadata = isMediaMetadata(input) ? toMetadataValues(input) : input;
+  const keys = new Map(
+    Object.entries(metadata).map(([key, value]) => [key.toUpperCase(), key]),
+  );
+  const removed = new Set(remove.map((key) => key.toUpperCase()));
+  const toEntries = (key: string): VorbisCommentEntry[] =>
+    [metadata[key]].flat().map((value) => [key, value]);
+
+  const merged: VorbisCommentEntry[] = [];
+  const written = new Set<string>();
+  for (const [key, value] of entries) {
+    const upperKey = key.toUpperCase();
+    const newKey = keys.get(upperKey);
+    if (newKey === undefined) {
+      if (!removed.has(upperKey)) merged.push([key, value]);
+      continue;
+    }
+    // drop the remaining entries of keys that have been written
+    if (written.has(upperKey)) continue;
+    written.add(upperKey);
+    merged.push(...toEntries(newKey));
+  }
+  for (const [upperKey, key] of keys) {
+    if (!written.has(upperKey)) merged.push(...toEntries(key));
+  }
+  return merged;
+}
+
+/**
+ * Get the audio data of a FLAC file, which metadata edits never change
+ * @param input The FLAC file buffer
+ * @returns The STREAMINFO block data and the audio frames
+ */
+export function getFlacPayload(input: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const inputData = new Uint8Array(input);
+  if (String.fromCharCode(...inputData.slice(0, 4)) !== "fLaC") {
+    throw new NotThisFormatError("flac", "Not a valid FLAC file");
+  }
+
+  const { blocks, audioOffset } = readMetadataBlocks(inputData);
+  return [
+    ...blocks
+      .filter((e) => e.type === FLAC_BLOCK_TYPES.STREAMINFO)
+      .map((e) => e.data),
+    inputData.slice(audioOffset),
+  ];
+}
+
 /**
  * Set metadata for a FLAC file
+ * Metadata blocks keep their order. The VORBIS_COMMENT block is rewritten in
+ * place, taking space from or giving it back to a PADDING block, so the audio
+ * frames don't move when the comment fits.
+ *
  * @param buffer The FLAC file buffer
- * @param metadata The metadata to set
+ * @param metadata The metadata to set, arrays are written as repeated entries
+ * @param options.remove Keys to delete, compared case-insensitively
  * @returns The modified FLAC file buffer
  */
 export function setFlacMetadata(
   buffer: ArrayBuffer,
-  metadata: Record<string, string>,
+  metadata: VorbisCommentInput,
+  { remove = [] }: MetadataWriteOptions = {},
 ): Uint8Array {
   const inputData = new Uint8Array(buffer);
-  const dataView = new DataView(inputData.buffer);
 
   // Verify the FLAC signature
   const signature = String.fromCharCode(...inputData.slice(0, 4));
   if (signature !== "fLaC") {
-    throw new Error("Not a valid FLAC file");
+    throw new NotThisFormatError("flac", "Not a valid FLAC file");
   }
 
-  // Create output buffer parts
-  const outputParts: Uint8Array[] = [];
+  const { blocks, audioOffset } = readMetadataBlocks(inputData);
 
-  // Add FLAC signature
-  outputParts.push(inputData.slice(0, 4));
-
-  // Parse metadata blocks
-  let offset = 4;
-  let vorbisCommentOffset = -1;
-  let vorbisCommentSize = 0;
-  let vorbisCommentBlockHeader = new Uint8Array(4);
-  let lastMetadataBlockFound = false;
-
-  // First pass: locate the VORBIS_COMMENT block and copy all other blocks
-  while (offset < dataView.byteLength && !lastMetadataBlockFound) {
-    const headerByte = dataView.getUint8(offset);
-    const isLastBlock = (headerByte & 0x80) !== 0;
-    const blockType = headerByte & 0x7f;
-    const blockSize = dataView.getUint32(offset, false) & 0xffffff;
-    const headerSize = 4;
-
-    if (blockType === 4) {
-      // Vorbis Comment block
-      vorbisCommentOffset = offset;
-      vorbisCommentSize = blockSize;
-      vorbisCommentBlockHeader = inputData.slice(offset, offset + headerSize);
-    } else {
-      // Copy this metadata block (header + data) to output
-      outputParts.push(
-        inputData.slice(offset, offset + headerSize + blockSize),
-      );
-    }
-
-    offset += headerSize + blockSize;
-    if (isLastBlock) {
-      lastMetadataBlockFound = true;
-    }
+  // Extract existing vendor string and comments from the vorbis comment block
+  let vendorString = "Hanzo Studio Embedded Workflow Editor";
+  let existingEntries: VorbisCommentEntry[] = [];
+  // size of the old block including its header
+  let oldBlockSize = 0;
+  let commentIndex = blocks.findIndex(
+    (e) => e.type === FLAC_BLOCK_TYPES.VORBIS_COMMENT,
+  );
+  if (commentIndex !== -1) {
+    const { data } = blocks[commentIndex];
+    const vorbisCommentData = new DataView(
+      data.buffer,
+      data.byteOffset,
+      data.byteLength,
+    );
+    vendorString = getString(
+      vorbisCommentData,
+      4,
+      vorbisCommentData.getUint32(0, true),
+    );
+    existingEntries = parseVorbisCommentEntries(vorbisCommentData);
+    oldBlockSize = 4 + data.length;
+  } else {
+    // STREAMINFO has to stay the first block
+    commentIndex = 1;
+    blocks.splice(commentIndex, 0, {
+      type: FLAC_BLOCK_TYPES.VORBIS_COMMENT,
+      data: new Uint8Array(0),
+    });
   }
 
-  // Extract existing vendor string from the vorbis comment block if it exists
-  let vendorString = "Hanzo Studio Embedded Workflow Editor";
-  let existingMetadata: Record<string, string> = {};
-
-  if (vorbisCommentOffset !== -1) {
-    try {
-      const vorbisCommentData = new DataView(
-        inputData.buffer,
-        vorbisCommentOffset + 4,
-        vorbisCommentSize,
-      );
-      const vendorLength = vorbisCommentData.getUint32(0, true);
-      vendorString = getString(vorbisCommentData, 4, vendorLength);
-
-      // Get existing metadata to preserve all keys
-      existingMetadata = parseVorbisComment(vorbisCommentData);
-      console.log("Existing metadata keys:", Object.keys(existingMetadata));
-    } catch (err) {
-      console.error("Error parsing existing Vorbis comment:", err);
-    }
+  const newVorbisComment = createVorbisComment(
+    vendorString,
+    mergeVorbisCommentEntries(existingEntries, metadata, remove),
+  );
+  if (newVorbisComment.length > 0xffffff) {
+    throw new UnsupportedFeatureError(
+      "flac",
+      "FLAC metadata block is too large",
+      { context: { size: newVorbisComment.length } },
+    );
+  }
+  const delta = 4 + newVorbisComment.length - oldBlockSize;
+  blocks[commentIndex] = {
+    type: FLAC_BLOCK_TYPES.VORBIS_COMMENT,
+    data: newVorbisComment,
+  };
+
+  // Take the size difference from the first PADDING block
+  const paddingIndex = blocks.findIndex(
+    (e) => e.type === FLAC_BLOCK_TYPES.PADDING,
+  );
+  const paddingSize = blocks[paddingIndex]?.data.length ?? 0;
+  if (paddingIndex !== -1 && delta <= paddingSize) {
+    blocks[paddingIndex] = {
+      type: FLAC_BLOCK_TYPES.PADDING,
+      data: new Uint8Array(paddingSize - delta),
+    };
+  } else if (paddingIndex !== -1 && delta === paddingSize + 4) {
+    // the padding block header is used up too
+    blocks.splice(paddingIndex, 1);
+  } else if (paddingIndex === -1 && delta <= -4) {
+    // keep the freed space for later saves
+    blocks.push({
+      type: FLAC_BLOCK_TYPES.PADDING,
+      data: new Uint8Array(-delta - 4),
+    });
   }
 
-  // Create a merged metadata object with existing values preserved
-  const mergedMetadata: Record<string, string> = {};
+  // Concatenate all parts into the final output buffer, only the last block
+  // has the isLast flag
+  return concatenateUint8Arrays([
+    inputData.slice(0, 4),
+    ...blocks.map(({ type, data }, i) =>
+      concatenateUint8Arrays([
+        createBlockHeader(type, data.length, i === blocks.length - 1),
+        data,
+      ]),
+    ),
+    inputData.slice(audioOffset),
+  ]);
+}
 
-  // First copy all existing metadata
-  for (const [key, value] of Object.entries(existingMetadata)) {
-    mergedMetadata[key] = value;
-  }
+const FLAC_BLOCK_TYPES = {
+  STREAMINFO: 0,
+  PADDING: 1,
+  VORBIS_COMMENT: 4,
+};
 
-  // Then add/override with new metadata
-  for (const [key, value] of Object.entries(metadata)) {
-    mergedMetadata[key] = value;
-  }
-  const newVorbisComment = createVorbisComment(vendorString, mergedMetadata); // Create the header for the Vorbis comment block
-  // Make the Vorbis comment block the last metadata block
-  let newVorbisHeader = new Uint8Array(4);
-
-  // Set blockType = 4 (Vorbis comment) with isLast = true (0x80)
-  newVorbisHeader[0] = 0x84; // 0x80 (isLast) | 0x04 (Vorbis Comment)
-
-  // Set the block size (24-bit, big-endian)
-  const blockSize = newVorbisComment.length;
-  newVorbisHeader[1] = (blockSize >> 16) & 0xff;
-  newVorbisHeader[2] = (blockSize >> 8) & 0xff;
-  newVorbisHeader[3] = blockSize & 0xff;
-
-  // Add the Vorbis comment block to the output
-  outputParts.push(newVorbisHeader);
-  outputParts.push(newVorbisComment);
-
-  // Add the audio data (everything after metadata blocks)
-  if (lastMetadataBlockFound && offset < inputData.length) {
-    outputParts.push(inputData.slice(offset));
+/**
+ * Read the metadata blocks after the FLAC signature
+ * @param inputData The FLAC file data
+ * @returns The blocks in order and the offset of the first audio frame
+ */
+function readMetadataBlocks(inputData: Uint8Array): {
+  blocks: { type: number; data: Uint8Array }[];
+  audioOffset: number;
+} {
+  const dataView = new DataView(
+    inputData.buffer,
+    inputData.byteOffset,
+    inputData.byteLength,
+  );
+  const blocks: { type: number; data: Uint8Array }[] = [];
+  let offset = 4;
+  while (offset + 4 <= dataView.byteLength) {
+    const headerByte = dataView.getUint8(offset);
+    const blockSize = dataView.getUint32(offset, false) & 0xffffff;
+    if (offset + 4 + blockSize > dataView.byteLength)
+      throw truncatedBlockError(offset, headerByte & 0x7f, blockSize);
+    blocks.push({
+      type: headerByte & 0x7f,
+      data: inputData.slice(offset + 4, offset + 4 + blockSize),
+    });
+    offset += 4 + blockSize;
+    if (headerByte & 0x80) break;
   }
+  return { blocks, audioOffset: offset };
+}
+
+function truncatedBlockError(offset: number, type: number, size: number) {
+  return new TruncatedError("flac", "FLAC metadata block exceeds the file", {
+    offset,
+    context: { type, size },
+  });
+}
 
-  // Concatenate all parts into the final output buffer
-  return concatenateUint8Arrays(outputParts);
+/**
+ * Create a metadata block header
+ * @param type The block type
+ * @param size The block size (24-bit)
+ * @param isLast Whether this is the last metadata block
+ * @returns The 4 byte header
+ */
+function createBlockHeader(
+  type: number,
+  size: number,
+  isLast: boolean,
+): Uint8Array {
+  const header = new Uint8Array(4);
+  new DataView(header.buffer).setUint32(0, size);
+  header[0] = (isLast ? 0x80 : 0) | type;
+  return header;
 }
 
 /**
  * Create a Vorbis comment block from metadata
  * @param vendorString The vendor string
- * @param metadata The metadata key-value pairs
+ * @param metadata The metadata key-value pairs, or entries with repeated keys
  * @returns The Vorbis comment block data
  */
-function createVorbisComment(
+export function createVorbisComment(
   vendorString: string,
-  metadata: Record<string, string>,
+  metadata: Record<string, string> | VorbisCommentEntry[],
 ): Uint8Array {
+  const entries = Array.isArray(metadata) ? metadata : Object.entries(metadata);
+
   // Calculate the size of the Vorbis comment block
   const vendorBytes = new TextEncoder().encode(vendorString);
   const vendorLength = vendorBytes.length;
 
   // Convert metadata to comment strings (key=value)
   const comments: Uint8Array[] = [];
-  for (const [key, value] of Object.entries(metadata)) {
+  for (const [key, value] of entries) {
     const commentString = `${key}=${value}`;
     const commentBytes = new TextEncoder().encode(commentString);
     const commentLengthBuffer = new ArrayBuffer(4);
@@ -230,7 +423,7 @@ function createVorbisComment(
   vorbisComment.set(vendorBytes, 4);
 
   // Write comment count
-  const commentCount = Object.keys(metadata).length;
+  const commentCount = entries.length;
   dataView.setUint32(4 + vendorLength, commentCount, true);
 
   // Write comments
@@ -0,0 +1,91 @@
+import { getGifMetadata, setGifMetadata } from "@/app/utils/exif-gif";
+import { glob } from "glob";
+
+it("extract gif workflow", async () => {
+  const gif = Bun.file("./tests/gif/ComfyUI.gif");
+  const ref = Bun.file(gif.name + ".workflow.json");
+
+  const metadata = getGifMetadata(await gif.arrayBuffer());
+
+  const workflow_expect = JSON.stringify(await ref.json());
+  const workflow_actual = JSON.stringify(JSON.parse(metadata.workflow));
+  expect(workflow_actual).toEqual(workflow_expect);
+  expect(metadata.prompt).toBeDefined();
+});
+
+it("extract blank gif workflow", async () => {
+  const gif = Bun.file("./tests/gif/blank.gif");
+  const metadata = getGifMetadata(await gif.arrayBuffer());
+  expect(metadata.workflow).toBeUndefined();
+});
+
+it("set gif workflow", async () => {
+  const gifs = await glob("./tests/gif/*.gif");
+  expect(gifs.length).toBeGreaterThanOrEqual(2);
+
+  for await (const filename of gifs) {
+    const original = await Bun.file(filename).arrayBuffer();
+
+    const newWorkflow = '{"test":"hello, snomiao"}';
+    const buffer = setGifMetadata(original, { workflow: newWorkflow });
+    const metadata = getGifMetadata(buffer);
+    expect(metadata.workflow).toBe(newWorkflow);
+
+    // other keys are kept
+    const originalMetadata = getGifMetadata(original);
+    for (const key of Object.keys(originalMetadata)) {
+      if (key !== "workflow") expect(metadata[key]).toBe(originalMetadata[key]);
+    }
+  }
+});
+
+it("should keep frames untouched", async () => {
+  const gif = Bun.file("./tests/gif/blank.gif");
+  const original = new Uint8Array(await gif.arrayBuffer());
+
+  const buffer = setGifMetadata(original, {
+    workflow: JSON.stringify({ test: "x".repeat(1000) }),
+    prompt: '{"3":{}}',
+  });
+  expect(getGifMetadata(buffer).prompt).toBe('{"3":{}}');
+
+  // everything from the first graphic control extension on is unchanged
+  const firstFrame = (data: Uint8Array) =>
+    data.findIndex((e, i) => e === 0x21 && data[i + 1] === 0xf9);
+  expect(buffer.slice(firstFrame(buffer))).toEqual(
+    original.slice(firstFrame(original)),
+  );
+});
+
+it("should write application extensions when asked", async () => {
+  const gif = Bun.file("./tests/gif/blank.gif");
+
+  const buffer = setGifMetadata(
+    await gif.arrayBuffer(),
+    { workflow: '{"version":1}' },
+    { extension: "application" },
+  );
+  expect(new TextDecoder().decode(buffer)).toContain("HZSTUDIO1.0");
+  expect(getGifMetadata(buffer).workflow).toBe('{"version":1}');
+
+  // updates keep the application extension
+  const buffer2 = setGifMetadata(buffer, { workflow: '{"version":2}' });
+  expect(getGifMetadata(buffer2).workflow).toBe('{"version":2}');
+  expect(buffer2.length).toBe(buffer.length);
+});
+
+it("should upgrade GIF87a files", async () => {
+  const gif = Bun.file("./tests/gif/blank.gif");
+  const original = new Uint8Array(await gif.arrayBuffer());
+  original.set(new TextEncoder().encode("GIF87a"), 0);
+
+  const buffer = setGifMetadata(original, { workflow: "{}" });
+  expect(new TextDecoder().decode(buffer.slice(0, 6))).toBe("GIF89a");
+  expect(getGifMetadata(buffer).workflow).toBe("{}");
+});
+
+it("invalid GIF files throw errors", () => {
+  expect(() => getGifMetadata(new Uint8Array([0, 1, 2, 3]))).toThrow(
+    "Not a valid GIF file",
+  );
+});
@@ -0,0 +1,313 @@
+import { concatUint8Arrays } from "uint8array-extras";
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  TruncatedError,
+} from "./codec-errors";
+import {
+  detectTextEncoding,
+  MediaMetadata,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
+
+/**
+ * Functions for handling metadata in GIF files
+ *
+ * GIF has no key/value metadata, but it has two kinds of extension blocks
+ * that decoders skip:
+ * - Comment Extension (0x21 0xFE), holding `key:value` text
+ * - Application Extension (0x21 0xFF) named "HZSTUDIO" with auth code "1.0",
+ *   holding `key:value` text
+ * Both are read, new keys are written as Comment Extensions by default.
+ * Frame data (image descriptors, color tables and LZW data) is copied as is.
+ *
+ * ref: - [GIF89a Specification]( https://www.w3.org/Graphics/GIF/spec-gif89a.txt )
+ */
+
+const EXTENSION_INTRODUCER = 0x21;
+const IMAGE_SEPARATOR = 0x2c;
+const TRAILER = 0x3b;
+const LABEL_GRAPHIC_CONTROL = 0xf9;
+const LABEL_COMMENT = 0xfe;
+const LABEL_APPLICATION = 0xff;
+
+// application identifier (8 bytes) + authentication code (3 bytes)
+const APPLICATION_ID = "HZSTUDIO1.0";
+
+export type GifMetadataExtension = "comment" | "application";
+
+type GifBlock = {
+  // the whole block including introducer, label and sub-blocks
+  bytes: Uint8Array;
+  label?: number;
+  // `key:value` entry stored in this block
+  entry?: { key: string; value: string; extension: GifMetadataExtension };
+};
+
+/**
+ * Get metadata from a GIF file
+ * Reads `key:value` entries from Comment and Application Extension blocks
+ *
+ * @param input The GIF file buffer as Uint8Array or ArrayBuffer
+ * @returns Object containing extracted metadata with keys as field names and values as strings
+ */
+export function getGifMetadata(
+  input: Uint8Array | ArrayBuffer,
+): Record<string, string> {
+  return toMetadataRecord(getGifMediaMetadata(input));
+}
+
+/**
+ * Get the `key:value` extension blocks of a GIF file in order
+ *
+ * @param input The GIF file buffer as Uint8Array or ArrayBuffer
+ * @returns The metadata entries, origin is the kind of extension block
+ */
+export function getGifMediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
+  const gif = new Uint8Array(input);
+  if (!isGif(gif)) throw new NotThisFormatError("gif", "Not a valid GIF file");
+
+  const metadata: MediaMetadata = { entries: [] };
+  parseBlocks(gif).blocks.forEach(({ entry }) => {
+    if (!entry) return;
+    metadata.entries.push({
+      key: entry.key,
+      value: entry.value,
+      origin: entry.extension,
+      encoding: detectTextEncoding(entry.value),
+    });
+  });
+  return metadata;
+}
+
+/**
+ * Get the image data of a GIF file, which metadata edits never change
+ *
+ * @param input The GIF file buffer as Uint8Array or ArrayBuffer
+ * @returns The header with the global color table, then the graphic control
+ * extensions and image descriptors (with their LZW data) in order
+ */
+export function getGifPayload(input: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const gif = new Uint8Array(input);
+  if (!isGif(gif)) throw new NotThisFormatError("gif", "Not a valid GIF file");
+
+  const { header, blocks } = parseBlocks(gif);
+  return [
+    header,
+    ...blocks
+      .filter(
+        ({ label }) =>
+          label === IMAGE_SEPARATOR || label === LABEL_GRAPHIC_CONTROL,
+      )
+      .map(({ bytes }) => bytes),
+  ];
+}
+
+/**
+ * Set metadata in a GIF file
+ * Replaces the extension blocks holding the given keys (keeping their kind),
+ * and inserts new keys before the first frame.
+ *
+ * @param buffer The GIF file buffer
+ * @param metadata The metadata to set or update
+ * @param options.extension Kind of extension block for new keys, defaults to "comment"
+ * @param options.remove Keys whose extension blocks are dropped
+ * @returns The modified GIF file buffer
+ */
+export function setGifMetadata(
+  buffer: ArrayBuffer | Uint8Array,
+  metadata: MetadataInput,
+  {
+    extension = "comment",
+    remove = [],
+  }: { extension?: GifMetadataExtension } & MetadataWriteOptions = {},
+): Uint8Array {
+  const modifyRecords = toSingleValueRecord(metadata, "gif");
+  const gif = new Uint8Array(buffer);
+  if (!isGif(gif)) throw new NotThisFormatError("gif", "Not a valid GIF file");
+
+  const { header, blocks } = parseBlocks(gif);
+  const existingKeys = new Set(blocks.map(({ entry }) => entry?.key));
+  const newEntries = Object.entries(modifyRecords).filter(
+    ([key]) => !existingKeys.has(key),
+  );
+  const replaced = new Set<string>();
+
+  const newBlocks: Uint8Array[] = [];
+  let inserted = false;
+  const insertNewEntries = () => {
+    if (inserted) return;
+    inserted = true;
+    newEntries.forEach(([key, value]) =>
+      newBlocks.push(createExtensionBlock(key, value, extension)),
+    );
+  };
+
+  for (const block of blocks) {
+    const { entry, label } = block;
+    if (entry && Object.hasOwn(modifyRecords, entry.key)) {
+      // replace the first block of a key in place, drop duplicates
+      if (!replaced.has(entry.key)) {
+        newBlocks.push(
+          createExtensionBlock(
+            entry.key,
+            modifyRecords[entry.key],
+            entry.extension,
+          ),
+        );
+        replaced.add(entry.key);
+      }
+      continue;
+    }
+    if (entry && remove.includes(entry.key)) continue;
+    // new entries go before the first frame, after loop extensions
+    if (
+      label === IMAGE_SEPARATOR ||
+      label === LABEL_GRAPHIC_CONTROL ||
+      label === TRAILER
+    )
+      insertNewEntries();
+    newBlocks.push(block.bytes);
+  }
+  insertNewEntries();
+
+  // extension blocks need GIF89a
+  const newHeader = header.slice();
+  newHeader.set(new TextEncoder().encode("GIF89a"), 0);
+
+  return concatUint8Arrays([newHeader, ...newBlocks]);
+}
+
+function isGif(gif: Uint8Array): boolean {
+  const signature = String.fromCharCode(...gif.slice(0, 6));
+  return signature === "GIF87a" || signature === "GIF89a";
+}
+
+/**
+ * Split a GIF into its header (signature, logical screen descriptor and global
+ * color table) and the following blocks up to and including the trailer
+ */
+function parseBlocks(gif: Uint8Array): {
+  header: Uint8Array;
+  blocks: GifBlock[];
+} {
+  // signature (6) + logical screen descriptor (7)
+  const packed = gif[10];
+  const globalColorTableSize =
+    packed & 0x80 ? 3 * (1 << ((packed & 7) + 1)) : 0;
+  let offset = 13 + globalColorTableSize;
+  const header = gif.slice(0, offset);
+  const blocks: GifBlock[] = [];
+
+  while (offset < gif.length) {
+    const start = offset;
+    const introducer = gif[offset];
+
+    if (introducer === TRAILER) {
+      blocks.push({ bytes: gif.slice(offset, offset + 1), label: TRAILER });
+      // keep anything after the trailer as is
+      if (offset + 1 < gif.length)
+        blocks.push({ bytes: gif.slice(offset + 1) });
+      break;
+    }
+
+    if (introducer === IMAGE_SEPARATOR) {
+      const imagePacked = gif[offset + 9];
+      const localColorTableSize =
+        imagePacked & 0x80 ? 3 * (1 << ((imagePacked & 7) + 1)) : 0;
+      // descriptor (10) + local color table + LZW minimum code size (1)
+      offset = skipSubBlocks(gif, offset + 10 + localColorTableSize + 1);
+      blocks.push({ bytes: gif.slice(start, offset), label: IMAGE_SEPARATOR });
+      continue;
+    }
+
+    if (introducer !== EXTENSION_INTRODUCER) {
+      throw new CorruptStructureError(
+        "gif",
+        `Invalid GIF block 0x${introducer.toString(16)} at ${offset}`,
+        { offset, context: { introducer } },
+      );
+    }
+
+    const label = gif[offset + 1];
+    offset = skipSubBlocks(gif, offset + 2);
+    const bytes = gif.slice(start, offset);
+    blocks.push({ bytes, label, entry: readExtensionEntry(bytes, label) });
+  }
+
+  return { header, blocks };
+}
+
+function skipSubBlocks(gif: Uint8Array, offset: number): number {
+  const start = offset;
+  while (offset < gif.length) {
+    const size = gif[offset];
+    offset += 1 + size;
+    if (size === 0) return offset;
+  }
+  throw new TruncatedError("gif", "GIF data sub-blocks exceed the file", {
+    offset: start,
+  });
+}
+
+function readSubBlocks(data: Uint8Array, offset: number): Uint8Array {
+  const parts: Uint8Array[] = [];
+  while (offset < data.length) {
+    const size = data[offset];
+    if (size === 0) break;
+    parts.push(data.slice(offset + 1, offset + 1 + size));
+    offset += 1 + size;
+  }
+  return concatUint8Arrays(parts);
+}
+
+function readExtensionEntry(
+  block: Uint8Array,
+  label: number,
+): GifBlock["entry"] {
+  let extension: GifMetadataExtension;
+  let text: string;
+  if (label === LABEL_COMMENT) {
+    extension = "comment";
+    text = new TextDecoder().decode(readSubBlocks(block, 2));
+  } else if (label === LABEL_APPLICATION && block[2] === 11) {
+    const applicationId = String.fromCharCode(...block.slice(3, 14));
+    if (applicationId !== APPLICATION_ID) return undefined;
+    extension = "application";
+    text = new TextDecoder().decode(readSubBlocks(block, 14));
+  } else {
+    return undefined;
+  }
+
+  const index = text.indexOf(":");
+  if (index === -1) return undefined;
+  return { key: text.slice(0, index), value: text.slice(index + 1), extension };
+}
+
+function createExtensionBlock(
+  key: string,
+  value: string,
+  extension: GifMetadataExtension,
+): Uint8Array {
+  const data = new TextEncoder().encode(`${key}:${value}`);
+  const subBlocks: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const part = data.slice(offset, offset + 255);
+    subBlocks.push(new Uint8Array([part.length]), part);
+  }
+  subBlocks.push(new Uint8Array([0]));
+
+  const head =
+    extension === "comment"
+      ? new Uint8Array([EXTENSION_INTRODUCER, LABEL_COMMENT])
+      : concatUint8Arrays([
+          new Uint8Array([EXTENSION_INTRODUCER, LABEL_APPLICATION, 11]),
+          new TextEncoder().encode(APPLICATION_ID),
+        ]);
+  return concatUint8Arrays([head, ...subBlocks]);
+}
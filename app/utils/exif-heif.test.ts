@@ -0,0 +1,205 @@
+import {
+  getHeifMediaMetadata,
+  getHeifMetadata,
+  setHeifMetadata,
+} from "@/app/utils/exif-heif";
+import { glob } from "glob";
+
+it("extract heic workflow", async () => {
+  const heif = Bun.file("./tests/heif/ComfyUI.heic");
+  const ref = Bun.file(heif.name + ".workflow.json");
+
+  const metadata = getHeifMetadata(await heif.arrayBuffer());
+
+  const workflow_expect = JSON.stringify(await ref.json());
+  const workflow_actual = JSON.stringify(JSON.parse(metadata.workflow));
+  expect(workflow_actual).toEqual(workflow_expect);
+  expect(metadata.prompt).toBeDefined();
+});
+
+it("extract blank avif workflow", async () => {
+  const avif = Bun.file("./tests/heif/blank.avif");
+  const metadata = getHeifMetadata(await avif.arrayBuffer());
+  expect(metadata.workflow).toBeUndefined();
+});
+
+describe("set heif workflow", async () => {
+  const files = await glob("./tests/heif/*.{avif,heic}");
+  expect(files.length).toBeGreaterThanOrEqual(2);
+
+  for (const filename of files) {
+    it(`should round-trip workflow for ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+
+      const newWorkflow = '{"test":"hello, snomiao"}';
+      const buffer = setHeifMetadata(original, { workflow: newWorkflow });
+      const metadata = getHeifMetadata(buffer);
+      expect(metadata.workflow).toBe(newWorkflow);
+
+      // other keys are kept
+      const originalMetadata = getHeifMetadata(original);
+      for (const key of Object.keys(originalMetadata)) {
+        if (key !== "workflow")
+          expect(metadata[key]).toBe(originalMetadata[key]);
+      }
+
+      // save again, idat is rebuilt rather than growing
+      const buffer2 = setHeifMetadata(buffer, { workflow: '{"v":2}' });
+      expect(getHeifMetadata(buffer2).workflow).toBe('{"v":2}');
+      expect(buffer2.length).toBeLessThan(buffer.length);
+    });
+
+    it(`should keep the image item pointing at the same bytes for ${filename}`, async () => {
+      const original = new Uint8Array(await Bun.file(filename).arrayBuffer());
+      const buffer = setHeifMetadata(original, {
+        workflow: JSON.stringify({ test: "x".repeat(5000) }),
+      });
+
+      const before = readPrimaryItem(original);
+      const after = readPrimaryItem(buffer);
+      expect(after.offset).not.toBe(before.offset);
+      expect(after.data).toEqual(before.data);
+    });
+  }
+});
+
+it("should keep camera Exif items and write the metadata next to them", async () => {
+  const avif = await Bun.file("./tests/heif/blank.avif").bytes();
+  const written = setHeifMetadata(avif, { workflow: '{"v":1}' });
+  // turn the ASCII Make entry into an UNDEFINED one, as cameras write
+  const camera = written.slice();
+  const makeEntry = indexOf(camera, [0x0f, 0x01, 0x02, 0x00]);
+  camera[makeEntry + 2] = 7;
+  const cameraTiff = camera.slice(indexOf(camera, [0x49, 0x49, 0x2a, 0x00]));
+  const cameraExif = cameraTiff.slice(0, 8 + 2 + 12 + 4);
+
+  const buffer = setHeifMetadata(camera, { workflow: '{"v":2}' });
+  expect(getHeifMetadata(buffer).workflow).toBe('{"v":2}');
+  expect(indexOf(buffer, cameraExif)).toBeGreaterThan(0);
+  expect(readPrimaryItem(buffer).data).toEqual(readPrimaryItem(avif).data);
+
+  // removing the keys leaves the camera item alone
+  const removed = setHeifMetadata(buffer, {}, { remove: ["workflow"] });
+  expect(indexOf(removed, cameraExif)).toBeGreaterThan(0);
+});
+
+it("should drop camera Exif items once all their keys are removed", async () => {
+  const avif = await Bun.file("./tests/heif/blank.avif").bytes();
+  const written = setHeifMetadata(avif, { workflow: "{}", prompt: "{}" });
+  // the Make entry turns UNDEFINED, the prompt stays readable
+  const camera = written.slice();
+  camera[indexOf(camera, [0x0f, 0x01, 0x02, 0x00]) + 2] = 7;
+  expect(getHeifMediaMetadata(camera).entries.map((e) => e.key)).toEqual([
+    "prompt",
+  ]);
+
+  const removed = setHeifMetadata(camera, {}, { remove: ["prompt"] });
+  expect(getHeifMediaMetadata(removed).entries).toEqual([]);
+  expect(indexOf(removed, [0x49, 0x49, 0x2a, 0x00])).toBe(-1);
+  expect(readPrimaryItem(removed).data).toEqual(readPrimaryItem(avif).data);
+
+  // a new Exif item takes the place of the camera item
+  const replaced = setHeifMetadata(
+    camera,
+    { workflow: "{}" },
+    {
+      remove: ["prompt"],
+    },
+  );
+  expect(getHeifMediaMetadata(replaced).entries.map((e) => e.key)).toEqual([
+    "workflow",
+  ]);
+});
+
+it("should copy item infos before infe version 2 as they are", async () => {
+  const avif = await Bun.file("./tests/heif/blank.avif").bytes();
+  // infe version 0 of item 5: no item type, empty name and content type
+  const infe = new Uint8Array([
+    0, 0, 0, 18, 0x69, 0x6e, 0x66, 0x65, 0, 0, 0, 0, 0, 5, 0, 0, 0, 0,
+  ]);
+  // blank.avif: 'meta' at 28, 'iinf' at 117 and the image extent offset
+  // of 'iloc' at 109, all grow by the inserted box
+  const iinfEnd = 117 + 0x23;
+  const heif = new Uint8Array(avif.length + infe.length);
+  heif.set(avif.subarray(0, iinfEnd));
+  heif.set(infe, iinfEnd);
+  heif.set(avif.subarray(iinfEnd), iinfEnd + infe.length);
+  const view = new DataView(heif.buffer);
+  view.setUint32(28, view.getUint32(28) + infe.length);
+  view.setUint32(117, view.getUint32(117) + infe.length);
+  view.setUint16(117 + 12, 2);
+  view.setUint32(109, view.getUint32(109) + infe.length);
+  expect(readPrimaryItem(heif).data).toEqual(readPrimaryItem(avif).data);
+
+  const buffer = setHeifMetadata(heif, { workflow: '{"v":1}' });
+  expect(getHeifMetadata(buffer).workflow).toBe('{"v":1}');
+  expect(indexOf(buffer, infe)).toBeGreaterThan(0);
+  expect(readPrimaryItem(buffer).data).toEqual(readPrimaryItem(avif).data);
+  // the Exif item does not take the id of the old item
+  const removed = setHeifMetadata(buffer, {}, { remove: ["workflow"] });
+  expect(indexOf(removed, infe)).toBeGreaterThan(0);
+  expect(getHeifMetadata(removed).workflow).toBeUndefined();
+});
+
+it("invalid HEIF files throw errors", () => {
+  expect(() => getHeifMetadata(new Uint8Array(32))).toThrow(
+    "Not a valid HEIF file",
+  );
+});
+
+/**
+ * Read the bytes of item 1 through iloc, independent from the codec
+ * (single extent, file offset, no base offset as written by the fixtures)
+ */
+function readPrimaryItem(heif: Uint8Array) {
+  const view = new DataView(heif.buffer, heif.byteOffset, heif.byteLength);
+  const find = (type: string, start: number, end: number) => {
+    for (let offset = start; offset + 8 <= end;) {
+      const size = view.getUint32(offset);
+      const boxType = new TextDecoder().decode(
+        heif.slice(offset + 4, offset + 8),
+      );
+      if (boxType === type) return { offset, size };
+      offset += size;
+    }
+    throw new Error(`no ${type}`);
+  };
+  const meta = find("meta", 0, heif.length);
+  const iloc = find("iloc", meta.offset + 12, meta.offset + meta.size);
+  const version = heif[iloc.offset + 8];
+  const sizes = view.getUint16(iloc.offset + 12);
+  const [offsetSize, lengthSize, baseOffsetSize] = [
+    sizes >> 12,
+    (sizes >> 8) & 0xf,
+    (sizes >> 4) & 0xf,
+  ];
+  const readSized = (offset: number, size: number) =>
+    size === 8 ? Number(view.getBigUint64(offset)) : view.getUint32(offset);
+
+  let offset = iloc.offset + 16;
+  const count = view.getUint16(iloc.offset + 14);
+  for (let i = 0; i < count; i++) {
+    const itemId = view.getUint16(offset);
+    offset += 2 + (version > 0 ? 2 : 0) + 2 + baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+    const extentOffset = readSized(offset, offsetSize);
+    const extentLength = readSized(offset + offsetSize, lengthSize);
+    offset += extentCount * (offsetSize + lengthSize);
+    if (itemId === 1)
+      return {
+        offset: extentOffset,
+        data: heif.slice(extentOffset, extentOffset + extentLength),
+      };
+  }
+  throw new Error("no item 1");
+}
+
+function indexOf(data: Uint8Array, bytes: ArrayLike<number>): number {
+  for (let i = 0; i + bytes.length <= data.length; i++) {
+    let j = 0;
+    while (j < bytes.length && data[i + j] === bytes[j]) j++;
+    if (j === bytes.length) return i;
+  }
+  return -1;
+}
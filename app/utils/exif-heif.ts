@@ -0,0 +1,786 @@
+import { concatUint8Arrays } from "uint8array-extras";
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  UnsupportedFeatureError,
+} from "./codec-errors";
+import { findBox } from "./exif-mp4";
+import {
+  editExifText,
+  encodeExifText,
+  ExifText,
+  isEditableExif,
+  readExifText,
+} from "./exif-text";
+import { IFDEntryInput } from "./exif-webp";
+import {
+  MediaMetadata,
+  MetadataEntry,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
+
+/**
+ * Functions for handling metadata in HEIF based images (AVIF, HEIC)
+ *
+ * HEIF files are ISOBMFF containers like MP4, but the image data and its
+ * metadata are stored as "items" of the top level 'meta' box:
+ * - 'iinf' lists the items and their types (e.g. 'av01', 'hvc1', 'Exif')
+ * - 'iloc' tells where the bytes of every item are, either as file offsets
+ *   (usually into 'mdat') or as offsets into the 'idat' box inside 'meta'
+ * - 'iref' links the Exif item to the image it describes ('cdsc')
+ *
+ * Workflow and prompt are stored as `key:value` ASCII entries in the TIFF
+ * block of the Exif item, the same layout used for webp and jpeg.
+ * The Exif item is (re)written into 'idat', and since that grows the 'meta'
+ * box, every file offset in 'iloc' that points behind it is shifted.
+ *
+ * ref: - [ISO/IEC 23008-12 HEIF]( https://nokiatech.github.io/heif/technical.html )
+ */
+
+const HEIF_BRANDS = [
+  "avif",
+  "avis",
+  "heic",
+  "heix",
+  "heim",
+  "heis",
+  "hevc",
+  "hevx",
+  "mif1",
+  "msf1",
+];
+
+type ItemExtent = { index: number; offset: number; length: number };
+
+type ItemLocation = {
+  itemId: number;
+  // 0 = file offset, 1 = offset into idat, 2 = item offset
+  constructionMethod: number;
+  dataReferenceIndex: number;
+  baseOffset: number;
+  extents: ItemExtent[];
+};
+
+type ItemLocationBox = {
+  version: number;
+  offsetSize: number;
+  lengthSize: number;
+  baseOffsetSize: number;
+  indexSize: number;
+  items: ItemLocation[];
+};
+
+// itemType is empty for entries before infe version 2
+type ItemInfo = { itemId: number; itemType: string; box: Uint8Array };
+
+type MetaBox = {
+  offset: number;
+  size: number;
+  children: { type: string; offset: number; size: number }[];
+  itemInfos: ItemInfo[];
+  iinfVersion: number;
+  locations: ItemLocationBox;
+  primaryItemId: number;
+  // offset of the idat payload in the file
+  idatDataOffset: number;
+};
+
+/**
+ * Get metadata from a HEIF (AVIF/HEIC) file
+ * Reads `key:value` entries from the Exif items
+ *
+ * @param input The HEIF file buffer as Uint8Array or ArrayBuffer
+ * @returns Object containing extracted metadata with keys as field names and values as strings
+ */
+export function getHeifMetadata(
+  input: Uint8Array | ArrayBuffer,
+): Record<string, string> {
+  return toMetadataRecord(getHeifMediaMetadata(input));
+}
+
+/**
+ * Get the `key:value` entries of the Exif items of a HEIF file in order
+ *
+ * @param input The HEIF file buffer as Uint8Array or ArrayBuffer
+ * @returns The metadata entries
+ */
+export function getHeifMediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
+  const heif = new Uint8Array(input);
+  const dataView = new DataView(heif.buffer, heif.byteOffset, heif.byteLength);
+  if (!isHeif(dataView))
+    throw new NotThisFormatError("heif", "Not a valid HEIF file");
+
+  const meta = parseMetaBox(dataView);
+  const metadata: MediaMetadata = { entries: [] };
+  meta.itemInfos
+    .filter((e) => e.itemType === "Exif")
+    .forEach(({ itemId }) => {
+      const location = meta.locations.items.find((e) => e.itemId === itemId);
+      if (!location) return;
+      const exif = getItemData(heif, meta, location);
+      metadata.entries.push(
+        ...readExifMetadataEntries(exif, getItemOffset(meta, location)),
+      );
+    });
+  return metadata;
+}
+
+/**
+ * Get the image data of a HEIF file, which metadata edits never change
+ *
+ * @param input The HEIF file buffer as Uint8Array or ArrayBuffer
+ * @returns The item properties box, then the data of each item other than
+ * Exif in item order, as located by 'iloc'
+ */
+export function getHeifPayload(input: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const heif = new Uint8Array(input);
+  const dataView = new DataView(heif.buffer, heif.byteOffset, heif.byteLength);
+  if (!isHeif(dataView))
+    throw new NotThisFormatError("heif", "Not a valid HEIF file");
+
+  const meta = parseMetaBox(dataView);
+  const exifItemIds = new Set(
+    meta.itemInfos.filter((e) => e.itemType === "Exif").map((e) => e.itemId),
+  );
+  return [
+    ...meta.children
+      .filter((e) => e.type === "iprp")
+      .map((e) => heif.slice(e.offset, e.offset + e.size)),
+    ...meta.locations.items
+      .filter((e) => !exifItemIds.has(e.itemId))
+      .sort((a, b) => a.itemId - b.itemId)
+      .map((e) => getItemData(heif, meta, e)),
+  ];
+}
+
+/**
+ * Set metadata in a HEIF (AVIF/HEIC) file
+ * Writes an Exif item into the 'idat' box of 'meta', replacing the previous
+ * Exif item of text entries if there is one, and fixes up the item offsets of
+ * 'iloc'. Exif items of the camera are kept as they are, the metadata goes
+ * into an Exif item of its own next to them, unless all their keys are
+ * removed.
+ * The coded image data is copied as is.
+ *
+ * @param buffer The HEIF file buffer
+ * @param metadata The metadata to set or update
+ * @param options.remove Keys to delete, an Exif item left empty is removed
+ * with its item info and references
+ * @returns The modified HEIF file buffer
+ */
+export function setHeifMetadata(
+  buffer: ArrayBuffer | Uint8Array,
+  metadata: MetadataInput,
+  { remove = [] }: MetadataWriteOptions = {},
+): Uint8Array {
+  const modifyRecords = toSingleValueRecord(metadata, "heif");
+  const removed = new Set(
+    remove.filter((key) => !Object.hasOwn(modifyRecords, key)),
+  );
+  const heif = new Uint8Array(buffer);
+  const dataView = new DataView(heif.buffer, heif.byteOffset, heif.byteLength);
+  if (!isHeif(dataView))
+    throw new NotThisFormatError("heif", "Not a valid HEIF file");
+
+  const meta = parseMetaBox(dataView);
+  const exifInfos = meta.itemInfos.filter((e) => e.itemType === "Exif");
+  const textInfo = exifInfos.find((e) =>
+    isEditableExifItem(heif, meta, e.itemId),
+  );
+  // camera Exif items can not be re-encoded, they are dropped once all their
+  // keys are removed, the first one makes room for the text entries
+  const cameraInfos = removed.size
+    ? exifInfos.filter(
+        (e) =>
+          e !== textInfo && isRemovedExifItem(heif, meta, e.itemId, removed),
+      )
+    : [];
+  const exifInfo = textInfo ?? cameraInfos.shift();
+  const droppedIds = new Set(cameraInfos.map((e) => e.itemId));
+  const exifLocation =
+    textInfo && meta.locations.items.find((e) => e.itemId === textInfo.itemId);
+
+  // merge with existing entries
+  const exif = exifLocation
+    ? readExifItem(
+        getItemData(heif, meta, exifLocation),
+        getItemOffset(meta, exifLocation),
+      )
+    : { text: [], plain: [] };
+  const { text, plain } = editExifText(exif, modifyRecords, removed, "heif");
+  // nothing left to store, drop the Exif item
+  const dropExif = !text.length && !plain.length;
+  if (dropExif && !exifInfo) return heif.slice();
+  const exifPayload = encodeExifItem(text, plain);
+
+  const exifItemId =
+    exifInfo?.itemId ?? Math.max(0, ...meta.itemInfos.map((e) => e.itemId)) + 1;
+
+  // rebuild idat with the data of all idat items, the Exif item last
+  const idatParts: Uint8Array[] = [];
+  let idatLength = 0;
+  const locations: ItemLocation[] = meta.locations.items
+    .filter((e) => e.itemId !== exifItemId && !droppedIds.has(e.itemId))
+    .map((location) => {
+      if (location.constructionMethod !== 1) return location;
+      const extents = location.extents.map((extent) => {
+        const start = meta.idatDataOffset + location.baseOffset + extent.offset;
+        idatParts.push(heif.slice(start, start + extent.length));
+        const offset = idatLength;
+        idatLength += extent.length;
+        return { ...extent, offset };
+      });
+      return { ...location, baseOffset: 0, extents };
+    });
+  if (!dropExif) {
+    locations.push({
+      itemId: exifItemId,
+      constructionMethod: 1,
+      dataReferenceIndex: 0,
+      baseOffset: 0,
+      extents: [{ index: 0, offset: idatLength, length: exifPayload.length }],
+    });
+    idatParts.push(exifPayload);
+  }
+  const idatBox = createBox("idat", concatUint8Arrays(idatParts));
+
+  if (dropExif) droppedIds.add(exifItemId);
+  const iinfBox = droppedIds.size
+    ? createItemInfoBox(
+        meta,
+        meta.itemInfos
+          .filter((e) => !droppedIds.has(e.itemId))
+          .map((e) => e.box),
+      )
+    : exifInfo
+      ? null
+      : createItemInfoBox(meta, [
+          ...meta.itemInfos.map((e) => e.box),
+          createItemInfoEntry(exifItemId, "Exif"),
+        ]);
+  const irefBox = droppedIds.size
+    ? removeItemReferences(heif, meta, droppedIds)
+    : exifInfo
+      ? null
+      : createItemReferenceBox(
+          heif,
+          meta,
+          exifItemId,
+          meta.primaryItemId || meta.itemInfos[0]?.itemId,
+        );
+
+  const metaEnd = meta.offset + meta.size;
+  const buildMeta = (delta: number) => {
+    // file offsets behind the meta box move with it
+    const shifted = locations.map((location) => {
+      if (location.constructionMethod !== 0 || location.dataReferenceIndex)
+        return location;
+      if (location.baseOffset && location.baseOffset >= metaEnd)
+        return { ...location, baseOffset: location.baseOffset + delta };
+      return {
+        ...location,
+        extents: location.extents.map((extent) =>
+          location.baseOffset + extent.offset >= metaEnd
+            ? { ...extent, offset: extent.offset + delta }
+            : extent,
+        ),
+      };
+    });
+    const ilocBox = createItemLocationBox(meta.locations, shifted);
+
+    const parts: Uint8Array[] = [heif.slice(meta.offset + 8, meta.offset + 12)];
+    let idatWritten = false;
+    for (const child of meta.children) {
+      if (child.type === "iloc") parts.push(ilocBox);
+      else if (child.type === "iinf" && iinfBox) parts.push(iinfBox);
+      else if (child.type === "iref" && irefBox) parts.push(irefBox);
+      else if (child.type === "idat") {
+        parts.push(idatBox);
+        idatWritten = true;
+      } else {
+        parts.push(heif.slice(child.offset, child.offset + child.size));
+      }
+    }
+    if (irefBox && !meta.children.some((e) => e.type === "iref"))
+      parts.push(irefBox);
+    if (!idatWritten && idatParts.length) parts.push(idatBox);
+    return createBox("meta", concatUint8Arrays(parts));
+  };
+
+  // offset field sizes can change with the offsets, repeat until stable
+  let delta = 0;
+  let newMeta = buildMeta(delta);
+  while (newMeta.length - meta.size !== delta) {
+    delta = newMeta.length - meta.size;
+    newMeta = buildMeta(delta);
+  }
+
+  return concatUint8Arrays([
+    heif.slice(0, meta.offset),
+    newMeta,
+    heif.slice(metaEnd),
+  ]);
+}
+
+/**
+ * Check for an 'ftyp' box with a HEIF image brand
+ */
+function isHeif(dataView: DataView): boolean {
+  if (dataView.byteLength < 16) return false;
+  const ftyp = findBox(dataView, 0, dataView.byteLength, "ftyp");
+  if (!ftyp || ftyp.offset !== 0) return false;
+  const brands: string[] = [];
+  for (let offset = 8; offset + 4 <= ftyp.size; offset += 4) {
+    if (offset === 12) continue; // minor version
+    brands.push(readType(dataView, offset));
+  }
+  return brands.some((brand) => HEIF_BRANDS.includes(brand));
+}
+
+function readType(dataView: DataView, offset: number): string {
+  return String.fromCharCode(
+    dataView.getUint8(offset),
+    dataView.getUint8(offset + 1),
+    dataView.getUint8(offset + 2),
+    dataView.getUint8(offset + 3),
+  );
+}
+
+function readUint(dataView: DataView, offset: number, size: number): number {
+  if (size === 0) return 0;
+  if (size === 2) return dataView.getUint16(offset);
+  if (size === 4) return dataView.getUint32(offset);
+  if (size === 8) return Number(dataView.getBigUint64(offset));
+  throw new UnsupportedFeatureError("heif", `Unsupported integer size ${size}`);
+}
+
+function writeUint(
+  dataView: DataView,
+  offset: number,
+  size: number,
+  value: number,
+) {
+  if (size === 0) return;
+  if (size === 2) return dataView.setUint16(offset, value);
+  if (size === 4) return dataView.setUint32(offset, value);
+  if (size === 8) return dataView.setBigUint64(offset, BigInt(value));
+  throw new UnsupportedFeatureError("heif", `Unsupported integer size ${size}`);
+}
+
+/**
+ * List the child boxes of a container
+ */
+function listBoxes(dataView: DataView, start: number, end: number) {
+  const boxes: { type: string; offset: number; size: number }[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = dataView.getUint32(offset);
+    if (size === 1) size = readUint(dataView, offset + 8, 8);
+    if (size === 0) size = end - offset;
+    if (size < 8 || offset + size > end) break;
+    boxes.push({ type: readType(dataView, offset + 4), offset, size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function parseMetaBox(dataView: DataView): MetaBox {
+  const meta = findBox(dataView, 0, dataView.byteLength, "meta");
+  if (!meta)
+    throw new CorruptStructureError("heif", "No 'meta' box found in HEIF file");
+
+  // meta is a full box, children start after version/flags
+  const children = listBoxes(
+    dataView,
+    meta.offset + 12,
+    meta.offset + meta.size,
+  );
+  const child = (type: string) => children.find((e) => e.type === type);
+
+  const iinf = child("iinf");
+  const iloc = child("iloc");
+  if (!iinf || !iloc) {
+    throw new CorruptStructureError("heif", "No 'iinf' or 'iloc' box found", {
+      offset: meta.offset,
+    });
+  }
+
+  // iinf: version/flags + entry count + infe boxes
+  const iinfVersion = dataView.getUint8(iinf.offset + 8);
+  const infeStart = iinf.offset + 12 + (iinfVersion === 0 ? 2 : 4);
+  const itemInfos = listBoxes(dataView, infeStart, iinf.offset + iinf.size)
+    .filter((e) => e.type === "infe")
+    .map((infe): ItemInfo => {
+      const version = dataView.getUint8(infe.offset + 8);
+      const idSize = version === 3 ? 4 : 2;
+      const itemId = readUint(dataView, infe.offset + 12, idSize);
+      // item types were added in version 2, older entries are copied as is
+      const itemType =
+        version < 2 ? "" : readType(dataView, infe.offset + 12 + idSize + 2);
+      const box = new Uint8Array(
+        dataView.buffer,
+        dataView.byteOffset + infe.offset,
+        infe.size,
+      ).slice();
+      return { itemId, itemType, box };
+    });
+
+  const pitm = child("pitm");
+  const primaryItemId = !pitm
+    ? 0
+    : readUint(
+        dataView,
+        pitm.offset + 12,
+        dataView.getUint8(pitm.offset + 8) === 0 ? 2 : 4,
+      );
+
+  const idat = child("idat");
+  return {
+    ...meta,
+    children,
+    itemInfos,
+    iinfVersion,
+    locations: parseItemLocationBox(dataView, iloc.offset),
+    primaryItemId,
+    idatDataOffset: idat ? idat.offset + 8 : 0,
+  };
+}
+
+function parseItemLocationBox(
+  dataView: DataView,
+  boxOffset: number,
+): ItemLocationBox {
+  let offset = boxOffset + 8;
+  const version = dataView.getUint8(offset);
+  offset += 4;
+  const sizes = dataView.getUint16(offset);
+  offset += 2;
+  const offsetSize = (sizes >> 12) & 0xf;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version > 0 ? sizes & 0xf : 0;
+  const idSize = version < 2 ? 2 : 4;
+
+  const itemCount = readUint(dataView, offset, idSize);
+  offset += idSize;
+  const items: ItemLocation[] = [];
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = readUint(dataView, offset, idSize);
+    offset += idSize;
+    let constructionMethod = 0;
+    if (version > 0) {
+      constructionMethod = dataView.getUint16(offset) & 0xf;
+      offset += 2;
+    }
+    const dataReferenceIndex = dataView.getUint16(offset);
+    offset += 2;
+    const baseOffset = readUint(dataView, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = dataView.getUint16(offset);
+    offset += 2;
+    const extents: ItemExtent[] = [];
+    for (let j = 0; j < extentCount; j++) {
+      const index = readUint(dataView, offset, indexSize);
+      offset += indexSize;
+      const extentOffset = readUint(dataView, offset, offsetSize);
+      offset += offsetSize;
+      const length = readUint(dataView, offset, lengthSize);
+      offset += lengthSize;
+      extents.push({ index, offset: extentOffset, length });
+    }
+    items.push({
+      itemId,
+      constructionMethod,
+      dataReferenceIndex,
+      baseOffset,
+      extents,
+    });
+  }
+  return {
+    version,
+    offsetSize,
+    lengthSize,
+    baseOffsetSize,
+    indexSize,
+    items,
+  };
+}
+
+/**
+ * Encode an 'iloc' box, version 1 at least as idat items need a construction method
+ */
+function createItemLocationBox(
+  original: ItemLocationBox,
+  items: ItemLocation[],
+): Uint8Array {
+  const fits = (values: number[]) =>
+    values.every((e) => e <= 0xffffffff) ? 4 : 8;
+  const extents = items.flatMap((e) => e.extents);
+  const version = Math.max(
+    original.version,
+    1,
+    items.some((e) => e.itemId > 0xffff) ? 2 : 0,
+  );
+  const offsetSize = Math.max(
+    original.offsetSize,
+    fits(extents.map((e) => e.offset)),
+  );
+  const lengthSize = Math.max(
+    original.lengthSize,
+    fits(extents.map((e) => e.length)),
+  );
+  const baseOffsetSize = items.some((e) => e.baseOffset)
+    ? Math.max(original.baseOffsetSize, fits(items.map((e) => e.baseOffset)))
+    : original.baseOffsetSize;
+  const indexSize = original.indexSize;
+  const idSize = version < 2 ? 2 : 4;
+
+  const size =
+    12 +
+    2 +
+    idSize +
+    items.reduce(
+      (sum, e) =>
+        sum +
+        idSize +
+        2 +
+        2 +
+        baseOffsetSize +
+        2 +
+        e.extents.length * (indexSize + offsetSize + lengthSize),
+      0,
+    );
+  const box = new Uint8Array(size);
+  const view = new DataView(box.buffer);
+  view.setUint32(0, size);
+  box.set(new TextEncoder().encode("iloc"), 4);
+  view.setUint8(8, version);
+  view.setUint16(
+    12,
+    (offsetSize << 12) | (lengthSize << 8) | (baseOffsetSize << 4) | indexSize,
+  );
+  let offset = 14;
+  writeUint(view, offset, idSize, items.length);
+  offset += idSize;
+  for (const item of items) {
+    writeUint(view, offset, idSize, item.itemId);
+    offset += idSize;
+    view.setUint16(offset, item.constructionMethod);
+    offset += 2;
+    view.setUint16(offset, item.dataReferenceIndex);
+    offset += 2;
+    writeUint(view, offset, baseOffsetSize, item.baseOffset);
+    offset += baseOffsetSize;
+    view.setUint16(offset, item.extents.length);
+    offset += 2;
+    for (const extent of item.extents) {
+      writeUint(view, offset, indexSize, extent.index);
+      offset += indexSize;
+      writeUint(view, offset, offsetSize, extent.offset);
+      offset += offsetSize;
+      writeUint(view, offset, lengthSize, extent.length);
+      offset += lengthSize;
+    }
+  }
+  return box;
+}
+
+function createItemInfoEntry(itemId: number, itemType: string): Uint8Array {
+  // infe version 2: item_ID (16), protection index (16), item_type, item_name
+  const box = new Uint8Array(8 + 4 + 2 + 2 + 4 + 1);
+  const view = new DataView(box.buffer);
+  view.setUint32(0, box.length);
+  box.set(new TextEncoder().encode("infe"), 4);
+  view.setUint8(8, 2);
+  view.setUint16(12, itemId);
+  box.set(new TextEncoder().encode(itemType), 16);
+  return box;
+}
+
+/**
+ * Encode an 'iinf' box with the given 'infe' boxes
+ */
+function createItemInfoBox(meta: MetaBox, entries: Uint8Array[]): Uint8Array {
+  const countSize = meta.iinfVersion === 0 ? 2 : 4;
+  const header = new Uint8Array(4 + countSize);
+  const view = new DataView(header.buffer);
+  view.setUint8(0, meta.iinfVersion);
+  writeUint(view, 4, countSize, entries.length);
+  return createBox("iinf", concatUint8Arrays([header, ...entries]));
+}
+
+/**
+ * Add a 'cdsc' (content describes) reference from the Exif item to the image
+ */
+function createItemReferenceBox(
+  heif: Uint8Array,
+  meta: MetaBox,
+  fromItemId: number,
+  toItemId: number,
+): Uint8Array {
+  const iref = meta.children.find((e) => e.type === "iref");
+  const version = iref ? heif[iref.offset + 8] : 0;
+  const idSize = version === 0 ? 2 : 4;
+
+  const reference = new Uint8Array(8 + idSize + 2 + idSize);
+  const view = new DataView(reference.buffer);
+  view.setUint32(0, reference.length);
+  reference.set(new TextEncoder().encode("cdsc"), 4);
+  writeUint(view, 8, idSize, fromItemId);
+  view.setUint16(8 + idSize, 1);
+  writeUint(view, 8 + idSize + 2, idSize, toItemId);
+
+  const existing = iref
+    ? heif.slice(iref.offset + 8, iref.offset + iref.size)
+    : new Uint8Array(4); // version 0, no flags
+  return createBox("iref", concatUint8Arrays([existing, reference]));
+}
+
+/**
+ * Drop the references from items, e.g. the 'cdsc' of removed Exif items
+ * @returns The new 'iref' box, or null if there is none
+ */
+function removeItemReferences(
+  heif: Uint8Array,
+  meta: MetaBox,
+  fromItemIds: Set<number>,
+): Uint8Array | null {
+  const iref = meta.children.find((e) => e.type === "iref");
+  if (!iref) return null;
+  const dataView = new DataView(heif.buffer, heif.byteOffset, heif.byteLength);
+  const idSize = heif[iref.offset + 8] === 0 ? 2 : 4;
+  const references = listBoxes(
+    dataView,
+    iref.offset + 12,
+    iref.offset + iref.size,
+  ).filter((e) => !fromItemIds.has(readUint(dataView, e.offset + 8, idSize)));
+  return createBox(
+    "iref",
+    concatUint8Arrays([
+      heif.slice(iref.offset + 8, iref.offset + 12), // version and flags
+      ...references.map((e) => heif.slice(e.offset, e.offset + e.size)),
+    ]),
+  );
+}
+
+function getItemData(
+  heif: Uint8Array,
+  meta: MetaBox,
+  location: ItemLocation,
+): Uint8Array {
+  if (location.constructionMethod > 1 || location.dataReferenceIndex) {
+    throw new UnsupportedFeatureError(
+      "heif",
+      `Unsupported item construction method ${location.constructionMethod}`,
+      { context: { dataReferenceIndex: location.dataReferenceIndex } },
+    );
+  }
+  const base =
+    (location.constructionMethod === 1 ? meta.idatDataOffset : 0) +
+    location.baseOffset;
+  return concatUint8Arrays(
+    location.extents.map((e) =>
+      heif.slice(base + e.offset, base + e.offset + e.length),
+    ),
+  );
+}
+
+/**
+ * The file offset of the first extent of an item, for errors
+ */
+function getItemOffset(meta: MetaBox, location: ItemLocation): number {
+  return (
+    (location.constructionMethod === 1 ? meta.idatDataOffset : 0) +
+    location.baseOffset +
+    (location.extents[0]?.offset ?? 0)
+  );
+}
+
+/**
+ * Check if an Exif item holds text entries only, see isEditableExif
+ */
+function isEditableExifItem(
+  heif: Uint8Array,
+  meta: MetaBox,
+  itemId: number,
+): boolean {
+  const location = meta.locations.items.find((e) => e.itemId === itemId);
+  if (!location || location.constructionMethod > 1) return false;
+  if (location.dataReferenceIndex) return false;
+  const exif = getItemData(heif, meta, location);
+  if (exif.length < 4) return false;
+  const tiffOffset = 4 + new DataView(exif.buffer).getUint32(0);
+  return isEditableExif(exif.subarray(tiffOffset));
+}
+
+/**
+ * Check if all keys of an Exif item are removed, items without keys are kept
+ */
+function isRemovedExifItem(
+  heif: Uint8Array,
+  meta: MetaBox,
+  itemId: number,
+  removed: Set<string>,
+): boolean {
+  const location = meta.locations.items.find((e) => e.itemId === itemId);
+  if (!location || location.constructionMethod > 1) return false;
+  if (location.dataReferenceIndex) return false;
+  const { entries } = readExifItem(
+    getItemData(heif, meta, location),
+    getItemOffset(meta, location),
+  );
+  return entries.length > 0 && entries.every((e) => removed.has(e.key));
+}
+
+/**
+ * Exif item payload: 32 bit offset to the TIFF header, followed by the
+ * (usually "Exif\0\0") header and the TIFF block
+ */
+function readExifMetadataEntries(
+  exif: Uint8Array,
+  offset: number,
+): MetadataEntry[] {
+  return readExifItem(exif, offset).entries;
+}
+
+/**
+ * @param offset The file offset of the item, for errors
+ */
+function readExifItem(exif: Uint8Array, offset: number): ExifText {
+  if (exif.length < 4) return { entries: [], text: [], plain: [] };
+  const tiffOffset = 4 + new DataView(exif.buffer).getUint32(0);
+  try {
+    return readExifText(exif.slice(tiffOffset));
+  } catch (error) {
+    throw new CorruptStructureError("heif", "Can not decode the Exif item", {
+      offset,
+      context: { tiffOffset },
+      cause: error,
+    });
+  }
+}
+
+function encodeExifItem(
+  entries: [string, string][],
+  plain: IFDEntryInput[],
+): Uint8Array {
+  const header = new Uint8Array(4);
+  new DataView(header.buffer).setUint32(0, 6);
+  return concatUint8Arrays([
+    header,
+    new TextEncoder().encode("Exif\0\0"),
+    encodeExifText(entries, plain),
+  ]);
+}
+
+function createBox(type: string, content: Uint8Array): Uint8Array {
+  const header = new Uint8Array(8);
+  new DataView(header.buffer).setUint32(0, 8 + content.length);
+  header.set(new TextEncoder().encode(type), 4);
+  return concatUint8Arrays([header, content]);
+}
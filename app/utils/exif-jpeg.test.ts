@@ -0,0 +1,102 @@
+import { getJpegMetadata, setJpegMetadata } from "@/app/utils/exif-jpeg";
+import { glob } from "glob";
+
+it("extract jpeg workflow", async () => {
+  const jpegs = await glob("./tests/jpeg/ComfyUI*.jpg");
+  expect(jpegs.length).toBeGreaterThanOrEqual(1);
+
+  for await (const filename of jpegs) {
+    const jpeg = Bun.file(filename);
+    const ref = Bun.file(jpeg.name + ".workflow.json");
+
+    const exif = getJpegMetadata(await jpeg.arrayBuffer());
+
+    const workflow_expect = JSON.stringify(JSON.parse(exif.workflow));
+    const workflow_actual = JSON.stringify(await ref.json());
+    expect(workflow_expect).toEqual(workflow_actual);
+    expect(exif.prompt).toBeDefined();
+  }
+});
+
+it("set jpeg workflow", async () => {
+  const jpegs = await glob("./tests/jpeg/*.jpg");
+  expect(jpegs.length).toBeGreaterThanOrEqual(2);
+
+  for await (const filename of jpegs) {
+    const jpeg = Bun.file(filename);
+    const original = await jpeg.arrayBuffer();
+
+    const newWorkflow = '{"test":"hello, snomiao"}';
+    const buffer = setJpegMetadata(original, { workflow: newWorkflow });
+
+    const metadata = getJpegMetadata(buffer);
+    expect(metadata.workflow).toBe(newWorkflow);
+
+    // other keys are kept
+    const originalMetadata = getJpegMetadata(original);
+    for (const key of Object.keys(originalMetadata)) {
+      if (key !== "workflow") expect(metadata[key]).toBe(originalMetadata[key]);
+    }
+  }
+});
+
+it("should keep JFIF first and scan data untouched", async () => {
+  const jpeg = Bun.file("./tests/jpeg/blank.jpg");
+  const original = new Uint8Array(await jpeg.arrayBuffer());
+  expect(getJpegMetadata(original).workflow).toBeUndefined();
+
+  const buffer = setJpegMetadata(original, {
+    workflow: '{"test":"data"}',
+    prompt: '{"3":{}}',
+  });
+
+  // SOI, then APP0 JFIF, then APP1 Exif
+  expect([...buffer.slice(0, 4)]).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+  const app0Length = (buffer[4] << 8) | buffer[5];
+  const app1 = buffer.slice(4 + app0Length);
+  expect([...app1.slice(0, 2)]).toEqual([0xff, 0xe1]);
+  expect(new TextDecoder().decode(app1.slice(4, 10))).toBe("Exif\0\0");
+
+  // everything from SOS on is unchanged
+  const sos = (data: Uint8Array) =>
+    data.findIndex((e, i) => e === 0xff && data[i + 1] === 0xda);
+  expect(buffer.slice(sos(buffer))).toEqual(original.slice(sos(original)));
+});
+
+it("should store workflows larger than a segment in COM segments", async () => {
+  const jpeg = Bun.file("./tests/jpeg/ComfyUI.jpg");
+
+  const largeWorkflow = JSON.stringify({
+    test: "x".repeat(150000),
+    text: "工作流 ワークフロー 🎨".repeat(1000),
+  });
+  const buffer = setJpegMetadata(await jpeg.arrayBuffer(), {
+    workflow: largeWorkflow,
+  });
+  const metadata = getJpegMetadata(buffer);
+  expect(metadata.workflow).toBe(largeWorkflow);
+  expect(metadata.prompt).toBeDefined();
+
+  // and back to EXIF once it fits again
+  const buffer2 = setJpegMetadata(buffer, { workflow: "{}" });
+  expect(getJpegMetadata(buffer2).workflow).toBe("{}");
+  expect(buffer2.length).toBeLessThan(buffer.length);
+});
+
+it("should handle multiple save operations", async () => {
+  const jpeg = Bun.file("./tests/jpeg/blank.jpg");
+
+  const buffer1 = setJpegMetadata(await jpeg.arrayBuffer(), {
+    workflow: '{"version":1}',
+  });
+  const buffer2 = setJpegMetadata(buffer1, { workflow: '{"version":2}' });
+
+  expect(getJpegMetadata(buffer2).workflow).toBe('{"version":2}');
+  expect(buffer2.length).toBe(buffer1.length);
+});
+
+it("invalid JPEG files throw errors", () => {
+  expect(() => getJpegMetadata(new Uint8Array([0, 1, 2, 3]))).toThrow(
+    "Not a valid JPEG file",
+  );
+});
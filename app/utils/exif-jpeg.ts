@@ -0,0 +1,410 @@
+import { concatUint8Arrays } from "uint8array-extras";
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  TruncatedError,
+} from "./codec-errors";
+import {
+  editExifText,
+  encodeExifText,
+  ExifText,
+  isEditableExif,
+  readExifText,
+} from "./exif-text";
+import { IFDEntryInput } from "./exif-webp";
+import {
+  detectTextEncoding,
+  MediaMetadata,
+  MetadataEntry,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
+
+/**
+ * Functions for handling metadata in JPEG files
+ *
+ * Metadata is stored as `key:value` ASCII entries in the APP1 EXIF segment,
+ * the same layout Hanzo Studio uses for webp (Make = workflow, Model = prompt).
+ * A segment can hold at most 64KB, so values that do not fit into the EXIF
+ * block are written to COM segments instead, split over consecutive segments
+ * that all start with the same `key:` prefix.
+ *
+ * ref: - [JPEG - Wikipedia]( https://en.wikipedia.org/wiki/JPEG#Syntax_and_structure )
+ */
+
+const MARKER_SOI = 0xd8;
+const MARKER_EOI = 0xd9;
+const MARKER_SOS = 0xda;
+const MARKER_APP0 = 0xe0;
+const MARKER_APP1 = 0xe1;
+const MARKER_COM = 0xfe;
+
+// segment length field is 16 bits and includes itself
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+const EXIF_HEADER = "Exif\0\0";
+
+type JpegSegment = {
+  marker: number;
+  // offset of the 0xFF marker prefix
+  offset: number;
+  // the whole segment including marker and length field
+  bytes: Uint8Array;
+  // payload after the length field
+  payload: Uint8Array;
+};
+
+/**
+ * Get metadata from a JPEG file
+ * Reads `key:value` entries from the APP1 EXIF segment and COM segments
+ *
+ * @param input The JPEG file buffer as Uint8Array or ArrayBuffer
+ * @returns Object containing extracted metadata with keys as field names and values as strings
+ */
+export function getJpegMetadata(
+  input: Uint8Array | ArrayBuffer,
+): Record<string, string> {
+  return toMetadataRecord(getJpegMediaMetadata(input));
+}
+
+/**
+ * Get the EXIF and COM entries of a JPEG file in order, COM entries last
+ *
+ * @param input The JPEG file buffer as Uint8Array or ArrayBuffer
+ * @returns The metadata entries
+ */
+export function getJpegMediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
+  const jpeg = new Uint8Array(input);
+  if (!isJpeg(jpeg))
+    throw new NotThisFormatError("jpeg", "Not a valid JPEG file");
+
+  const { segments } = parseSegments(jpeg);
+  const metadata: MediaMetadata = { entries: [] };
+
+  for (const segment of segments) {
+    if (segment.marker === MARKER_APP1 && isExifPayload(segment.payload)) {
+      metadata.entries.push(
+        ...readExifMetadataEntries(segment.payload, segment.offset),
+      );
+    }
+  }
+
+  readCommentEntries(segments).forEach(([key, value]) => {
+    metadata.entries.push({
+      key,
+      value,
+      origin: "COM",
+      encoding: detectTextEncoding(value),
+    });
+  });
+
+  return metadata;
+}
+
+/**
+ * Get the image data of a JPEG file, which metadata edits never change
+ *
+ * @param input The JPEG file buffer as Uint8Array or ArrayBuffer
+ * @returns The segments other than EXIF and COM (tables, frame header, ICC
+ * profile, ...) in order, then everything from the start of scan
+ */
+export function getJpegPayload(input: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const jpeg = new Uint8Array(input);
+  if (!isJpeg(jpeg))
+    throw new NotThisFormatError("jpeg", "Not a valid JPEG file");
+
+  const { segments, scanOffset } = parseSegments(jpeg);
+  return [
+    ...segments
+      .filter(
+        ({ marker, payload }) =>
+          marker !== MARKER_COM &&
+          !(marker === MARKER_APP1 && isExifPayload(payload)),
+      )
+      .map(({ bytes }) => bytes),
+    jpeg.slice(scanOffset),
+  ];
+}
+
+/**
+ * Set metadata in a JPEG file
+ * Updates or adds `key:value` entries in the APP1 EXIF segment, falling back to
+ * COM segments when the values are too large for EXIF or the existing EXIF
+ * segment contains camera data that can not be re-encoded safely.
+ * The scan data is copied as is.
+ *
+ * @param buffer The JPEG file buffer
+ * @param metadata The metadata to set or update
+ * @param options.remove Keys to delete, an EXIF segment left empty is dropped
+ * @returns The modified JPEG file buffer
+ */
+export function setJpegMetadata(
+  buffer: ArrayBuffer | Uint8Array,
+  metadata: MetadataInput,
+  { remove = [] }: MetadataWriteOptions = {},
+): Uint8Array {
+  const jpeg = new Uint8Array(buffer);
+  if (!isJpeg(jpeg))
+    throw new NotThisFormatError("jpeg", "Not a valid JPEG file");
+
+  const { segments, scanOffset } = parseSegments(jpeg);
+  const records = { ...toSingleValueRecord(metadata, "jpeg") };
+  const keys = Object.keys(records);
+  const removed = new Set(remove.filter((key) => !Object.hasOwn(records, key)));
+
+  const exifSegment = segments.find(
+    (e) => e.marker === MARKER_APP1 && isExifPayload(e.payload),
+  );
+  const exifEditable =
+    !exifSegment || isEditableExif(exifSegment.payload.slice(6));
+  // camera EXIF can not be re-encoded, it is dropped once all its keys are
+  // removed
+  const dropCameraExif =
+    !exifEditable &&
+    removed.size > 0 &&
+    !!exifSegment &&
+    isRemovedExif(exifSegment, removed);
+
+  // try to put everything into EXIF first,
+  // null keeps the original EXIF segment as is
+  let exifReplacement: Uint8Array[] | null = null;
+  let commentRecords: Record<string, string> = records;
+  if (exifEditable || dropCameraExif) {
+    const exif =
+      exifSegment && exifEditable
+        ? readExifPayload(exifSegment.payload, exifSegment.offset)
+        : { text: [], plain: [] };
+    const { text, plain } = editExifText(exif, records, removed, "jpeg");
+
+    const payload = encodeExifPayload(text, plain);
+    if (!text.length && !plain.length) {
+      exifReplacement = [];
+    } else if (payload.length <= MAX_SEGMENT_PAYLOAD) {
+      exifReplacement = [createSegment(MARKER_APP1, payload)];
+      commentRecords = {};
+    } else if (exifSegment) {
+      // too large, keep the EXIF segment without the modified keys
+      const rest = editExifText(
+        exif,
+        {},
+        new Set([...removed, ...keys]),
+        "jpeg",
+      );
+      exifReplacement =
+        rest.text.length || rest.plain.length
+          ? [
+              createSegment(
+                MARKER_APP1,
+                encodeExifPayload(rest.text, rest.plain),
+              ),
+            ]
+          : [];
+    }
+  }
+
+  const newComments = Object.entries(commentRecords).flatMap(([key, value]) =>
+    createCommentSegments(key, value),
+  );
+
+  // JFIF APP0 has to stay right after SOI, a new EXIF segment follows it
+  const exifIndex = exifSegment
+    ? segments.indexOf(exifSegment)
+    : segments[0]?.marker === MARKER_APP0
+      ? 1
+      : 0;
+  // new comments go after the leading APPn segments
+  let commentIndex = segments.findIndex((e) => (e.marker & 0xf0) !== 0xe0);
+  if (commentIndex === -1) commentIndex = segments.length;
+
+  const parts: Uint8Array[] = [jpeg.slice(0, 2)];
+  for (let i = 0; i <= segments.length; i++) {
+    if (i === exifIndex && exifReplacement) parts.push(...exifReplacement);
+    if (i === commentIndex) parts.push(...newComments);
+
+    const segment = segments[i];
+    if (!segment) break;
+    if (segment === exifSegment && exifReplacement) continue;
+    if (segment.marker === MARKER_COM) {
+      const key = getCommentKey(segment.payload);
+      // replaced or removed
+      if (key !== null && (Object.hasOwn(records, key) || removed.has(key)))
+        continue;
+    }
+    parts.push(segment.bytes);
+  }
+
+  parts.push(jpeg.slice(scanOffset));
+  return concatUint8Arrays(parts);
+}
+
+function isJpeg(jpeg: Uint8Array): boolean {
+  return jpeg.length >= 3 && jpeg[0] === 0xff && jpeg[1] === MARKER_SOI;
+}
+
+/**
+ * Walk the marker segments between SOI and the start of scan
+ * @returns the segments and the offset where the rest of the file (SOS/EOI and image data) starts
+ */
+function parseSegments(jpeg: Uint8Array): {
+  segments: JpegSegment[];
+  scanOffset: number;
+} {
+  const dataView = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  const segments: JpegSegment[] = [];
+  let offset = 2; // skip SOI
+
+  while (offset + 1 < jpeg.length) {
+    if (jpeg[offset] !== 0xff) {
+      throw new CorruptStructureError(
+        "jpeg",
+        `Invalid JPEG marker at offset ${offset}`,
+        { offset },
+      );
+    }
+    // skip fill bytes
+    let markerOffset = offset;
+    while (jpeg[markerOffset + 1] === 0xff) markerOffset++;
+    const marker = jpeg[markerOffset + 1];
+
+    if (marker === MARKER_SOS || marker === MARKER_EOI) {
+      return { segments, scanOffset: offset };
+    }
+    // standalone markers have no length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      segments.push({
+        marker,
+        offset,
+        bytes: jpeg.slice(offset, markerOffset + 2),
+        payload: new Uint8Array(0),
+      });
+      offset = markerOffset + 2;
+      continue;
+    }
+
+    const length = dataView.getUint16(markerOffset + 2);
+    const end = markerOffset + 2 + length;
+    if (end > jpeg.length) {
+      throw new TruncatedError("jpeg", "JPEG segment exceeds the file", {
+        offset,
+        context: { marker, length },
+      });
+    }
+    segments.push({
+      marker,
+      offset,
+      bytes: jpeg.slice(offset, end),
+      payload: jpeg.slice(markerOffset + 4, end),
+    });
+    offset = end;
+  }
+
+  return { segments, scanOffset: jpeg.length };
+}
+
+function isExifPayload(payload: Uint8Array): boolean {
+  return String.fromCharCode(...payload.slice(0, 6)) === EXIF_HEADER;
+}
+
+function readExifMetadataEntries(
+  payload: Uint8Array,
+  offset: number,
+): MetadataEntry[] {
+  return readExifPayload(payload, offset).entries;
+}
+
+/**
+ * @param offset The file offset of the segment, for errors
+ */
+function readExifPayload(payload: Uint8Array, offset: number): ExifText {
+  try {
+    return readExifText(payload.slice(6));
+  } catch (error) {
+    throw new CorruptStructureError("jpeg", "Can not decode the EXIF segment", {
+      offset,
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Check if all keys of an EXIF segment are removed, segments without keys are
+ * kept
+ */
+function isRemovedExif(segment: JpegSegment, removed: Set<string>): boolean {
+  const entries = readExifMetadataEntries(segment.payload, segment.offset);
+  return entries.length > 0 && entries.every((e) => removed.has(e.key));
+}
+
+function encodeExifPayload(
+  entries: [string, string][],
+  plain: IFDEntryInput[],
+): Uint8Array {
+  return concatUint8Arrays([
+    new TextEncoder().encode(EXIF_HEADER),
+    encodeExifText(entries, plain),
+  ]);
+}
+
+function getCommentKey(payload: Uint8Array): string | null {
+  const text = new TextDecoder().decode(payload);
+  const index = text.indexOf(":");
+  return index === -1 ? null : text.slice(0, index);
+}
+
+/**
+ * Read `key:value` COM segments, consecutive segments with the same key
+ * are parts of one value
+ */
+function readCommentEntries(segments: JpegSegment[]): [string, string][] {
+  const entries: [string, string][] = [];
+  let lastKey: string | null = null;
+  for (const segment of segments) {
+    if (segment.marker !== MARKER_COM) {
+      lastKey = null;
+      continue;
+    }
+    const text = new TextDecoder().decode(segment.payload);
+    const index = text.indexOf(":");
+    if (index === -1) {
+      lastKey = null;
+      continue;
+    }
+    const [key, value] = [text.slice(0, index), text.slice(index + 1)];
+    if (key === lastKey) entries[entries.length - 1][1] += value;
+    else entries.push([key, value]);
+    lastKey = key;
+  }
+  return entries;
+}
+
+function createCommentSegments(key: string, value: string): Uint8Array[] {
+  const prefix = new TextEncoder().encode(`${key}:`);
+  const valueBytes = new TextEncoder().encode(value);
+  const partSize = MAX_SEGMENT_PAYLOAD - prefix.length;
+  const segments: Uint8Array[] = [];
+  let offset = 0;
+  do {
+    // don't split inside a multi-byte UTF-8 sequence
+    let end = Math.min(offset + partSize, valueBytes.length);
+    while (end < valueBytes.length && (valueBytes[end] & 0xc0) === 0x80) end--;
+    segments.push(
+      createSegment(
+        MARKER_COM,
+        concatUint8Arrays([prefix, valueBytes.slice(offset, end)]),
+      ),
+    );
+    offset = end;
+  } while (offset < valueBytes.length);
+  return segments;
+}
+
+function createSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const header = new Uint8Array(4);
+  header[0] = 0xff;
+  header[1] = marker;
+  new DataView(header.buffer).setUint16(2, payload.length + 2);
+  return concatUint8Arrays([header, payload]);
+}
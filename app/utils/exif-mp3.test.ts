@@ -97,3 +97,117 @@ test("MP3 metadata preservation", async () => {
     }
   }
 });
+
+describe("lossless ID3v2 round-trip", () => {
+  const file = Bun.file("tests/mp3/id3v23.mp3");
+
+  it("should read ID3v2.3 text in every encoding", async () => {
+    const metadata = getMp3Metadata(await file.arrayBuffer());
+    const ref = await Bun.file(file.name + ".workflow.json").json();
+
+    expect(JSON.parse(metadata.workflow)).toEqual(ref);
+    expect(metadata.title).toBe("猫の歌");
+    // ID3v2 takes precedence over ID3v1
+    expect(metadata.artist).toBe("Café");
+    expect(metadata.year).toBe("2025");
+  });
+
+  it("should copy unchanged frames byte for byte", async () => {
+    const original = new Uint8Array(await file.arrayBuffer());
+    const buffer = setMp3Metadata(original, { workflow: '{"version":2}' });
+    expect(getMp3Metadata(buffer).workflow).toBe('{"version":2}');
+
+    const before = readTag(original);
+    const after = readTag(buffer);
+    expect(after.version).toBe(3);
+    expect(after.frames.map((e) => e.id)).toEqual(
+      before.frames.map((e) => e.id),
+    );
+    // APIC, COMM, PRIV, ... are untouched, only the workflow TXXX changed
+    const workflowIndex = before.frames.length - 1;
+    after.frames.forEach((frame, i) => {
+      if (i !== workflowIndex) expect(frame).toEqual(before.frames[i]);
+    });
+
+    // the smaller tag is padded, so audio and ID3v1 stay in place
+    expect(buffer.length).toBe(original.length);
+    expect(buffer.slice(after.size)).toEqual(original.slice(before.size));
+  });
+
+  it("should keep TXXX frames named like object properties", async () => {
+    const original = new Uint8Array(await file.arrayBuffer());
+    const buffer = setMp3Metadata(original, { constructor: "x" });
+    const buffer2 = setMp3Metadata(buffer, { workflow: "{}" });
+    const metadata = getMp3Metadata(buffer2);
+    expect(Object.hasOwn(metadata, "constructor")).toBe(true);
+    expect(metadata.constructor).toBe("x");
+    expect(metadata.workflow).toBe("{}");
+  });
+
+  it("should grow the tag when the frames do not fit", async () => {
+    const original = new Uint8Array(await file.arrayBuffer());
+    const largeWorkflow = JSON.stringify({ test: "x".repeat(20000) });
+    const buffer = setMp3Metadata(original, { workflow: largeWorkflow });
+    expect(getMp3Metadata(buffer).workflow).toBe(largeWorkflow);
+
+    const before = readTag(original);
+    const after = readTag(buffer);
+    expect(after.size).toBeGreaterThan(before.size);
+    expect(buffer.slice(after.size)).toEqual(original.slice(before.size));
+  });
+
+  it("should convert to the requested ID3v2 version", async () => {
+    const original = new Uint8Array(await file.arrayBuffer());
+    const buffer = setMp3Metadata(original, { prompt: "{}" }, { version: 4 });
+
+    const before = readTag(original);
+    const after = readTag(buffer);
+    expect(after.version).toBe(4);
+    const metadata = getMp3Metadata(buffer);
+    expect(metadata.prompt).toBe("{}");
+    expect(metadata.workflow).toBe(getMp3Metadata(original).workflow);
+    expect(metadata.title).toBe("猫の歌");
+
+    // binary frames keep their content, the read only flag moves
+    for (const id of ["APIC", "COMM", "PRIV"]) {
+      const find = (tag: typeof before) => tag.frames.find((e) => e.id === id);
+      expect(find(after)!.data).toEqual(find(before)!.data);
+    }
+    expect(after.frames.at(-1)!.flags).toBe(0x1000);
+
+    // and back to ID3v2.3
+    const buffer2 = setMp3Metadata(buffer, {}, { version: 3 });
+    expect(readTag(buffer2).version).toBe(3);
+    expect(readTag(buffer2).frames.at(-1)!.flags).toBe(0x2000);
+    expect(getMp3Metadata(buffer2)).toEqual(metadata);
+  });
+});
+
+/**
+ * Read the frames of an ID3v2.3 or ID3v2.4 tag, independent from the codec
+ */
+function readTag(mp3: Uint8Array) {
+  const view = new DataView(mp3.buffer, mp3.byteOffset, mp3.byteLength);
+  const synchsafe = (offset: number) =>
+    [...mp3.slice(offset, offset + 4)].reduce((a, b) => (a << 7) | b, 0);
+  expect(String.fromCharCode(...mp3.slice(0, 3))).toBe("ID3");
+  const version = mp3[3];
+  const size = 10 + synchsafe(6);
+
+  const frames: { id: string; flags: number; data: Uint8Array }[] = [];
+  let offset = 10;
+  while (offset + 10 <= size && mp3[offset] !== 0) {
+    const id = String.fromCharCode(...mp3.slice(offset, offset + 4));
+    const frameSize =
+      version === 4 ? synchsafe(offset + 4) : view.getUint32(offset + 4);
+    frames.push({
+      id,
+      flags: view.getUint16(offset + 8),
+      data: mp3.slice(offset + 10, offset + 10 + frameSize),
+    });
+    offset += 10 + frameSize;
+  }
+  // the rest of the tag is padding
+  expect(mp3.slice(offset, size).every((e) => e === 0)).toBe(true);
+  return { version, size, frames };
+}
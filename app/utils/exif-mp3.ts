@@ -1,7 +1,54 @@
 /**
  * Functions for handling metadata in MP3 files through ID3 tags
+ *
+ * Writing keeps the existing ID3v2.3/v2.4 tag: frames that are not touched
+ * (cover art, comments, binary frames, ...) are copied byte for byte, and
+ * only the text frames of the keys being set are replaced.
+ *
+ * ref: - [ID3 tag version 2.3.0]( https://id3.org/id3v2.3.0 )
+ *      - [ID3 tag version 2.4.0 - Main Structure]( https://id3.org/id3v2.4.0-structure )
  */
 
+import {
+  NotThisFormatError,
+  TruncatedError,
+  UnsupportedFeatureError,
+} from "./codec-errors";
+import {
+  detectTextEncoding,
+  isMediaMetadata,
+  MediaMetadata,
+  MetadataEncoding,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
+
+type ID3v2Frame = {
+  id: string;
+  flags: number;
+  // frame content without the header
+  data: Uint8Array;
+  // the whole frame including the header, as stored in the tag
+  bytes: Uint8Array;
+};
+
+type ID3v2Tag = {
+  version: number;
+  frames: ID3v2Frame[];
+  // total size including header, extended header, padding and footer
+  size: number;
+};
+
+// ID3v1 fields read as metadata: key => [offset in the tag, length]
+const ID3V1_FIELDS: Record<string, [number, number]> = {
+  title: [3, 30],
+  artist: [33, 30],
+  album: [63, 30],
+  year: [93, 4],
+};
+
 /**
  * Get metadata from an MP3 file
  * Extracts ID3 tags including workflow JSON if present
@@ -12,44 +59,81 @@
 export function getMp3Metadata(
   input: Uint8Array | ArrayBuffer,
 ): Record<string, string> {
+  return toMetadataRecord(getMp3MediaMetadata(input));
+}
+
+/**
+ * Get the ID3v1 fields and ID3v2 text frames of an MP3 file, ID3v1 first
+ *
+ * @param input The MP3 file buffer as Uint8Array or ArrayBuffer
+ * @returns The metadata entries, origin is the tag version and frame ID
+ */
+export function getMp3MediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
   const buffer = input instanceof Uint8Array ? input : new Uint8Array(input);
   const dataView = new DataView(
     buffer.buffer,
     buffer.byteOffset,
     buffer.byteLength,
   );
-  const metadata: Record<string, string> = {};
-
-  try {
-    // Check for ID3v2 header
-    if (isID3v2(dataView)) {
-      parseID3v2(dataView, metadata);
-    }
+  const metadata: MediaMetadata = { entries: [] };
+  if (!isMp3(dataView))
+    throw new NotThisFormatError("mp3", "Not a valid MP3 file");
 
-    // Check for ID3v1 tag at the end of the file
-    if (hasID3v1(dataView)) {
-      parseID3v1(dataView, metadata);
-    }
+  // Check for ID3v1 tag at the end of the file
+  if (hasID3v1(dataView)) {
+    parseID3v1(dataView, metadata);
+  }
 
-    return metadata;
-  } catch (error) {
-    console.error("Error extracting MP3 metadata:", error);
-    return {};
+  // Check for ID3v2 header, its values take precedence over ID3v1
+  if (isID3v2(dataView)) {
+    parseID3v2(dataView, metadata);
   }
+
+  return metadata;
+}
+
+/**
+ * Get the audio data of an MP3 file, which metadata edits never change
+ *
+ * @param input The MP3 file buffer as Uint8Array or ArrayBuffer
+ * @returns The MPEG frames between the ID3v2 tag and the ID3v1 tag
+ */
+export function getMp3Payload(input: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const buffer = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const dataView = new DataView(
+    buffer.buffer,
+    buffer.byteOffset,
+    buffer.byteLength,
+  );
+  const start = isID3v2(dataView) ? readID3v2Tag(buffer).size : 0;
+  const end = hasID3v1(dataView) ? buffer.length - 128 : buffer.length;
+  return [buffer.slice(start, Math.max(start, end))];
 }
 
 /**
  * Set metadata in an MP3 file
- * Injects or updates ID3v2 tags in an MP3 file
+ * Injects or updates ID3v2 tags in an MP3 file, frames of other keys are kept
+ * as is. ID3v2.2 tags cannot be copied and are replaced by a new tag.
  *
  * @param buffer The MP3 file buffer
  * @param metadata The metadata to set or update
+ * @param options.version The ID3v2 major version to write, defaults to the
+ * version of the existing tag, or 4 for files without a tag
+ * @param options.remove Keys to delete, their ID3v2 frames are dropped and
+ * their ID3v1 fields blanked
  * @returns The modified MP3 file buffer with updated metadata
  */
 export function setMp3Metadata(
   buffer: ArrayBuffer | SharedArrayBuffer | Uint8Array,
-  metadata: Record<string, string>,
+  input: MetadataInput,
+  { version, remove = [] }: { version?: 3 | 4 } & MetadataWriteOptions = {},
 ): Uint8Array {
+  const metadata = toSingleValueRecord(withoutShadowedID3v1(input), "mp3");
+  const removed = new Set(
+    remove.filter((key) => !Object.hasOwn(metadata, key)),
+  );
   // Convert to Uint8Array if not already
   const inputData =
     buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
@@ -60,19 +144,52 @@ export function setMp3Metadata(
     inputData.byteLength,
   );
 
-  try {
-    // Retrieve existing metadata to preserve it
-    const existingMetadata = getMp3Metadata(inputData);
+  if (!isMp3(dataView))
+    throw new NotThisFormatError("mp3", "Not a valid MP3 file");
 
-    // Merge existing metadata with new metadata (new takes precedence)
-    const mergedMetadata = { ...existingMetadata, ...metadata };
+  const tag = isID3v2(dataView) ? readID3v2Tag(inputData) : null;
+  const sourceVersion = tag && tag.version >= 3 ? tag.version : null;
+  const targetVersion = version ?? sourceVersion ?? 4;
 
-    // Create or update ID3v2 tags with merged metadata
-    return updateID3v2Tags(inputData, dataView, mergedMetadata);
-  } catch (error) {
-    console.error("Error setting MP3 metadata:", error);
-    throw error;
+  // Replace the frames of the keys being set, keep everything else
+  const pending = new Map(Object.entries(metadata));
+  const frames: Uint8Array[] = [];
+  for (const frame of sourceVersion ? tag!.frames : []) {
+    const key = getFrameKey(frame, sourceVersion!);
+    if (key === null || !Object.hasOwn(metadata, key)) {
+      if (key === null || !removed.has(key))
+        frames.push(convertFrame(frame, sourceVersion!, targetVersion));
+      continue;
+    }
+    // drop duplicates of keys that have been written
+    if (!pending.has(key)) continue;
+    frames.push(createMetadataFrame(key, pending.get(key)!, targetVersion));
+    pending.delete(key);
   }
+  for (const [key, value] of pending) {
+    frames.push(createMetadataFrame(key, value, targetVersion));
+  }
+
+  // don't add an empty tag to a file without one
+  const output =
+    !tag && !frames.length
+      ? inputData.slice()
+      : createID3v2Tag(frames, targetVersion, inputData, tag?.size ?? 0);
+  clearID3v1Fields(output, removed);
+  return output;
+}
+
+/**
+ * Check if the buffer starts with an ID3v2 tag or an MPEG frame, or ends
+ * with an ID3v1 tag
+ */
+function isMp3(dataView: DataView): boolean {
+  if (isID3v2(dataView) || hasID3v1(dataView)) return true;
+  return (
+    dataView.byteLength >= 2 &&
+    dataView.getUint8(0) === 0xff &&
+    (dataView.getUint8(1) & 0xe0) === 0xe0
+  );
 }
 
 /**
@@ -121,175 +238,231 @@ function hasID3v1(dataView: DataView): boolean {
  * @param dataView DataView of the buffer
  * @param metadata Object to populate with extracted metadata
  */
-function parseID3v2(
-  dataView: DataView,
-  metadata: Record<string, string>,
-): void {
-  // Read ID3v2 header
-  const version = dataView.getUint8(3);
-  const revision = dataView.getUint8(4);
-  const flags = dataView.getUint8(5);
+function parseID3v2(dataView: DataView, metadata: MediaMetadata): void {
+  const tag = readID3v2Tag(
+    new Uint8Array(dataView.buffer, dataView.byteOffset, dataView.byteLength),
+  );
+  // ID3v2.2 frames (3-char IDs) are skipped
+  if (tag.version < 3) return;
+
+  for (const frame of tag.frames) {
+    const key = getFrameKey(frame, tag.version);
+    if (key === null) continue;
+    const content = getFrameContent(frame, tag.version)!;
+    const encoding = content[0];
+    const text = content.subarray(1);
+
+    let value: Uint8Array;
+    if (frame.id === "TXXX") {
+      // Description is terminated by a null character of the encoding
+      const descriptionEnd = findTextTerminator(text, encoding);
+      value = text.subarray(descriptionEnd + getTerminatorLength(encoding));
+    } else {
+      value = text;
+    }
+
+    // Store in metadata - trim any remaining null characters
+    const decoded = decodeText(value, encoding).replace(/\0+$/g, "");
+    metadata.entries.push({
+      key,
+      value: decoded,
+      origin: `ID3v2.${tag.version} ${frame.id}`,
+      encoding: getMetadataEncoding(encoding, decoded),
+    });
+  }
+}
+
+/**
+ * Read the frames of an ID3v2 tag at the start of the buffer
+ * @param data The MP3 file data
+ * @returns The tag version, its frames and total size
+ */
+function readID3v2Tag(data: Uint8Array): ID3v2Tag {
+  const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = data[3];
+  const flags = data[5];
 
   // Read tag size (28-bit synchsafe integer)
   const size = getSynchsafeInt(dataView, 6);
+  const hasFooter = version >= 4 && flags & 0x10;
+  if (10 + size > data.length) {
+    throw new TruncatedError("mp3", "ID3v2 tag size exceeds the file", {
+      offset: 6,
+      context: { size },
+    });
+  }
+  let body = data.subarray(10, Math.min(10 + size, data.length));
+  // ID3v2.3 unsynchronises the whole tag, ID3v2.4 each frame
+  if (flags & 0x80 && version < 4) body = removeUnsynchronisation(body);
+  const bodyView = new DataView(body.buffer, body.byteOffset, body.byteLength);
 
-  let offset = 10; // Start after the header
-  const endOffset = 10 + size;
-
-  while (offset < endOffset && offset + 10 < dataView.byteLength) {
-    // Frame ID is 4 characters in ID3v2.3 and ID3v2.4
-    if (version >= 3) {
-      const frameID = String.fromCharCode(
-        dataView.getUint8(offset),
-        dataView.getUint8(offset + 1),
-        dataView.getUint8(offset + 2),
-        dataView.getUint8(offset + 3),
-      );
+  let offset = 0;
+  if (flags & 0x40 && version >= 3) {
+    // Skip the extended header, its size excludes itself in ID3v2.3
+    offset =
+      version === 3 ? 4 + bodyView.getUint32(0) : getSynchsafeInt(bodyView, 0);
+  }
 
-      // Frame size is 4 bytes
-      let frameSize: number;
-      if (version >= 4) {
-        // ID3v2.4 uses synchsafe integers
-        frameSize = getSynchsafeInt(dataView, offset + 4);
-      } else {
-        // ID3v2.3 uses regular integers
-        frameSize = dataView.getUint32(offset + 4);
-      }
-
-      const frameFlags = dataView.getUint16(offset + 8);
-      offset += 10; // Move past frame header
-
-      // Special handling for custom TXXX frames that might contain our workflow
-      if (frameID === "TXXX" && offset + frameSize <= endOffset) {
-        const encoding = dataView.getUint8(offset);
-        offset += 1;
-
-        // Read description until null terminator
-        let description = "";
-        let i = 0;
-        while (offset + i < endOffset) {
-          const charCode = dataView.getUint8(offset + i);
-          if (charCode === 0) break;
-          description += String.fromCharCode(charCode);
-          i++;
-        }
-
-        // Skip null terminator
-        offset += i + 1;
-
-        // Read value
-        const valueLength = frameSize - (i + 2); // -1 for encoding byte, -1 for null terminator
-        let value = "";
-
-        // Simple ASCII/UTF-8 text extraction
-        for (let j = 0; j < valueLength; j++) {
-          if (offset + j < endOffset) {
-            const charCode = dataView.getUint8(offset + j);
-            if (charCode !== 0) {
-              // Skip null bytes
-              value += String.fromCharCode(charCode);
-            }
-          }
-        }
-
-        // Store in metadata - trim any remaining null characters
-        metadata[description] = value.replace(/\0+$/g, "");
-
-        offset += valueLength;
-      }
-      // Handle standard text frames (starting with "T")
-      else if (
-        frameID.startsWith("T") &&
-        frameID !== "TXXX" &&
-        offset + frameSize <= endOffset
-      ) {
-        const encoding = dataView.getUint8(offset);
-        offset += 1;
-
-        // Read text value (simple ASCII/UTF-8 extraction)
-        let value = "";
-        for (let i = 0; i < frameSize - 1; i++) {
-          if (offset + i < endOffset) {
-            const charCode = dataView.getUint8(offset + i);
-            if (charCode !== 0) {
-              // Skip null bytes
-              value += String.fromCharCode(charCode);
-            }
-          }
-        }
-
-        // Map common frame IDs to friendly names
-        const key = mapFrameIDToKey(frameID);
-        metadata[key] = value.replace(/\0+$/g, "");
-
-        offset += frameSize - 1;
-      } else {
-        // Skip other frame types
-        offset += frameSize;
-      }
+  // Frame IDs are 4 characters in ID3v2.3 and ID3v2.4, 3 in ID3v2.2
+  const headerSize = version >= 3 ? 10 : 6;
+  const frames: ID3v2Frame[] = [];
+  while (offset + headerSize <= body.length) {
+    // Padding starts with a null byte
+    if (body[offset] === 0) break;
+
+    const idLength = version >= 3 ? 4 : 3;
+    const id = String.fromCharCode(...body.subarray(offset, offset + idLength));
+    let frameSize: number;
+    if (version >= 4) {
+      // ID3v2.4 uses synchsafe integers
+      frameSize = getSynchsafeInt(bodyView, offset + 4);
+    } else if (version === 3) {
+      // ID3v2.3 uses regular integers
+      frameSize = bodyView.getUint32(offset + 4);
     } else {
-      // ID3v2.2 has 3-char frame IDs and 3-byte sizes
-      const frameID = String.fromCharCode(
-        dataView.getUint8(offset),
-        dataView.getUint8(offset + 1),
-        dataView.getUint8(offset + 2),
-      );
+      frameSize = (bodyView.getUint16(offset + 3) << 8) | body[offset + 5];
+    }
+    const end = offset + headerSize + frameSize;
+    if (end > body.length) {
+      // offsets of unsynchronised tags are those of the decoded body
+      throw new TruncatedError("mp3", `${id} frame exceeds the ID3v2 tag`, {
+        offset: 10 + offset,
+        context: { id, size: frameSize },
+      });
+    }
 
-      const frameSize =
-        (dataView.getUint8(offset + 3) << 16) |
-        (dataView.getUint8(offset + 4) << 8) |
-        dataView.getUint8(offset + 5);
+    frames.push({
+      id,
+      flags: version >= 3 ? bodyView.getUint16(offset + 8) : 0,
+      data: body.subarray(offset + headerSize, end),
+      bytes: body.subarray(offset, end),
+    });
+    offset = end;
+  }
 
-      offset += 6; // Move past frame header
+  return { version, frames, size: 10 + size + (hasFooter ? 10 : 0) };
+}
 
-      // Skip the frame content
-      offset += frameSize;
-    }
-  }
+/**
+ * Get the metadata key a frame is read into
+ * @returns The TXXX description or the friendly name of a text frame, null
+ * for other frames and frames that cannot be decoded
+ */
+function getFrameKey(frame: ID3v2Frame, version: number): string | null {
+  if (!frame.id.startsWith("T")) return null;
+  const content = getFrameContent(frame, version);
+  if (!content?.length) return null;
+  if (frame.id !== "TXXX") return mapFrameIDToKey(frame.id);
+
+  const encoding = content[0];
+  const text = content.subarray(1);
+  return decodeText(
+    text.subarray(0, findTextTerminator(text, encoding)),
+    encoding,
+  );
 }
 
 /**
- * Parse ID3v1 tags from the buffer
- * @param dataView DataView of the buffer
- * @param metadata Object to populate with extracted metadata
+ * Get the content of a frame with grouping, data length and
+ * unsynchronisation removed
+ * @returns The content, or null for compressed or encrypted frames
  */
-function parseID3v1(
-  dataView: DataView,
-  metadata: Record<string, string>,
-): void {
-  const offset = dataView.byteLength - 128;
+function getFrameContent(
+  frame: ID3v2Frame,
+  version: number,
+): Uint8Array | null {
+  let data = frame.data;
+  if (version >= 4) {
+    // %0h00kmnp: grouping, compression, encryption, unsynchronisation,
+    // data length indicator
+    if (frame.flags & 0x0c) return null;
+    if (frame.flags & 0x40) data = data.subarray(1);
+    if (frame.flags & 0x01) data = data.subarray(4);
+    if (frame.flags & 0x02) data = removeUnsynchronisation(data);
+  } else {
+    // %ijk00000: compression, encryption, grouping
+    if (frame.flags & 0xc0) return null;
+    if (frame.flags & 0x20) data = data.subarray(1);
+  }
+  return data;
+}
 
-  // ID3v1 has fixed field sizes
-  const title = readString(dataView, offset + 3, 30);
-  const artist = readString(dataView, offset + 33, 30);
-  const album = readString(dataView, offset + 63, 30);
-  const year = readString(dataView, offset + 93, 4);
+/**
+ * Copy a frame into a tag of another version, only the header is rewritten
+ */
+function convertFrame(frame: ID3v2Frame, from: number, to: number): Uint8Array {
+  if (from === to) return frame.bytes;
+
+  const [statusFlags, formatFlags] = [frame.flags >> 8, frame.flags & 0xff];
+  if (formatFlags) {
+    throw new UnsupportedFeatureError(
+      "mp3",
+      `Cannot convert ID3v2.${from} frame ${frame.id} with format flags to ID3v2.${to}`,
+      { context: { id: frame.id, flags: frame.flags } },
+    );
+  }
+  // tag alter preservation, file alter preservation and read only are
+  // %abc00000 in ID3v2.3 and %0abc0000 in ID3v2.4
+  const flags = to >= 4 ? statusFlags >> 1 : (statusFlags << 1) & 0xe0;
+
+  // ID3v2.3 has no UTF-8, text frames are re-encoded to UTF-16
+  let data = frame.data;
+  if (to < 4 && frame.id.startsWith("T") && data[0] === 0x03) {
+    const text = new TextDecoder().decode(data.subarray(1));
+    // TXXX holds a description and a value, each with its own BOM
+    const separator = frame.id === "TXXX" ? text.indexOf("\0") : -1;
+    const parts: Uint8Array[] = [new Uint8Array([0x01])];
+    if (separator === -1) {
+      parts.push(encodeText(text, 0x01));
+    } else {
+      parts.push(
+        encodeText(text.slice(0, separator), 0x01),
+        new Uint8Array(2),
+        encodeText(text.slice(separator + 1), 0x01),
+      );
+    }
+    data = concatUint8Arrays(parts);
+  }
+  return createFrame(frame.id, data, to, flags << 8);
+}
 
-  if (title) metadata["title"] = title;
-  if (artist) metadata["artist"] = artist;
-  if (album) metadata["album"] = album;
-  if (year) metadata["year"] = year;
+/**
+ * Create a frame for a metadata key, a standard text frame when the key maps
+ * to one, or a TXXX frame
+ */
+function createMetadataFrame(
+  key: string,
+  value: string,
+  version: number,
+): Uint8Array {
+  const frameId =
+    mapKeyToFrameID(key) ?? (/^T[A-Z0-9]{3}$/.test(key) ? key : null);
+  if (frameId?.startsWith("T") && frameId !== "TXXX") {
+    return createTextFrame(frameId, value, version);
+  }
+  return createTXXXFrame(key, value, version);
 }
 
 /**
- * Update or create ID3v2 tags in the MP3 file
- * @param inputData Original MP3 file data
- * @param dataView DataView of the original buffer
- * @param metadata Metadata to update or add
- * @returns Updated MP3 buffer with new metadata
+ * Create an ID3v2 tag from frames followed by the audio data of the input
+ * @param frames The encoded frames
+ * @param version The ID3v2 major version
+ * @param inputData The original MP3 file data
+ * @param oldTagSize Size of the existing tag, kept with padding when the frames fit
+ * @returns The MP3 file data with the new tag
  */
-function updateID3v2Tags(
+function createID3v2Tag(
+  frames: Uint8Array[],
+  version: number,
   inputData: Uint8Array,
-  dataView: DataView,
-  metadata: Record<string, string>,
+  oldTagSize: number,
 ): Uint8Array {
-  // Create a new ID3v2.4 tag
   const id3Header = new Uint8Array([
     0x49,
     0x44,
     0x33, // "ID3"
-    0x04,
-    0x00, // Version 2.4.0
+    version,
+    0x00, // Revision 0
     0x00, // No flags
     0x00,
     0x00,
@@ -297,111 +470,187 @@ function updateID3v2Tags(
     0x00, // Size (to be filled in later)
   ]);
 
-  // Create frames for each metadata item
-  const frames: Uint8Array[] = [];
-
-  Object.entries(metadata).forEach(([key, value]) => {
-    // Use TXXX frame for workflow and custom fields
-    if (key === "workflow" || !isStandardID3Field(key)) {
-      frames.push(createTXXXFrame(key, value));
-    } else {
-      // Map to standard ID3 frame ID
-      const frameId = mapKeyToFrameID(key);
-      if (frameId) {
-        frames.push(createTextFrame(frameId, value));
-      }
-    }
-  });
-
-  // Combine all frames
+  // Combine all frames, padded to the old size so the audio does not move
   const combinedFrames = concatUint8Arrays(frames);
+  const padding = new Uint8Array(
+    Math.max(0, oldTagSize - 10 - combinedFrames.length),
+  );
 
   // Calculate total tag size and update the header
-  const totalSize = combinedFrames.length;
-  setSynchsafeInt(id3Header, 6, totalSize);
+  setSynchsafeInt(id3Header, 6, combinedFrames.length + padding.length);
 
-  // Determine where the audio data starts
-  let audioDataStart = 0;
-  if (isID3v2(dataView)) {
-    // If there's an existing ID3v2 tag, skip it
-    const existingSize = getSynchsafeInt(dataView, 6);
-    audioDataStart = 10 + existingSize;
-  }
-
-  // Combine header, frames, and audio data
-  const audioData = inputData.slice(audioDataStart);
-  return concatUint8Arrays([id3Header, combinedFrames, audioData]);
+  // Combine header, frames, padding and audio data
+  const audioData = inputData.slice(oldTagSize);
+  return concatUint8Arrays([id3Header, combinedFrames, padding, audioData]);
 }
 
 /**
- * Create a TXXX frame for custom metadata
- * @param description Field description
- * @param value Field value
- * @returns Uint8Array containing the TXXX frame
+ * Remove the unsynchronisation scheme, a null byte inserted after each 0xff
  */
-function createTXXXFrame(description: string, value: string): Uint8Array {
-  // Frame header: "TXXX" + size (4 bytes) + flags (2 bytes)
-  const frameHeader = new Uint8Array(10);
-  const frameId = "TXXX";
-  for (let i = 0; i < 4; i++) {
-    frameHeader[i] = frameId.charCodeAt(i);
+function removeUnsynchronisation(data: Uint8Array): Uint8Array {
+  const result: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    result.push(data[i]);
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
   }
+  return new Uint8Array(result);
+}
 
-  // Set encoding (UTF-8 = 0x03)
-  const encoding = new Uint8Array([0x03]);
+/**
+ * Parse ID3v1 tags from the buffer
+ * @param dataView DataView of the buffer
+ * @param metadata Object to populate with extracted metadata
+ */
+function parseID3v1(dataView: DataView, metadata: MediaMetadata): void {
+  const offset = dataView.byteLength - 128;
 
-  // Convert description and value to UTF-8 bytes
-  const descriptionBytes = new TextEncoder().encode(description);
-  const nullByte = new Uint8Array([0x00]);
-  const valueBytes = new TextEncoder().encode(value);
+  // ID3v1 has fixed field sizes
+  Object.entries(ID3V1_FIELDS)
+    .map(([key, [start, length]]) => [
+      key,
+      readString(dataView, offset + start, length),
+    ])
+    .filter(([, value]) => value)
+    .forEach(([key, value]) =>
+      metadata.entries.push({
+        key,
+        value,
+        origin: "ID3v1",
+        encoding: getMetadataEncoding(0, value),
+      }),
+    );
+}
 
-  // Calculate frame size (encoding + description + null + value)
-  const frameSize =
-    encoding.length +
-    descriptionBytes.length +
-    nullByte.length +
-    valueBytes.length;
+/**
+ * Leave out ID3v1 fields of keys that have ID3v2 frames, they are read with
+ * lower precedence and never written, e.g. the cut off title of a file whose
+ * metadata is written back as it was read
+ */
+function withoutShadowedID3v1(input: MetadataInput): MetadataInput {
+  if (!isMediaMetadata(input)) return input;
+  const id3v2Keys = new Set(
+    input.entries.filter((e) => e.origin !== "ID3v1").map((e) => e.key),
+  );
+  return {
+    entries: input.entries.filter(
+      (e) => e.origin !== "ID3v1" || !id3v2Keys.has(e.key),
+    ),
+  };
+}
 
-  // Set frame size (synchsafe integer for ID3v2.4)
-  setSynchsafeInt(frameHeader, 4, frameSize);
+/**
+ * Blank fields of the ID3v1 tag at the end of the data, in place
+ * @param data The MP3 file data
+ * @param keys The keys of the fields to blank
+ */
+function clearID3v1Fields(data: Uint8Array, keys: Set<string>): void {
+  const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (!hasID3v1(dataView)) return;
+  const offset = data.length - 128;
+  for (const [key, [start, length]] of Object.entries(ID3V1_FIELDS)) {
+    if (keys.has(key)) data.fill(0, offset + start, offset + start + length);
+  }
+}
 
-  // Combine all parts
-  return concatUint8Arrays([
-    frameHeader,
-    encoding,
-    descriptionBytes,
-    nullByte,
-    valueBytes,
-  ]);
+/**
+ * Create a TXXX frame for custom metadata
+ * @param description Field description
+ * @param value Field value
+ * @param version The ID3v2 major version
+ * @returns Uint8Array containing the TXXX frame
+ */
+function createTXXXFrame(
+  description: string,
+  value: string,
+  version: number,
+): Uint8Array {
+  const encoding = getTextEncoding(version);
+  return createFrame(
+    "TXXX",
+    concatUint8Arrays([
+      new Uint8Array([encoding]),
+      encodeText(description, encoding),
+      new Uint8Array(getTerminatorLength(encoding)),
+      encodeText(value, encoding),
+    ]),
+    version,
+  );
 }
 
 /**
  * Create a standard text frame
  * @param frameId Frame ID (e.g., "TIT2" for title)
  * @param value Frame value
+ * @param version The ID3v2 major version
  * @returns Uint8Array containing the frame
  */
-function createTextFrame(frameId: string, value: string): Uint8Array {
+function createTextFrame(
+  frameId: string,
+  value: string,
+  version: number,
+): Uint8Array {
+  const encoding = getTextEncoding(version);
+  return createFrame(
+    frameId,
+    concatUint8Arrays([
+      new Uint8Array([encoding]),
+      encodeText(value, encoding),
+    ]),
+    version,
+  );
+}
+
+/**
+ * Create a frame with the header of the given version
+ * @param frameId Frame ID
+ * @param data Frame content
+ * @param version The ID3v2 major version
+ * @param flags Frame flags
+ * @returns Uint8Array containing the frame
+ */
+function createFrame(
+  frameId: string,
+  data: Uint8Array,
+  version: number,
+  flags = 0,
+): Uint8Array {
   // Frame header: frameId + size (4 bytes) + flags (2 bytes)
   const frameHeader = new Uint8Array(10);
   for (let i = 0; i < 4; i++) {
     frameHeader[i] = frameId.charCodeAt(i);
   }
+  const headerView = new DataView(frameHeader.buffer);
+  if (version >= 4) {
+    // ID3v2.4 uses synchsafe integers
+    setSynchsafeInt(frameHeader, 4, data.length);
+  } else {
+    headerView.setUint32(4, data.length);
+  }
+  headerView.setUint16(8, flags);
+  return concatUint8Arrays([frameHeader, data]);
+}
 
-  // Set encoding (UTF-8 = 0x03)
-  const encoding = new Uint8Array([0x03]);
-
-  // Convert value to UTF-8 bytes
-  const valueBytes = new TextEncoder().encode(value);
-
-  // Calculate frame size (encoding + value)
-  const frameSize = encoding.length + valueBytes.length;
-
-  // Set frame size (synchsafe integer for ID3v2.4)
-  setSynchsafeInt(frameHeader, 4, frameSize);
+/**
+ * Text encoding for new frames: UTF-8 (0x03) in ID3v2.4, which ID3v2.3 does
+ * not have, UTF-16 with BOM (0x01) there
+ */
+function getTextEncoding(version: number): number {
+  return version >= 4 ? 0x03 : 0x01;
+}
 
-  // Combine all parts
-  return concatUint8Arrays([frameHeader, encoding, valueBytes]);
+/**
+ * Encode text with the given ID3v2 encoding byte, the inverse of decodeText
+ * Only UTF-8 and UTF-16 with BOM are written
+ */
+function encodeText(text: string, encoding: number): Uint8Array {
+  if (encoding !== 0x01) return new TextEncoder().encode(text);
+  const bytes = new Uint8Array(2 + text.length * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0xfeff, true); // BOM, little endian
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(2 + i * 2, text.charCodeAt(i), true);
+  }
+  return bytes;
 }
 
 /**
@@ -425,6 +674,61 @@ function readString(
   return result.trim();
 }
 
+/**
+ * Decode ID3v2 text according to its encoding byte
+ * @param bytes The encoded text
+ * @param encoding 0: ISO-8859-1, 1: UTF-16 with BOM, 2: UTF-16BE, 3: UTF-8
+ * @returns The decoded string
+ */
+function decodeText(bytes: Uint8Array, encoding: number): string {
+  switch (encoding) {
+    case 0:
+      // TextDecoder("latin1") is windows-1252, which differs in 0x80-0x9f
+      return Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+    case 1:
+      // defaults to little endian, the BOM is consumed by the decoder
+      return new TextDecoder(
+        bytes[0] === 0xfe && bytes[1] === 0xff ? "utf-16be" : "utf-16le",
+      ).decode(bytes);
+    case 2:
+      return new TextDecoder("utf-16be").decode(bytes);
+    default:
+      return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+/**
+ * Name of an ID3v2 encoding byte, ISO-8859-1 text without non-ASCII
+ * characters is reported as ascii
+ */
+function getMetadataEncoding(encoding: number, text: string): MetadataEncoding {
+  if (encoding === 0)
+    return detectTextEncoding(text) === "ascii" ? "ascii" : "latin1";
+  return (
+    (["latin1", "utf-16", "utf-16be", "utf-8"] as const)[encoding] ?? "utf-8"
+  );
+}
+
+/**
+ * Size of the null terminator in the given text encoding
+ */
+function getTerminatorLength(encoding: number): number {
+  return encoding === 1 || encoding === 2 ? 2 : 1;
+}
+
+/**
+ * Find the null terminator of a text field, UTF-16 terminators are two null
+ * bytes at an even position
+ * @returns The index of the terminator, or the length when there is none
+ */
+function findTextTerminator(bytes: Uint8Array, encoding: number): number {
+  const step = getTerminatorLength(encoding);
+  for (let i = 0; i + step <= bytes.length; i += step) {
+    if (bytes[i] === 0 && (step === 1 || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+}
+
 /**
  * Read a 28-bit synchsafe integer from the buffer
  * @param dataView DataView to read from
@@ -497,7 +801,7 @@ function mapFrameIDToKey(frameId: string): string {
     TXXX: "userDefined",
   };
 
-  return mapping[frameId] || frameId;
+  return Object.hasOwn(mapping, frameId) ? mapping[frameId] : frameId;
 }
 
 /**
@@ -517,25 +821,5 @@ function mapKeyToFrameID(key: string): string | null {
     cover: "APIC",
   };
 
-  return mapping[key] || null;
-}
-
-/**
- * Check if a field name is a standard ID3 field
- * @param key Field name to check
- * @returns Boolean indicating if it's a standard field
- */
-function isStandardID3Field(key: string): boolean {
-  const standardFields = [
-    "title",
-    "artist",
-    "album",
-    "year",
-    "date",
-    "genre",
-    "comment",
-    "cover",
-  ];
-
-  return standardFields.includes(key.toLowerCase());
+  return Object.hasOwn(mapping, key) ? mapping[key] : null;
 }
@@ -1,3 +1,5 @@
+import { detectContentType } from "@/app/api/media/detectContentType";
+import { NotThisFormatError } from "@/app/utils/codec-errors";
 import { getMp4Metadata, setMp4Metadata } from "@/app/utils/exif-mp4";
 import { glob } from "glob";
 
@@ -35,8 +37,7 @@ test("invalid MP4 files throw errors", async () => {
   // Create a non-MP4 file for testing
   const invalidData = new Uint8Array([0, 1, 2, 3]);
 
-  // Verify it doesn't throw an error but returns empty object
-  expect(getMp4Metadata(invalidData)).toEqual({});
+  expect(() => getMp4Metadata(invalidData)).toThrow(NotThisFormatError);
 });
 
 test("set and get workflow data", async () => {
@@ -102,3 +103,210 @@ test("handle large workflow data", async () => {
     console.warn("No MP4 sample files found for testing large workflow data");
   }
 });
+
+test("extract QuickTime and M4A workflow", async () => {
+  // ComfyUI.mov keeps it in a QuickTime moov/meta atom, ComfyUI.m4a in udta/meta
+  const files = await glob("./tests/mp4/ComfyUI.{mov,m4a}");
+  expect(files.length).toBe(2);
+
+  for await (const filename of files) {
+    const metadata = getMp4Metadata(await Bun.file(filename).arrayBuffer());
+    const reference = await Bun.file(filename + ".workflow.json").json();
+    expect(JSON.stringify(JSON.parse(metadata.workflow))).toEqual(
+      JSON.stringify(reference),
+    );
+    expect(metadata.prompt).toBeDefined();
+  }
+});
+
+describe("set workflow in MP4 siblings", async () => {
+  const expectedTypes: Record<string, string> = {
+    mov: "video/quicktime",
+    m4a: "audio/mp4",
+    m4v: "video/x-m4v",
+  };
+  const files = await glob("./tests/mp4/*.{mov,m4a,m4v}");
+  expect(files.length).toBeGreaterThanOrEqual(3);
+
+  for (const filename of files) {
+    const extension = filename.split(".").pop()!;
+
+    it(`should detect the ftyp brand of ${filename}`, async () => {
+      const buffer = await Bun.file(filename).arrayBuffer();
+      expect(await detectContentType(buffer)).toBe(expectedTypes[extension]);
+    });
+
+    it(`should round-trip workflow for ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+
+      const newWorkflow = '{"test":"hello, snomiao"}';
+      const buffer = setMp4Metadata(original, { workflow: newWorkflow });
+      const metadata = getMp4Metadata(buffer);
+      expect(metadata.workflow).toBe(newWorkflow);
+
+      // other keys are kept
+      const originalMetadata = getMp4Metadata(original);
+      for (const key of Object.keys(originalMetadata)) {
+        if (key !== "workflow")
+          expect(metadata[key]).toBe(originalMetadata[key]);
+      }
+
+      // the brand is untouched, so the file is still detected the same way
+      expect(await detectContentType(buffer.slice().buffer)).toBe(
+        expectedTypes[extension],
+      );
+    });
+  }
+});
+
+describe("chunk offsets of moov-first files", () => {
+  it("should keep sample offsets pointing at the same bytes", async () => {
+    const original = new Uint8Array(
+      await Bun.file("./tests/mp4/faststart.mp4").arrayBuffer(),
+    );
+    const buffer = setMp4Metadata(original.slice().buffer, {
+      workflow: JSON.stringify({ test: "x".repeat(5000) }),
+    });
+
+    const before = readSamples(original);
+    const after = readSamples(buffer);
+    expect(before.length).toBe(2);
+    expect(after.map((e) => e.type)).toEqual(["stco", "stco"]);
+    // moov grew in front of mdat
+    expect(after[0].offsets[0]).toBeGreaterThan(before[0].offsets[0]);
+    expect(after.map((e) => e.samples)).toEqual(before.map((e) => e.samples));
+
+    // and shrinks back
+    const buffer2 = setMp4Metadata(buffer.slice().buffer, { workflow: "{}" });
+    expect(readSamples(buffer2).map((e) => e.samples)).toEqual(
+      before.map((e) => e.samples),
+    );
+  });
+
+  it("should promote stco to co64 when offsets overflow", async () => {
+    const original = new Uint8Array(
+      await Bun.file("./tests/mp4/faststart.mp4").arrayBuffer(),
+    );
+    // pretend the last chunk of the first track lives near the 4GB boundary
+    const stco = findBoxOffset(original, "stco");
+    const view = new DataView(original.buffer);
+    const count = view.getUint32(stco + 12);
+    view.setUint32(stco + 16 + (count - 1) * 4, 0xfffffff0);
+
+    const buffer = setMp4Metadata(original.slice().buffer, {
+      workflow: '{"test":"hello, snomiao"}',
+    });
+    const [video, audio] = readChunkOffsets(buffer);
+    expect(video.type).toBe("co64");
+    expect(audio.type).toBe("stco");
+
+    // every offset moved by the same amount, including the promoted ones
+    const delta = audio.offsets[0] - readChunkOffsets(original)[1].offsets[0];
+    expect(delta).toBeGreaterThan(0);
+    expect(video.offsets[count - 1]).toBe(0xfffffff0 + delta);
+    expect(getMp4Metadata(buffer).workflow).toBe('{"test":"hello, snomiao"}');
+  });
+});
+
+/**
+ * Read chunk offset tables of every track, independent from the codec
+ */
+function readChunkOffsets(mp4: Uint8Array) {
+  const view = new DataView(mp4.buffer, mp4.byteOffset, mp4.byteLength);
+  const tables: { type: string; offsets: number[]; sizes: number[] }[] = [];
+  const walk = (start: number, end: number) => {
+    for (let offset = start; offset + 8 <= end;) {
+      const size = view.getUint32(offset);
+      const type = new TextDecoder().decode(mp4.slice(offset + 4, offset + 8));
+      if (["moov", "trak", "mdia", "minf"].includes(type)) {
+        walk(offset + 8, offset + size);
+      } else if (type === "stbl") {
+        tables.push({ type: "", offsets: [], sizes: [] });
+        walk(offset + 8, offset + size);
+      } else if (type === "stco" || type === "co64") {
+        const table = tables[tables.length - 1];
+        table.type = type;
+        const count = view.getUint32(offset + 12);
+        for (let i = 0; i < count; i++) {
+          table.offsets.push(
+            type === "stco"
+              ? view.getUint32(offset + 16 + i * 4)
+              : Number(view.getBigUint64(offset + 16 + i * 8)),
+          );
+        }
+      } else if (type === "stsz") {
+        const table = tables[tables.length - 1];
+        const count = view.getUint32(offset + 16);
+        for (let i = 0; i < count; i++) {
+          table.sizes.push(view.getUint32(offset + 20 + i * 4));
+        }
+      }
+      offset += size;
+    }
+  };
+  walk(0, mp4.length);
+  return tables;
+}
+
+/**
+ * Read the sample bytes of every track, fixtures store one sample per chunk
+ */
+function readSamples(mp4: Uint8Array) {
+  return readChunkOffsets(mp4).map(({ type, offsets, sizes }) => ({
+    type,
+    offsets,
+    samples: offsets.map((offset, i) => mp4.slice(offset, offset + sizes[i])),
+  }));
+}
+
+function findBoxOffset(mp4: Uint8Array, type: string) {
+  const pattern = new TextEncoder().encode(type);
+  const index = mp4.findIndex((_, i) =>
+    pattern.every((e, j) => mp4[i + j] === e),
+  );
+  return index - 4;
+}
+
+describe("in-place edits with free padding", () => {
+  it("should reuse the padding after udta without moving mdat", async () => {
+    const original = new Uint8Array(
+      await Bun.file("./tests/mp4/faststart.mp4").arrayBuffer(),
+    );
+    // the first save adds udta and reserves a free box after it
+    const buffer1 = setMp4Metadata(original.slice().buffer, {
+      workflow: '{"version":1}',
+    });
+    expect(buffer1.length).toBeGreaterThan(original.length);
+
+    const buffer2 = setMp4Metadata(buffer1.slice().buffer, {
+      workflow: JSON.stringify({ version: 2, text: "x".repeat(1000) }),
+    });
+    expect(getMp4Metadata(buffer2).workflow).toContain('"version":2');
+
+    // same size, chunk offsets untouched, everything from mdat on is unchanged
+    expect(buffer2.length).toBe(buffer1.length);
+    expect(readChunkOffsets(buffer2)).toEqual(readChunkOffsets(buffer1));
+    const mdat = findBoxOffset(buffer1, "mdat");
+    expect(findBoxOffset(buffer2, "mdat")).toBe(mdat);
+    expect(buffer2.slice(mdat)).toEqual(buffer1.slice(mdat));
+  });
+
+  it("should grow again when the padding is too small", async () => {
+    const original = new Uint8Array(
+      await Bun.file("./tests/mp4/faststart.mp4").arrayBuffer(),
+    );
+    const buffer1 = setMp4Metadata(original.slice().buffer, {
+      workflow: '{"version":1}',
+    });
+    const largeWorkflow = JSON.stringify({ test: "x".repeat(20000) });
+    const buffer2 = setMp4Metadata(buffer1.slice().buffer, {
+      workflow: largeWorkflow,
+    });
+
+    expect(getMp4Metadata(buffer2).workflow).toBe(largeWorkflow);
+    expect(buffer2.length).toBeGreaterThan(buffer1.length);
+    expect(readSamples(buffer2).map((e) => e.samples)).toEqual(
+      readSamples(original).map((e) => e.samples),
+    );
+  });
+});
@@ -1,3 +1,17 @@
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  TruncatedError,
+} from "./codec-errors";
+import {
+  detectTextEncoding,
+  MediaMetadata,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
+
 /**
  * Functions for handling metadata in MP4 files
  * @author GitHub Copilot
@@ -14,27 +28,70 @@
 export function getMp4Metadata(
   input: Uint8Array | ArrayBuffer,
 ): Record<string, string> {
+  return toMetadataRecord(getMp4MediaMetadata(input));
+}
+
+/**
+ * Get the metadata entries of an MP4 file in box order
+ *
+ * @param input The MP4 file buffer as Uint8Array or ArrayBuffer
+ * @returns The metadata entries, origin is the type of the box holding the value
+ */
+export function getMp4MediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
   const buffer = input instanceof Uint8Array ? input : new Uint8Array(input);
   const dataView = new DataView(
     buffer.buffer,
     buffer.byteOffset,
     buffer.byteLength,
   );
-  const metadata: Record<string, string> = {};
+  const metadata: MediaMetadata = { entries: [] };
 
-  try {
-    // Verify this is an MP4 file by checking for the 'ftyp' box at the beginning
-    if (!hasFtypBox(dataView)) {
-      throw new Error("Not a valid MP4 file");
-    }
+  // Verify this is an MP4 file by checking the box at the beginning
+  if (!isIsoBmff(dataView))
+    throw new NotThisFormatError("mp4", "Not a valid MP4 file");
 
-    // Parse the MP4 boxes to find metadata
-    parseBoxes(dataView, 0, dataView.byteLength, metadata);
-    return metadata;
-  } catch (error) {
-    console.error("Error extracting MP4 metadata:", error);
-    return {};
+  // Parse the MP4 boxes to find metadata
+  parseBoxes(dataView, 0, dataView.byteLength, metadata);
+  return metadata;
+}
+
+/**
+ * Get the media data of an MP4 file, which metadata edits never change
+ *
+ * @param input The MP4 file buffer as Uint8Array or ArrayBuffer
+ * @returns The content of the top-level 'mdat' boxes in order
+ * @throws Error if the input is not a valid MP4 file
+ */
+export function getMp4Payload(input: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const buffer = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const dataView = new DataView(
+    buffer.buffer,
+    buffer.byteOffset,
+    buffer.byteLength,
+  );
+  if (!isIsoBmff(dataView))
+    throw new NotThisFormatError("mp4", "Not a valid MP4 file");
+
+  const payload: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + 8 <= buffer.length) {
+    let headerSize = 8;
+    let size = dataView.getUint32(offset);
+    if (size === 1 && offset + 16 <= buffer.length) {
+      // Large size (64-bit)
+      size = Number(dataView.getBigUint64(offset + 8));
+      headerSize = 16;
+    }
+    if (size === 0) size = buffer.length - offset;
+    if (size < headerSize) break;
+    const type = String.fromCharCode(...buffer.slice(offset + 4, offset + 8));
+    if (type === "mdat")
+      payload.push(buffer.slice(offset + headerSize, offset + size));
+    offset += size;
   }
+  return payload;
 }
 
 /**
@@ -43,47 +100,70 @@ export function getMp4Metadata(
  *
  * @param buffer The MP4 file buffer
  * @param metadata The metadata to set or update (existing fields with the same keys will be updated)
+ * @param options.remove Keys to delete from the udta box and the moov level 'meta' box
  * @returns The modified MP4 file buffer with updated metadata
  * @throws Error if the input is not a valid MP4 file
  */
 export function setMp4Metadata(
   buffer: ArrayBuffer,
-  metadata: Record<string, string>,
+  input: MetadataInput,
+  { remove = [] }: MetadataWriteOptions = {},
 ): Uint8Array {
+  const metadata = toSingleValueRecord(input, "mp4");
+  const removed = new Set(
+    remove.filter((key) => !Object.hasOwn(metadata, key)),
+  );
   const inputData = new Uint8Array(buffer);
   const dataView = new DataView(buffer);
 
-  try {
-    // Verify this is an MP4 file
-    if (!hasFtypBox(dataView)) {
-      throw new Error("Not a valid MP4 file");
-    }
+  // Verify this is an MP4 file
+  if (!isIsoBmff(dataView))
+    throw new NotThisFormatError("mp4", "Not a valid MP4 file");
 
-    // Create a new buffer with the metadata
-    return injectMetadata(inputData, dataView, metadata);
-  } catch (error) {
-    console.error("Error setting MP4 metadata:", error);
-    throw error;
-  }
+  // Create a new buffer with the metadata
+  return injectMetadata(inputData, dataView, metadata, removed);
 }
 
 /**
- * Check if the file has an 'ftyp' box at the beginning (required for MP4 files)
+ * Check if the file starts like an ISO base media file
+ * MP4, M4A and M4V files start with an 'ftyp' box, QuickTime .mov files
+ * may also start with 'moov', 'mdat' or padding atoms instead
  * @param dataView DataView of the buffer to check
- * @returns boolean indicating if the 'ftyp' signature is present
+ * @returns boolean indicating if the first box is a known top-level box
  */
-function hasFtypBox(dataView: DataView): boolean {
+function isIsoBmff(dataView: DataView): boolean {
   // MP4 files start with a box that's at least 8 bytes
   if (dataView.byteLength < 8) {
     return false;
   }
 
-  // Get the bytes at positions 4-7 which should be 'ftyp'
+  // Get the bytes at positions 4-7 which hold the first box type
   const bytes = new Uint8Array(dataView.buffer, dataView.byteOffset + 4, 4);
 
   // Convert to string and check
   const typeStr = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
-  return typeStr === "ftyp";
+  return ["ftyp", "moov", "mdat", "wide", "free", "skip", "pnot"].includes(
+    typeStr,
+  );
+}
+
+/**
+ * Get the offset of the first child box of a 'meta' box
+ * ISO 'meta' boxes are full boxes with a 4-byte version/flags field, while
+ * QuickTime 'meta' atoms start with the 'hdlr' child right after the header
+ * @param dataView DataView of the MP4 buffer
+ * @param offset Offset of the meta box
+ * @returns Offset of the first child box
+ */
+function getMetaChildrenOffset(dataView: DataView, offset: number): number {
+  if (offset + 16 > dataView.byteLength) return offset + 12;
+  const type = String.fromCharCode(
+    dataView.getUint8(offset + 12),
+    dataView.getUint8(offset + 13),
+    dataView.getUint8(offset + 14),
+    dataView.getUint8(offset + 15),
+  );
+  return type === "hdlr" ? offset + 8 : offset + 12;
 }
 
 /**
@@ -100,7 +180,7 @@ function parseBoxes(
   dataView: DataView,
   start: number,
   end: number,
-  metadata: Record<string, string>,
+  metadata: MediaMetadata,
 ) {
   let offset = start;
 
@@ -142,8 +222,12 @@ function parseBoxes(
     }
 
     if (offset + boxSize > end) {
-      // Box size extends beyond the buffer
-      break;
+      // a cut off 'mdat' holds no metadata, e.g. a partial download
+      if (type === "mdat") break;
+      throw new TruncatedError("mp4", `'${type}' box exceeds its parent`, {
+        offset,
+        context: { type, size: boxSize },
+      });
     }
 
     // Process different box types
@@ -160,11 +244,11 @@ function parseBoxes(
       );
     } else if (type === "meta") {
       // 'meta' box contains metadata
-      // It has a 4-byte version/flags field after the header
+      // It has a 4-byte version/flags field after the header, except in QuickTime
       if (offset + headerSize + 4 <= end) {
         parseMetaBox(
           dataView,
-          offset + headerSize + 4,
+          getMetaChildrenOffset(dataView, offset),
           offset + boxSize,
           metadata,
         );
@@ -172,7 +256,14 @@ function parseBoxes(
     } else if (type === "uuid") {
       // Custom box with 16-byte UUID after the header
       if (offset + headerSize + 16 <= end) {
-        parseUuidBox(dataView, offset + headerSize, offset + boxSize, metadata);
+        readMetadataBox(type, offset, () =>
+          parseUuidBox(
+            dataView,
+            offset + headerSize,
+            offset + boxSize,
+            metadata,
+          ),
+        );
       }
     }
 
@@ -197,7 +288,7 @@ function parseUserDataBox(
   dataView: DataView,
   start: number,
   end: number,
-  metadata: Record<string, string>,
+  metadata: MediaMetadata,
 ) {
   let offset = start;
 
@@ -231,7 +322,7 @@ function parseUserDataBox(
     // Look for custom 'wflo' (workflow) box or standard metadata atoms like '©nam'
     if (type === "wflo" && offset + 12 < end) {
       // Extract workflow data (skip 8 bytes for header, 4 bytes for version/flags)
-      try {
+      readMetadataBox(type, offset, () => {
         const dataOffset = offset + 12;
         const dataLength = boxSize - 12;
 
@@ -240,20 +331,28 @@ function parseUserDataBox(
           dataView.byteOffset + dataOffset,
           dataLength,
         );
-        metadata.workflow = new TextDecoder().decode(workflowData).trim();
-      } catch (e) {
-        console.error("Error parsing workflow data:", e);
-      }
+        addTextEntry(
+          metadata,
+          "workflow",
+          new TextDecoder().decode(workflowData).trim(),
+          type,
+        );
+      });
     } else if (type === "meta" && offset + 12 < end) {
       // Found a meta box inside udta - parse it
-      // Meta box has 4-byte version/flags after header
-      parseMetaBox(dataView, offset + 12, offset + boxSize, metadata);
+      // Meta box has 4-byte version/flags after header, except in QuickTime
+      parseMetaBox(
+        dataView,
+        getMetaChildrenOffset(dataView, offset),
+        offset + boxSize,
+        metadata,
+      );
     }
 
     // Handle other common metadata atoms
     if (type.startsWith("©") && offset + 12 < end) {
       // Handle standard iTunes metadata atoms
-      try {
+      readMetadataBox(type, offset, () => {
         const dataOffset = offset + 12; // Skip header and version/flags
         const dataLength = boxSize - 12;
         if (dataLength > 0) {
@@ -263,11 +362,14 @@ function parseUserDataBox(
             dataLength,
           );
           const key = type.substring(1); // Remove © prefix
-          metadata[key] = new TextDecoder().decode(textData).trim();
+          addTextEntry(
+            metadata,
+            key,
+            new TextDecoder().decode(textData).trim(),
+            type,
+          );
         }
-      } catch (e) {
-        console.error(`Error parsing metadata atom ${type}:`, e);
-      }
+      });
     }
 
     offset += boxSize;
@@ -290,7 +392,7 @@ function parseMetaBox(
   dataView: DataView,
   start: number,
   end: number,
-  metadata: Record<string, string>,
+  metadata: MediaMetadata,
 ) {
   let offset = start;
   let keysMap: Record<number, string> = {};
@@ -322,7 +424,7 @@ function parseMetaBox(
 
     // Process the keys box to build a map of key indices to names
     if (type === "keys") {
-      try {
+      readMetadataBox(type, offset, () => {
         // Keys box has: version/flags (4) + entry count (4) + key entries
         if (offset + 16 <= end) {
           const entryCount = dataView.getUint32(offset + 12);
@@ -350,9 +452,7 @@ function parseMetaBox(
             keyOffset += keySize;
           }
         }
-      } catch (e) {
-        console.error("Error parsing keys box:", e);
-      }
+      });
     } else if (type === "ilst") {
       ilstOffset = offset;
     }
@@ -412,7 +512,7 @@ function parseMetaBox(
               // Get the key name for this item and store the metadata
               const keyName = keysMap[itemCount];
               if (keyName) {
-                metadata[keyName] = textValue;
+                addTextEntry(metadata, keyName, textValue, "ilst");
               }
             }
           }
@@ -438,7 +538,7 @@ function parseUuidBox(
   dataView: DataView,
   start: number,
   end: number,
-  metadata: Record<string, string>,
+  metadata: MediaMetadata,
 ) {
   // Check for Hanzo Studio workflow UUID
   // Using a generic UUID for demonstration
@@ -472,23 +572,58 @@ function parseUuidBox(
 
   if (isWorkflowUuid) {
     // This is our workflow UUID box, extract the data
-    try {
-      const dataOffset = start + 16; // Skip UUID
-      const dataLength = end - dataOffset;
-      if (dataLength > 0) {
-        const workflowData = new Uint8Array(
-          dataView.buffer,
-          dataOffset,
-          dataLength,
-        );
-        metadata.workflow = new TextDecoder().decode(workflowData).trim();
-      }
-    } catch (e) {
-      console.error("Error parsing workflow data from UUID box:", e);
+    const dataOffset = start + 16; // Skip UUID
+    const dataLength = end - dataOffset;
+    if (dataLength > 0) {
+      const workflowData = new Uint8Array(
+        dataView.buffer,
+        dataView.byteOffset + dataOffset,
+        dataLength,
+      );
+      addTextEntry(
+        metadata,
+        "workflow",
+        new TextDecoder().decode(workflowData).trim(),
+        "uuid",
+      );
     }
   }
 }
 
+/**
+ * Run the reader of a metadata box, errors point at the box
+ * @param type The box type
+ * @param offset The offset of the box header
+ */
+function readMetadataBox(type: string, offset: number, read: () => void) {
+  try {
+    read();
+  } catch (error) {
+    throw new CorruptStructureError("mp4", `Can not read the '${type}' box`, {
+      offset,
+      context: { type },
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Add a UTF-8 text value read from the given box type
+ */
+function addTextEntry(
+  metadata: MediaMetadata,
+  key: string,
+  value: string,
+  origin: string,
+) {
+  metadata.entries.push({
+    key,
+    value,
+    origin,
+    encoding: detectTextEncoding(value),
+  });
+}
+
 /**
  * Inject metadata into the MP4 file
  * This function locates the 'moov' box and adds/updates metadata within it
@@ -503,6 +638,7 @@ function injectMetadata(
   inputData: Uint8Array,
   dataView: DataView,
   newMetadata: Record<string, string>,
+  removed: Set<string>,
 ): Uint8Array {
   // We'll use a strategy that involves:
   // 1. Locating the 'moov' box
@@ -512,7 +648,7 @@ function injectMetadata(
 
   const moovInfo = findBox(dataView, 0, dataView.byteLength, "moov");
   if (!moovInfo) {
-    throw new Error("No 'moov' box found in MP4 file");
+    throw new CorruptStructureError("mp4", "No 'moov' box found in MP4 file");
   }
 
   // Build output with our modified moov box
@@ -526,8 +662,21 @@ function injectMetadata(
     moovInfo.offset,
     moovInfo.offset + moovInfo.size,
   );
-  const modifiedMoov = injectMetadataIntoMoov(moovData, newMetadata);
-  parts.push(modifiedMoov);
+  const modifiedMoov = injectMetadataIntoMoov(moovData, newMetadata, removed);
+
+  // Media data after the moov box moves by the size change, so the chunk
+  // offsets have to follow. Promoting stco to co64 grows the moov box again,
+  // repeat until the size is stable.
+  const moovEnd = moovInfo.offset + moovInfo.size;
+  let delta = modifiedMoov.length - moovInfo.size;
+  let finalMoov = modifiedMoov;
+  while (delta !== 0) {
+    finalMoov = updateChunkOffsets(modifiedMoov, moovEnd, delta);
+    const newDelta = finalMoov.length - moovInfo.size;
+    if (newDelta === delta) break;
+    delta = newDelta;
+  }
+  parts.push(finalMoov);
 
   // Add data after the moov box
   parts.push(inputData.slice(moovInfo.offset + moovInfo.size));
@@ -536,6 +685,74 @@ function injectMetadata(
   return concatenateUint8Arrays(parts);
 }
 
+/**
+ * Shift the chunk offsets of every track that point at or after `from`
+ * Walks moov > trak > mdia > minf > stbl and rewrites 'stco' and 'co64' boxes,
+ * 'stco' is promoted to 'co64' when an offset no longer fits in 32 bits.
+ *
+ * @param box The box to rewrite, starting with the moov box
+ * @param from File offset from which media data moves
+ * @param delta Number of bytes the media data moves
+ * @returns The rewritten box
+ */
+function updateChunkOffsets(
+  box: Uint8Array,
+  from: number,
+  delta: number,
+): Uint8Array {
+  const dataView = new DataView(box.buffer, box.byteOffset, box.byteLength);
+  const type = String.fromCharCode(...box.slice(4, 8));
+  const headerSize = dataView.getUint32(0) === 1 ? 16 : 8;
+
+  if (type === "stco" || type === "co64") {
+    const entryCount = dataView.getUint32(headerSize + 4);
+    const offsets: number[] = [];
+    for (let i = 0; i < entryCount; i++) {
+      const offset =
+        type === "stco"
+          ? dataView.getUint32(headerSize + 8 + i * 4)
+          : Number(dataView.getBigUint64(headerSize + 8 + i * 8));
+      offsets.push(offset >= from ? offset + delta : offset);
+    }
+
+    const use64 = type === "co64" || offsets.some((e) => e > 0xffffffff);
+    const entrySize = use64 ? 8 : 4;
+    const newBox = new Uint8Array(16 + entryCount * entrySize);
+    const newView = new DataView(newBox.buffer);
+    newView.setUint32(0, newBox.length);
+    newBox.set(new TextEncoder().encode(use64 ? "co64" : "stco"), 4);
+    newBox.set(box.slice(headerSize, headerSize + 4), 8); // version and flags
+    newView.setUint32(12, entryCount);
+    offsets.forEach((offset, i) => {
+      if (use64) newView.setBigUint64(16 + i * 8, BigInt(offset));
+      else newView.setUint32(16 + i * 4, offset);
+    });
+    return newBox;
+  }
+
+  if (!["moov", "trak", "mdia", "minf", "stbl"].includes(type)) return box;
+
+  // Rebuild the container with its rewritten children
+  const children: Uint8Array[] = [];
+  let offset = headerSize;
+  while (offset + 8 <= box.length) {
+    let childSize = dataView.getUint32(offset);
+    if (childSize === 1) childSize = Number(dataView.getBigUint64(offset + 8));
+    if (childSize === 0 || offset + childSize > box.length)
+      childSize = box.length - offset;
+    children.push(
+      updateChunkOffsets(box.slice(offset, offset + childSize), from, delta),
+    );
+    offset += childSize;
+  }
+
+  const contentSize = children.reduce((sum, e) => sum + e.length, 0);
+  const header = new Uint8Array(8);
+  new DataView(header.buffer).setUint32(0, 8 + contentSize);
+  header.set(box.slice(4, 8), 4);
+  return concatenateUint8Arrays([header, ...children]);
+}
+
 /**
  * Find a box of the specified type in the MP4 file
  * @param dataView DataView of the MP4 buffer to search
@@ -544,7 +761,7 @@ function injectMetadata(
  * @param targetType Four-character type of box to find (e.g., 'moov', 'udta')
  * @returns Object with offset and size of the found box, or null if not found
  */
-function findBox(
+export function findBox(
   dataView: DataView,
   start: number,
   end: number,
@@ -598,12 +815,37 @@ function findBox(
  *
  * @param moovData The original moov box data
  * @param newMetadata The metadata to add or update
+ * @param removed The keys to delete
  * @returns The modified moov box data
  */
 function injectMetadataIntoMoov(
   moovData: Uint8Array,
   newMetadata: Record<string, string>,
+  removed: Set<string>,
 ): Uint8Array {
+  // QuickTime keeps keys in a 'meta' box directly inside moov, new keys
+  // still go to udta, but removed keys have to go from there too
+  const moovMeta = removed.size
+    ? findBox(
+        new DataView(moovData.buffer, moovData.byteOffset, moovData.byteLength),
+        8,
+        moovData.byteLength,
+        "meta",
+      )
+    : null;
+  if (moovMeta) {
+    const newMeta = removeMetaBoxKeys(
+      moovData.slice(moovMeta.offset, moovMeta.offset + moovMeta.size),
+      removed,
+    );
+    moovData = concatenateUint8Arrays([
+      moovData.slice(0, moovMeta.offset),
+      newMeta ?? new Uint8Array(0),
+      moovData.slice(moovMeta.offset + moovMeta.size),
+    ]);
+    new DataView(moovData.buffer).setUint32(0, moovData.byteLength);
+  }
+
   const dataView = new DataView(
     moovData.buffer,
     moovData.byteOffset,
@@ -643,7 +885,7 @@ function injectMetadataIntoMoov(
       );
 
       // Skip meta header (8) and version/flags (4)
-      const metaOffset = 12;
+      const metaOffset = getMetaChildrenOffset(metaView, 0);
       const metaEnd = metaData.byteLength;
 
       // Find the 'keys' box to map indices to key names
@@ -812,17 +1054,40 @@ function injectMetadataIntoMoov(
       offset += size;
     }
 
-    // Modify existing udta box
+    // Modify existing udta box, 'free'/'skip' boxes right after it are
+    // padding reserved by earlier saves and can be reused
+    let paddingEnd = udtaInfo.offset + udtaInfo.size;
+    while (paddingEnd + 8 <= moovData.byteLength) {
+      const type = String.fromCharCode(
+        ...moovData.slice(paddingEnd + 4, paddingEnd + 8),
+      );
+      const size = dataView.getUint32(paddingEnd);
+      if (type !== "free" && type !== "skip") break;
+      if (size < 8 || paddingEnd + size > moovData.byteLength) break;
+      paddingEnd += size;
+    }
     const beforeUdta = moovData.slice(0, udtaInfo.offset);
-    const afterUdta = moovData.slice(udtaInfo.offset + udtaInfo.size);
+    const afterUdta = moovData.slice(paddingEnd);
 
     // Merge existing metadata with new metadata (new ones take precedence)
     const mergedMetadata = { ...existingMetadata };
     for (const key in newMetadata) {
       mergedMetadata[key] = newMetadata[key];
     }
-
-    const modifiedUdta = createUdtaBox(mergedMetadata);
+    removed.forEach((key) => delete mergedMetadata[key]);
+
+    const newUdta = createUdtaBox(mergedMetadata);
+
+    // Keep the moov size when the new udta fits into the old one and its
+    // padding, so media data after moov does not move
+    const available = paddingEnd - udtaInfo.offset;
+    const remaining = available - newUdta.length;
+    const modifiedUdta = concatenateUint8Arrays([
+      newUdta,
+      remaining === 0
+        ? new Uint8Array(0)
+        : createFreeBox(remaining >= 8 ? remaining : getFreePadding(newUdta)),
+    ]);
 
     // Update moov box size
     const newMoovSize =
@@ -838,8 +1103,16 @@ function injectMetadataIntoMoov(
       afterUdta,
     ]);
   } else {
-    // Create a new udta box and append it to moov
-    const udtaBox = createUdtaBox(newMetadata);
+    // Nothing to add, e.g. when only removing keys
+    if (!Object.keys(newMetadata).length) return moovData;
+
+    // Create a new udta box and append it to moov, followed by padding for
+    // later saves
+    const newUdta = createUdtaBox(newMetadata);
+    const udtaBox = concatenateUint8Arrays([
+      newUdta,
+      createFreeBox(getFreePadding(newUdta)),
+    ]);
 
     // Update moov box size
     const newMoovSize = moovData.byteLength + udtaBox.byteLength;
@@ -855,6 +1128,122 @@ function injectMetadataIntoMoov(
   }
 }
 
+/**
+ * Remove keys from a 'meta' box holding 'keys' and 'ilst' boxes
+ * The key entries and their items are dropped, the remaining items are
+ * renumbered to their new key index. Other children (like 'hdlr') are kept.
+ *
+ * @param metaBox The meta box including its header
+ * @param removed The keys to remove
+ * @returns The new meta box, or null if no keys are left
+ */
+function removeMetaBoxKeys(
+  metaBox: Uint8Array,
+  removed: Set<string>,
+): Uint8Array | null {
+  const dataView = new DataView(
+    metaBox.buffer,
+    metaBox.byteOffset,
+    metaBox.byteLength,
+  );
+  const childrenOffset = getMetaChildrenOffset(dataView, 0);
+  const children: Uint8Array[] = [];
+  let offset = childrenOffset;
+  while (offset + 8 <= metaBox.byteLength) {
+    const size = dataView.getUint32(offset) || metaBox.byteLength - offset;
+    if (size < 8 || offset + size > metaBox.byteLength) break;
+    children.push(metaBox.slice(offset, offset + size));
+    offset += size;
+  }
+  const getType = (box: Uint8Array) => String.fromCharCode(...box.slice(4, 8));
+  const keysIndex = children.findIndex((e) => getType(e) === "keys");
+  const ilstIndex = children.findIndex((e) => getType(e) === "ilst");
+  if (keysIndex === -1) return metaBox;
+
+  // keys: header (8) + version/flags (4) + entry count (4) + key entries
+  const keys = children[keysIndex];
+  const keysView = new DataView(keys.buffer);
+  const entryCount = keysView.getUint32(12);
+  const keyEntries: Uint8Array[] = [];
+  const kept: boolean[] = [];
+  let keyOffset = 16;
+  for (let i = 0; i < entryCount && keyOffset + 8 <= keys.length; i++) {
+    const keySize = keysView.getUint32(keyOffset);
+    if (keySize < 8) break;
+    const entry = keys.slice(keyOffset, keyOffset + keySize);
+    // key entry: size (4) + namespace (4) + name
+    const keyName = new TextDecoder().decode(entry.slice(8)).trim();
+    kept.push(!removed.has(keyName));
+    if (!removed.has(keyName)) keyEntries.push(entry);
+    keyOffset += keySize;
+  }
+  if (keyEntries.length === kept.length) return metaBox;
+  if (!keyEntries.length) return null;
+
+  const keysHeader = keys.slice(0, 16);
+  const keysHeaderView = new DataView(keysHeader.buffer);
+  keysHeaderView.setUint32(
+    0,
+    16 + keyEntries.reduce((sum, e) => sum + e.length, 0),
+  );
+  keysHeaderView.setUint32(12, keyEntries.length);
+  children[keysIndex] = concatenateUint8Arrays([keysHeader, ...keyEntries]);
+
+  if (ilstIndex !== -1) {
+    // Items are matched to keys by position, like parseMetaBox does
+    const ilst = children[ilstIndex];
+    const ilstView = new DataView(ilst.buffer);
+    const items: Uint8Array[] = [];
+    let itemOffset = 8;
+    for (let position = 0; itemOffset + 8 <= ilst.length; position++) {
+      const itemSize = ilstView.getUint32(itemOffset);
+      if (itemSize < 8) break;
+      if (kept[position]) {
+        const item = ilst.slice(itemOffset, itemOffset + itemSize);
+        // the item type is its 1-based key index
+        new DataView(item.buffer).setUint32(4, items.length + 1);
+        items.push(item);
+      }
+      itemOffset += itemSize;
+    }
+    const ilstHeader = ilst.slice(0, 8);
+    new DataView(ilstHeader.buffer).setUint32(
+      0,
+      8 + items.reduce((sum, e) => sum + e.length, 0),
+    );
+    children[ilstIndex] = concatenateUint8Arrays([ilstHeader, ...items]);
+  }
+
+  const newMeta = concatenateUint8Arrays([
+    metaBox.slice(0, childrenOffset),
+    ...children,
+  ]);
+  new DataView(newMeta.buffer).setUint32(0, newMeta.length);
+  return newMeta;
+}
+
+/**
+ * Size of the 'free' box reserved after a newly sized udta box,
+ * large enough that typical workflow edits fit without moving media data
+ * @param udtaBox The udta box the padding follows
+ * @returns The padding size in bytes
+ */
+function getFreePadding(udtaBox: Uint8Array): number {
+  return Math.max(4096, Math.ceil(udtaBox.length / 4));
+}
+
+/**
+ * Create a 'free' box of the specified total size (at least 8 bytes)
+ * @param size Total size of the box including its header
+ * @returns A new Uint8Array containing the zero-filled free box
+ */
+function createFreeBox(size: number): Uint8Array {
+  const box = new Uint8Array(size);
+  new DataView(box.buffer).setUint32(0, size);
+  box.set([0x66, 0x72, 0x65, 0x65], 4); // 'free'
+  return box;
+}
+
 /**
  * Create a udta box with the specified metadata
  * This function creates a properly formatted 'udta' box containing:
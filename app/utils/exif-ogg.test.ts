@@ -0,0 +1,118 @@
+import { getOggMetadata, setOggMetadata } from "@/app/utils/exif-ogg";
+import { glob } from "glob";
+
+it("extract opus workflow", async () => {
+  const opus = Bun.file("./tests/ogg/ComfyUI.opus");
+  const ref = Bun.file(opus.name + ".workflow.json");
+
+  const metadata = getOggMetadata(await opus.arrayBuffer());
+
+  const workflow_expect = JSON.stringify(await ref.json());
+  const workflow_actual = JSON.stringify(JSON.parse(metadata.workflow));
+  expect(workflow_actual).toEqual(workflow_expect);
+  expect(metadata.prompt).toBeDefined();
+});
+
+it("extract blank ogg workflow", async () => {
+  const files = await glob("./tests/ogg/blank.{ogg,opus}");
+  expect(files.length).toBe(2);
+
+  for await (const filename of files) {
+    const metadata = getOggMetadata(await Bun.file(filename).arrayBuffer());
+    expect(metadata.workflow).toBeUndefined();
+  }
+});
+
+describe("set ogg workflow", async () => {
+  const files = await glob("./tests/ogg/*.{ogg,opus}");
+  expect(files.length).toBeGreaterThanOrEqual(3);
+
+  for (const filename of files) {
+    it(`should round-trip workflow for ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+
+      const newWorkflow = '{"test":"hello, snomiao"}';
+      const buffer = setOggMetadata(original, { workflow: newWorkflow });
+      const metadata = getOggMetadata(buffer);
+      expect(metadata.workflow).toBe(newWorkflow);
+
+      // other keys are kept
+      const originalMetadata = getOggMetadata(original);
+      for (const key of Object.keys(originalMetadata)) {
+        if (key !== "workflow")
+          expect(metadata[key]).toBe(originalMetadata[key]);
+      }
+      checkPages(buffer);
+    });
+
+    it(`should repaginate large workflows for ${filename}`, async () => {
+      const original = new Uint8Array(await Bun.file(filename).arrayBuffer());
+
+      // larger than a page (255 * 255 bytes)
+      const largeWorkflow = JSON.stringify({ test: "x".repeat(150000) });
+      const buffer = setOggMetadata(original, { workflow: largeWorkflow });
+      expect(getOggMetadata(buffer).workflow).toBe(largeWorkflow);
+
+      const before = checkPages(original);
+      const after = checkPages(buffer);
+      expect(after.length).toBeGreaterThan(before.length);
+      // audio pages are the same apart from sequence number and CRC
+      const audio = (pages: ReturnType<typeof checkPages>) =>
+        pages.filter((e) => e.granule > 0n).map((e) => e.body);
+      expect(audio(after)).toEqual(audio(before));
+
+      // and shrinks back
+      const buffer2 = setOggMetadata(buffer, { workflow: "{}" });
+      expect(getOggMetadata(buffer2).workflow).toBe("{}");
+      expect(checkPages(buffer2).length).toBe(before.length);
+    });
+  }
+});
+
+it("invalid Ogg files throw errors", () => {
+  expect(() => getOggMetadata(new Uint8Array([0, 1, 2, 3]))).toThrow(
+    "Not a valid Ogg file",
+  );
+});
+
+/**
+ * Walk the pages and verify sequence numbers and CRCs, independent from the codec
+ */
+function checkPages(ogg: Uint8Array) {
+  const view = new DataView(ogg.buffer, ogg.byteOffset, ogg.byteLength);
+  const pages: { granule: bigint; body: Uint8Array }[] = [];
+  let offset = 0;
+  while (offset < ogg.length) {
+    expect(new TextDecoder().decode(ogg.slice(offset, offset + 4))).toBe(
+      "OggS",
+    );
+    const segmentCount = ogg[offset + 26];
+    const bodySize = ogg
+      .slice(offset + 27, offset + 27 + segmentCount)
+      .reduce((a, b) => a + b, 0);
+    const end = offset + 27 + segmentCount + bodySize;
+
+    expect(view.getUint32(offset + 18, true)).toBe(pages.length);
+    const page = ogg.slice(offset, end);
+    const crc = view.getUint32(offset + 22, true);
+    new DataView(page.buffer).setUint32(22, 0, true);
+    expect(crc32(page)).toBe(crc);
+
+    pages.push({
+      granule: view.getBigInt64(offset + 6, true),
+      body: ogg.slice(offset + 27 + segmentCount, end),
+    });
+    offset = end;
+  }
+  return pages;
+}
+
+function crc32(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 24;
+    for (let i = 0; i < 8; i++)
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  }
+  return crc >>> 0;
+}
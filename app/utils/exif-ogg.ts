@@ -0,0 +1,415 @@
+import { concatUint8Arrays } from "uint8array-extras";
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  TruncatedError,
+  UnsupportedFeatureError,
+} from "./codec-errors";
+import {
+  createVorbisComment,
+  getString,
+  mergeVorbisCommentEntries,
+  parseVorbisCommentEntries,
+  toVorbisCommentMetadata,
+  VorbisCommentInput,
+} from "./exif-flac";
+import {
+  MediaMetadata,
+  MetadataWriteOptions,
+  toMetadataRecord,
+} from "./media-metadata";
+
+/**
+ * Functions for handling metadata in Ogg Vorbis and Ogg Opus files
+ *
+ * Both codecs keep `key=value` pairs in a Vorbis comment structure, the same
+ * one FLAC uses, inside the second header packet of the logical stream
+ * ("\x03vorbis" or "OpusTags" followed by the comment list).
+ * Ogg splits packets into pages of up to 255 segments, each page carrying a
+ * sequence number and a CRC. When the comment packet changes size, the header
+ * pages are rebuilt, and the following pages of the stream are renumbered and
+ * get their CRC recomputed. Audio packets are copied as is.
+ *
+ * ref: - [Ogg bitstream format - RFC 3533]( https://www.rfc-editor.org/rfc/rfc3533 )
+ *      - [Vorbis I specification]( https://xiph.org/vorbis/doc/Vorbis_I_spec.html )
+ *      - [Ogg Encapsulation for the Opus Audio Codec - RFC 7845]( https://www.rfc-editor.org/rfc/rfc7845 )
+ */
+
+const OGG_CODECS = [
+  // identification, comment and setup header
+  { signature: "\x01vorbis", commentPrefix: "\x03vorbis", headerCount: 3 },
+  // identification and comment header
+  { signature: "OpusHead", commentPrefix: "OpusTags", headerCount: 2 },
+];
+
+type OggPage = {
+  serial: number;
+  sequence: number;
+  // lacing values
+  segments: number[];
+  body: Uint8Array;
+  // the whole page including header
+  bytes: Uint8Array;
+};
+
+type OggPacket = {
+  data: Uint8Array;
+  // indexes into the page list
+  firstPage: number;
+  lastPage: number;
+  // whether the packet ends with the last segment of its last page
+  endsPage: boolean;
+};
+
+/**
+ * Get metadata from an Ogg Vorbis or Opus file
+ * Reads the Vorbis comments of the first logical stream
+ *
+ * @param input The Ogg file buffer as Uint8Array or ArrayBuffer
+ * @returns Object containing extracted metadata with keys as field names and values as strings
+ */
+export function getOggMetadata(
+  input: Uint8Array | ArrayBuffer,
+): Record<string, string> {
+  return toMetadataRecord(getOggMediaMetadata(input));
+}
+
+/**
+ * Get the Vorbis comments of an Ogg Vorbis or Opus file in order
+ *
+ * @param input The Ogg file buffer as Uint8Array or ArrayBuffer
+ * @returns The metadata entries, keeping repeated keys
+ */
+export function getOggMediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
+  const ogg = new Uint8Array(input);
+  if (!isOgg(ogg)) throw new NotThisFormatError("ogg", "Not a valid Ogg file");
+
+  const { codec, packets } = readHeaderPackets(parsePages(ogg));
+  const comment = packets[1].data;
+  const prefixLength = codec.commentPrefix.length;
+  return toVorbisCommentMetadata(
+    parseVorbisCommentEntries(
+      new DataView(
+        comment.buffer,
+        comment.byteOffset + prefixLength,
+        comment.length - prefixLength,
+      ),
+    ),
+  );
+}
+
+/**
+ * Get the audio data of an Ogg Vorbis or Opus file, which metadata edits
+ * never change
+ *
+ * @param buffer The Ogg file buffer
+ * @returns The identification and setup header packets, then the bodies of
+ * the audio pages and of the pages of other streams
+ */
+export function getOggPayload(buffer: ArrayBuffer | Uint8Array): Uint8Array[] {
+  const ogg = new Uint8Array(buffer);
+  if (!isOgg(ogg)) throw new NotThisFormatError("ogg", "Not a valid Ogg file");
+
+  const pages = parsePages(ogg);
+  const { packets } = readHeaderPackets(pages);
+  const [identification, , ...rest] = packets;
+  const { serial } = pages[0];
+  const lastHeaderPage = packets[packets.length - 1].lastPage;
+  return [
+    identification.data,
+    ...rest.map((e) => e.data),
+    ...pages
+      .filter((page, index) => page.serial !== serial || index > lastHeaderPage)
+      .map((page) => page.body),
+  ];
+}
+
+/**
+ * Set metadata in an Ogg Vorbis or Opus file
+ * Rewrites the comment header packet, keeping the vendor string, existing
+ * comments (including repeated keys) and anything stored after the comment list.
+ *
+ * @param buffer The Ogg file buffer
+ * @param modifyRecords The metadata to set or update
+ * @param options.remove Keys to delete, compared case-insensitively
+ * @returns The modified Ogg file buffer
+ */
+export function setOggMetadata(
+  buffer: ArrayBuffer | Uint8Array,
+  modifyRecords: VorbisCommentInput,
+  { remove = [] }: MetadataWriteOptions = {},
+): Uint8Array {
+  const ogg = new Uint8Array(buffer);
+  if (!isOgg(ogg)) throw new NotThisFormatError("ogg", "Not a valid Ogg file");
+
+  const pages = parsePages(ogg);
+  const { codec, packets } = readHeaderPackets(pages);
+  const [identification, comment, ...rest] = packets;
+  const lastHeader = packets[packets.length - 1];
+  // header packets other than the identification own their pages
+  if (identification.lastPage === comment.firstPage || !lastHeader.endsPage) {
+    throw new UnsupportedFeatureError(
+      "ogg",
+      "Ogg header packets share pages with other packets",
+    );
+  }
+
+  // rebuild the comment packet
+  const prefixLength = codec.commentPrefix.length;
+  const commentData = new DataView(
+    comment.data.buffer,
+    comment.data.byteOffset + prefixLength,
+    comment.data.length - prefixLength,
+  );
+  const vendorString = getString(
+    commentData,
+    4,
+    commentData.getUint32(0, true),
+  );
+  const newComment = concatUint8Arrays([
+    comment.data.slice(0, prefixLength),
+    createVorbisComment(
+      vendorString,
+      mergeVorbisCommentEntries(
+        parseVorbisCommentEntries(commentData),
+        modifyRecords,
+        remove,
+      ),
+    ),
+    // vorbis framing bit or opus padding
+    comment.data.slice(prefixLength + getVorbisCommentLength(commentData)),
+  ]);
+
+  const { serial, sequence } = pages[comment.firstPage];
+  const headerPages = paginate(
+    [newComment, ...rest.map((e) => e.data)],
+    serial,
+    sequence,
+  );
+  const oldPageCount = pages
+    .slice(comment.firstPage, lastHeader.lastPage + 1)
+    .filter((e) => e.serial === serial).length;
+  const sequenceDelta = headerPages.length - oldPageCount;
+
+  const newPages: Uint8Array[] = [];
+  pages.forEach((page, index) => {
+    if (page.serial !== serial) return newPages.push(page.bytes);
+    if (index === comment.firstPage) return newPages.push(...headerPages);
+    if (index > comment.firstPage && index <= lastHeader.lastPage) return;
+    if (index > lastHeader.lastPage && sequenceDelta !== 0) {
+      return newPages.push(
+        renumberPage(page.bytes, page.sequence + sequenceDelta),
+      );
+    }
+    newPages.push(page.bytes);
+  });
+  return concatUint8Arrays(newPages);
+}
+
+function isOgg(ogg: Uint8Array): boolean {
+  return String.fromCharCode(...ogg.slice(0, 4)) === "OggS";
+}
+
+function parsePages(ogg: Uint8Array): OggPage[] {
+  const dataView = new DataView(ogg.buffer, ogg.byteOffset, ogg.byteLength);
+  const pages: OggPage[] = [];
+  let offset = 0;
+  while (offset + 27 <= ogg.length) {
+    if (String.fromCharCode(...ogg.slice(offset, offset + 4)) !== "OggS") {
+      throw new CorruptStructureError(
+        "ogg",
+        `Invalid Ogg page at offset ${offset}`,
+        { offset },
+      );
+    }
+    const segmentCount = ogg[offset + 26];
+    const segments = [...ogg.slice(offset + 27, offset + 27 + segmentCount)];
+    const bodyOffset = offset + 27 + segmentCount;
+    const end = bodyOffset + segments.reduce((a, b) => a + b, 0);
+    pages.push({
+      serial: dataView.getUint32(offset + 14, true),
+      sequence: dataView.getUint32(offset + 18, true),
+      segments,
+      body: ogg.slice(bodyOffset, end),
+      bytes: ogg.slice(offset, end),
+    });
+    offset = end;
+  }
+  return pages;
+}
+
+/**
+ * Collect the header packets of the first logical stream
+ */
+function readHeaderPackets(pages: OggPage[]): {
+  codec: (typeof OGG_CODECS)[number];
+  packets: OggPacket[];
+} {
+  const serial = pages[0]?.serial;
+  const packets: OggPacket[] = [];
+  let codec: (typeof OGG_CODECS)[number] | undefined;
+  let parts: Uint8Array[] = [];
+  let firstPage = -1;
+
+  for (const [index, page] of pages.entries()) {
+    if (page.serial !== serial) continue;
+    let offset = 0;
+    for (const [i, size] of page.segments.entries()) {
+      if (firstPage === -1) firstPage = index;
+      parts.push(page.body.slice(offset, offset + size));
+      offset += size;
+      // a lacing value below 255 ends the packet
+      if (size === 255) continue;
+
+      const data = concatUint8Arrays(parts);
+      packets.push({
+        data,
+        firstPage,
+        lastPage: index,
+        endsPage: i === page.segments.length - 1,
+      });
+      parts = [];
+      firstPage = -1;
+
+      if (packets.length === 1) {
+        const signature = String.fromCharCode(...data.slice(0, 8));
+        codec = OGG_CODECS.find((e) => signature.startsWith(e.signature));
+        if (!codec)
+          throw new UnsupportedFeatureError(
+            "ogg",
+            "Unsupported Ogg codec, expected Vorbis or Opus",
+          );
+      }
+      if (packets.length === codec!.headerCount) {
+        const prefix = String.fromCharCode(
+          ...packets[1].data.slice(0, codec!.commentPrefix.length),
+        );
+        if (prefix !== codec!.commentPrefix) {
+          throw new CorruptStructureError("ogg", "Invalid Ogg comment header");
+        }
+        return { codec: codec!, packets };
+      }
+    }
+  }
+  throw new TruncatedError("ogg", "Ogg header packets are truncated");
+}
+
+/**
+ * Size of the vendor string and comment list, without framing bit or padding
+ */
+function getVorbisCommentLength(dataView: DataView): number {
+  let offset = 4 + dataView.getUint32(0, true);
+  const count = dataView.getUint32(offset, true);
+  offset += 4;
+  for (let i = 0; i < count; i++) {
+    offset += 4 + dataView.getUint32(offset, true);
+  }
+  return offset;
+}
+
+/**
+ * Split packets into pages of at most 255 segments, pages where no packet
+ * ends get granule position -1
+ */
+function paginate(
+  packets: Uint8Array[],
+  serial: number,
+  sequence: number,
+): Uint8Array[] {
+  const pages: Uint8Array[] = [];
+  let segments: number[] = [];
+  let parts: Uint8Array[] = [];
+  let continued = false;
+
+  const flush = (packetEnded: boolean) => {
+    pages.push(
+      createPage({
+        headerType: continued ? 0x01 : 0x00,
+        granule: packetEnded ? 0n : -1n,
+        serial,
+        sequence: sequence + pages.length,
+        segments,
+        body: concatUint8Arrays(parts),
+      }),
+    );
+    continued = !packetEnded;
+    segments = [];
+    parts = [];
+  };
+
+  for (const packet of packets) {
+    for (let offset = 0; ; offset += 255) {
+      const size = Math.min(255, packet.length - offset);
+      segments.push(size);
+      parts.push(packet.slice(offset, offset + size));
+      if (segments.length === 255) flush(size < 255);
+      if (size < 255) break;
+    }
+  }
+  if (segments.length) flush(true);
+  return pages;
+}
+
+function createPage({
+  headerType,
+  granule,
+  serial,
+  sequence,
+  segments,
+  body,
+}: {
+  headerType: number;
+  granule: bigint;
+  serial: number;
+  sequence: number;
+  segments: number[];
+  body: Uint8Array;
+}): Uint8Array {
+  const header = new Uint8Array(27 + segments.length);
+  const dataView = new DataView(header.buffer);
+  header.set(new TextEncoder().encode("OggS"), 0);
+  header[4] = 0; // version
+  header[5] = headerType;
+  dataView.setBigInt64(6, granule, true);
+  dataView.setUint32(14, serial, true);
+  dataView.setUint32(18, sequence, true);
+  header[26] = segments.length;
+  header.set(segments, 27);
+
+  const page = concatUint8Arrays([header, body]);
+  new DataView(page.buffer).setUint32(22, oggCrc32(page), true);
+  return page;
+}
+
+function renumberPage(bytes: Uint8Array, sequence: number): Uint8Array {
+  const page = bytes.slice();
+  const dataView = new DataView(page.buffer);
+  dataView.setUint32(18, sequence, true);
+  dataView.setUint32(22, 0, true);
+  dataView.setUint32(22, oggCrc32(page), true);
+  return page;
+}
+
+// CRC-32 with polynomial 0x04c11db7, no reflection, computed with the
+// checksum field set to zero
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc32(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
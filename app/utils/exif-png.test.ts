@@ -9,7 +9,7 @@ it("extract png workflow", async () => {
     const png = Bun.file(filename);
     const ref = Bun.file(png.name + ".workflow.json");
 
-    const exif = getPngMetadata(await png.arrayBuffer());
+    const exif = await getPngMetadata(await png.arrayBuffer());
 
     const workflow_expect = JSON.stringify(JSON.parse(exif.workflow));
     const workflow_actual = JSON.stringify(JSON.parse(await ref.text()));
@@ -25,13 +25,13 @@ it("set png workflow", async () => {
     const png = Bun.file(filename);
 
     const newWorkflow = '{"test":"hello, snomiao"}';
-    const buffer2 = setPngMetadata(await png.arrayBuffer(), {
+    const buffer2 = await setPngMetadata(await png.arrayBuffer(), {
       workflow: newWorkflow,
     });
     const file2 = new File([buffer2], png.name!);
 
     const workflow_actual = JSON.stringify(
-      JSON.parse(getPngMetadata(await file2.arrayBuffer()).workflow),
+      JSON.parse((await getPngMetadata(await file2.arrayBuffer())).workflow),
     );
     const workflow_expect = JSON.stringify(JSON.parse(newWorkflow));
     expect(workflow_expect).toEqual(workflow_actual);
@@ -44,7 +44,7 @@ it("extract blank png workflow", async () => {
 
   for await (const filename of pngs) {
     const png = Bun.file(filename);
-    const exif = getPngMetadata(await png.arrayBuffer());
+    const exif = await getPngMetadata(await png.arrayBuffer());
     expect(exif.workflow).toBe(undefined);
   }
 });
@@ -57,14 +57,179 @@ it("set blank png workflow", async () => {
     const png = Bun.file(filename);
 
     const newWorkflow = '{"test":"hello, snomiao"}';
-    const buffer2 = setPngMetadata(await png.arrayBuffer(), {
+    const buffer2 = await setPngMetadata(await png.arrayBuffer(), {
       workflow: newWorkflow,
     });
     const file2 = new File([buffer2], png.name!);
 
-    const exif2 = getPngMetadata(await file2.arrayBuffer());
+    const exif2 = await getPngMetadata(await file2.arrayBuffer());
     const workflow_actual = JSON.stringify(JSON.parse(exif2.workflow));
     const workflow_expect = JSON.stringify(JSON.parse(newWorkflow));
     expect(workflow_expect).toEqual(workflow_actual);
   }
 });
+
+it("extract compressed png workflow", async () => {
+  const png = Bun.file("./tests/png/compressed.png");
+  const ref = Bun.file(png.name + ".workflow.json");
+
+  // workflow in a compressed iTXt, prompt in a zTXt
+  const exif = await getPngMetadata(await png.arrayBuffer());
+  expect(JSON.parse(exif.workflow)).toEqual(await ref.json());
+  expect(JSON.parse(exif.prompt)["1"].class_type).toBe("SaveImage");
+});
+
+it("should keep iTXt fields when rewriting", async () => {
+  const png = Bun.file("./tests/png/compressed.png");
+  const newWorkflow = '{"test":"hello, snomiao"}';
+  const buffer = await setPngMetadata(await png.arrayBuffer(), {
+    workflow: newWorkflow,
+  });
+  expect((await getPngMetadata(buffer)).workflow).toBe(newWorkflow);
+
+  const chunks = checkChunks(buffer);
+  const iTXt = chunks.find((e) => e.type === "iTXt")!.data;
+  const fields = new TextDecoder().decode(iTXt.slice(0, 40)).split("\0");
+  expect(fields[0]).toBe("workflow");
+  // compression flag and method
+  expect([...iTXt.slice(9, 11)]).toEqual([1, 0]);
+  expect(fields[2]).toBe("en");
+  expect(fields[3]).toBe("ワークフロー");
+  expect(chunks.map((e) => e.type)).toEqual(
+    checkChunks(new Uint8Array(await png.arrayBuffer())).map((e) => e.type),
+  );
+});
+
+it("should write compressed chunks", async () => {
+  const png = Bun.file("./tests/png/Blank_2025-03-06-input.png");
+  const original = await png.arrayBuffer();
+  const largeWorkflow = JSON.stringify({ test: "x".repeat(100000) });
+
+  const plain = await setPngMetadata(original, { workflow: largeWorkflow });
+  const compressed = await setPngMetadata(
+    original,
+    { workflow: largeWorkflow },
+    { compressed: true },
+  );
+  expect((await getPngMetadata(compressed)).workflow).toBe(largeWorkflow);
+  expect(compressed.length).toBeLessThan(plain.length - 90000);
+  expect(checkChunks(compressed).map((e) => e.type)).toContain("iTXt");
+
+  // rewriting an uncompressed tEXt upgrades it to a compressed iTXt
+  const recompressed = await setPngMetadata(
+    plain,
+    { workflow: largeWorkflow + " " },
+    { compressed: true },
+  );
+  const types = checkChunks(recompressed).map((e) => e.type);
+  expect(types).not.toContain("tEXt");
+  expect((await getPngMetadata(recompressed)).workflow).toBe(
+    largeWorkflow + " ",
+  );
+});
+
+it("should store non-ASCII text in iTXt chunks", async () => {
+  const png = Bun.file("./tests/png/ComfyUI_00001.png");
+  const workflow = '{"prompt":"桜の木の下の猫 🐱, café"}';
+  const buffer = await setPngMetadata(await png.arrayBuffer(), {
+    workflow,
+    note: "naïve",
+  });
+  expect((await getPngMetadata(buffer)).workflow).toBe(workflow);
+  expect((await getPngMetadata(buffer)).note).toBe("naïve");
+
+  // the workflow tEXt chunk moved to iTXt, prompt is ASCII and stays tEXt
+  const chunks = checkChunks(buffer);
+  const keywords = (type: string) =>
+    chunks
+      .filter((e) => e.type === type)
+      .map((e) => new TextDecoder().decode(e.data).split("\0")[0]);
+  expect(keywords("iTXt")).toEqual(["workflow", "note"]);
+  expect(keywords("tEXt")).toEqual(["prompt"]);
+});
+
+it("should read Latin-1 tEXt chunks", async () => {
+  const png = new Uint8Array(
+    await Bun.file("./tests/png/Blank_2025-03-06-input.png").arrayBuffer(),
+  );
+  // "Comment\0café" in Latin-1, inserted after IHDR
+  const data = new Uint8Array([
+    ...new TextEncoder().encode("Comment\0caf"),
+    0xe9,
+  ]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode("tEXt"), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, Bun.hash.crc32(chunk.slice(4, -4)));
+  const buffer = new Uint8Array([
+    ...png.slice(0, 33),
+    ...chunk,
+    ...png.slice(33),
+  ]);
+
+  expect((await getPngMetadata(buffer)).Comment).toBe("café");
+});
+
+it("should write empty values", async () => {
+  const png = await Bun.file("./tests/png/ComfyUI_00001.png").arrayBuffer();
+  const buffer = await setPngMetadata(png, { workflow: "", Comment: "" });
+  const metadata = await getPngMetadata(buffer);
+  expect(metadata.workflow).toBe("");
+  expect(metadata.Comment).toBe("");
+  expect(metadata.prompt).toBe((await getPngMetadata(png)).prompt);
+});
+
+describe("png chunk structure", async () => {
+  const pngs = await glob("./tests/png/*.png");
+  expect(pngs.length).toBeGreaterThanOrEqual(2);
+
+  for (const filename of pngs) {
+    it(`should write valid chunks for ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+      // the workflow chunk of ComfyUI_00001.png was saved with a wrong CRC
+      const originalChunks = checkChunks(new Uint8Array(original), false);
+
+      // replace an existing key and add a new one
+      const buffer = await setPngMetadata(original, {
+        workflow: '{"test":"hello, snomiao"}',
+        extra: "value",
+      });
+      const chunks = checkChunks(buffer);
+      expect((await getPngMetadata(buffer)).extra).toBe("value");
+
+      // image chunks are kept in order
+      const image = (e: typeof chunks) =>
+        e.filter((c) => !["tEXt", "zTXt", "iTXt", "comf"].includes(c.type));
+      expect(image(chunks)).toEqual(image(originalChunks));
+    });
+  }
+});
+
+/**
+ * Walk the chunks and verify CRCs and chunk order: IHDR first, IEND last
+ */
+function checkChunks(png: Uint8Array, checkCrc = true) {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  expect([...png.slice(0, 8)]).toEqual([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ]);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  let offset = 8;
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.slice(offset + 4, offset + 8));
+    const crc = view.getUint32(offset + 8 + length);
+    if (checkCrc)
+      expect(Bun.hash.crc32(png.slice(offset + 4, offset + 8 + length))).toBe(
+        crc,
+      );
+    chunks.push({ type, data: png.slice(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  expect(offset).toBe(png.length);
+  expect(chunks[0].type).toBe("IHDR");
+  expect(chunks.findIndex((e) => e.type === "IEND")).toBe(chunks.length - 1);
+  return chunks;
+}
@@ -1,52 +1,79 @@
 import { crc32FromArrayBuffer } from "crc32-from-arraybuffer";
 import { concatUint8Arrays } from "uint8array-extras";
+import {
+  detectTextEncoding,
+  MediaMetadata,
+  MetadataEncoding,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  TruncatedError,
+} from "./codec-errors";
 
-export function getPngMetadata(
+export async function getPngMetadata(
   buffer: Uint8Array | ArrayBuffer,
-): Record<string, string> {
+): Promise<Record<string, string>> {
+  return toMetadataRecord(await getPngMediaMetadata(buffer));
+}
+
+/**
+ * Get the text chunks of a PNG file in order, with their chunk type
+ * @param buffer The PNG file buffer
+ * @returns The metadata entries
+ */
+export async function getPngMediaMetadata(
+  buffer: Uint8Array | ArrayBuffer,
+): Promise<MediaMetadata> {
   // Get the PNG data as a Uint8Array
   const pngData = new Uint8Array(buffer);
   const dataView = new DataView(pngData.buffer);
 
   // Check that the PNG signature is present
-  if (dataView.getUint32(0) !== 0x89504e47) {
-    console.error("Not a valid PNG file");
-    throw new Error("no buffer");
-  }
+  if (pngData.length < 8 || dataView.getUint32(0) !== 0x89504e47)
+    throw new NotThisFormatError("png", "Not a valid PNG file");
 
   // Start searching for chunks after the PNG signature
   let offset = 8;
-  const txt_chunks: Record<string, string> = {};
+  const metadata: MediaMetadata = { entries: [] };
   // Loop through the chunks in the PNG file
   while (offset < pngData.length) {
     // Get the length of the chunk
     const length = dataView.getUint32(offset);
     // Get the chunk type
     const type = String.fromCharCode(...pngData.slice(offset + 4, offset + 8));
-    if (type === "tEXt" || type == "comf" || type === "iTXt") {
-      // Get the keyword
-      let keyword_end = offset + 8;
-      while (pngData[keyword_end] !== 0) {
-        keyword_end++;
-      }
-      const keyword = String.fromCharCode(
-        ...pngData.slice(offset + 8, keyword_end),
-      );
-      // Get the text
-      const contentArraySegment = pngData.slice(
-        keyword_end + 1,
-        offset + 8 + length,
-      );
-      const contentJson = new TextDecoder("utf-8").decode(contentArraySegment);
-
-      if (txt_chunks[keyword])
-        console.warn(`Duplicated keyword ${keyword} has been overwritten`);
-      txt_chunks[keyword] = contentJson;
+    if (offset + 12 + length > pngData.length) {
+      throw new TruncatedError("png", `${type} chunk exceeds the file`, {
+        offset,
+        context: { type, length },
+      });
+    }
+    if (TEXT_CHUNK_TYPES.includes(type)) {
+      const { keyword, text, encoding } = await readTextChunk(
+        type,
+        pngData.slice(offset + 8, offset + 8 + length),
+      ).catch((cause) => {
+        throw new CorruptStructureError("png", `Unreadable ${type} chunk`, {
+          offset,
+          context: { type },
+          cause,
+        });
+      });
+      metadata.entries.push({
+        key: keyword,
+        value: text,
+        origin: type,
+        encoding,
+      });
     }
 
     offset += 12 + length;
   }
-  return txt_chunks;
+  return metadata;
 } /*
 ref: png chunk struct:
 {
@@ -58,14 +85,62 @@ ref: png chunk struct:
   }
   uint32 crc;
 }
+zTXt data: keyword\0, compression method (0), zlib stream
+iTXt data: keyword\0, compression flag, compression method (0),
+  language tag\0, translated keyword\0, utf-8 text (zlib stream if compressed)
 
 - [JavascriptでPNGファイルにtEXtチャンクを差し込むサンプルコード - ホンモノのエンジニアになりたい]( https://www.engineer-log.com/entry/2019/12/24/insert-textchunk )
+- [PNG Specification - Textual information]( https://www.w3.org/TR/png/#11textinfo )
 */
 
-export function setPngMetadata(
-  buffer: ArrayBuffer,
-  new_txt_chunks: Record<string, string>,
-): Uint8Array {
+/**
+ * Get the image data of a PNG file, which metadata edits never change
+ * @param buffer The PNG file buffer
+ * @returns The data of the IDAT and fdAT (APNG frame) chunks in order
+ */
+export function getPngPayload(buffer: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const pngData = new Uint8Array(buffer);
+  const dataView = new DataView(
+    pngData.buffer,
+    pngData.byteOffset,
+    pngData.byteLength,
+  );
+  if (pngData.length < 8 || dataView.getUint32(0) !== 0x89504e47)
+    throw new NotThisFormatError("png", "Not a valid PNG file");
+
+  const payload: Uint8Array[] = [];
+  let offset = 8;
+  while (offset + 12 <= pngData.length) {
+    const length = dataView.getUint32(offset);
+    const type = String.fromCharCode(...pngData.slice(offset + 4, offset + 8));
+    if (type === "IDAT" || type === "fdAT")
+      payload.push(pngData.slice(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+  return payload;
+}
+
+/**
+ * Set text metadata in a PNG file
+ * Existing text chunks are rewritten in place, keeping their type, language
+ * tag and translated keyword; new keys are inserted before IEND.
+ * Non-ASCII text is always written to iTXt chunks as UTF-8.
+ *
+ * @param buffer The PNG file buffer
+ * @param metadata The metadata to set or update
+ * @param options.compressed Write new and rewritten chunks as compressed iTXt
+ * @param options.remove Keys whose text chunks are dropped
+ * @returns The modified PNG file buffer
+ */
+export async function setPngMetadata(
+  buffer: ArrayBuffer | Uint8Array,
+  metadata: MetadataInput,
+  {
+    compressed = false,
+    remove = [],
+  }: { compressed?: boolean } & MetadataWriteOptions = {},
+): Promise<Uint8Array> {
+  const new_txt_chunks = toSingleValueRecord(metadata, "png");
   // Get the PNG data as a Uint8Array
   const pngData = new Uint8Array(buffer);
   const newPngChunks: Uint8Array[] = [];
@@ -73,124 +148,253 @@ export function setPngMetadata(
 
   // Check that the PNG signature is present
   if (dataView.getUint32(0) !== 0x89504e47)
-    throw new Error("Not a valid PNG file");
+    throw new NotThisFormatError("png", "Not a valid PNG file");
   newPngChunks.push(
     new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
   );
 
   // Start searching for chunks after the PNG signature
   let offset = 8;
-  const txt_chunks: Record<string, string> = {};
+  const written = new Set<string>();
   // Loop through the chunks in the PNG file
   while (offset < pngData.length) {
     // Get the length of the chunk
     const length = dataView.getUint32(offset);
     // Get the chunk type
     const type = String.fromCharCode(...pngData.slice(offset + 4, offset + 8));
-    if (type === "tEXt" || type == "comf" || type === "iTXt") {
-      // Get the keyword
-      let keyword_end = offset + 8;
-      while (pngData[keyword_end] !== 0) keyword_end++;
-      const keyword = String.fromCharCode(
-        ...pngData.slice(offset + 8, keyword_end),
-      );
-      const crc32 = dataView.getUint32(offset + 8 + length);
-      // compare crc32
-      if (new_txt_chunks[keyword] == null && txt_chunks[keyword] != null) {
-        new_txt_chunks[keyword] = txt_chunks[keyword];
-      }
-      if (new_txt_chunks[keyword] != null) {
-        // Get the text
-        const contentArraySegment = pngData.slice(
-          keyword_end + 1,
-          offset + 8 + length,
-        );
-        // load old content
-        const contentJson = new TextDecoder("utf-8").decode(
-          contentArraySegment,
-        );
-        txt_chunks[keyword] = contentJson;
-
-        // compare and encode new content
-        if (new_txt_chunks[keyword] === contentJson) {
-          console.warn("warn: nothing changed while set metadata to png");
-        }
-
-        const contentLength = new_txt_chunks[keyword].length ?? 0;
-        if (contentLength > 0) {
-          // const encodedKeyword = new TextEncoder().encode(keyword + "\x00");
-          // const encodedContent = new TextEncoder().encode(
-          //   new_txt_chunks[keyword] + "\x00"
-          // );
-          const encoded = new TextEncoder().encode(
-            keyword + "\x00" + new_txt_chunks[keyword],
-          );
-
-          const chunkLength = encoded.length;
-          const chunkType = pngData.slice(offset + 4, offset + 8);
-
-          // calculate crc32
-          const crcTarget = new Uint8Array(
-            chunkType.length + 4 + encoded.length,
-          );
-          crcTarget.set(chunkType, 0);
-          crcTarget.set(new Uint8Array(chunkLength), chunkType.length);
-          const chunkCRC32 = crc32FromArrayBuffer(crcTarget);
-          if (new_txt_chunks[keyword] === contentJson && crc32 !== chunkCRC32) {
-            console.warn(
-              "warn: crc32 is not matched while content is not changed",
-            );
-          }
-          // console.warn("keyword", keyword);
-          // console.warn("content: ", contentJson);
-          // console.warn("crc32: ", crc32);
-          // console.warn("crc32(new): ", chunkCRC32);
-          // console.warn("length: ", length);
-          // console.warn("newLength: ", chunkLength);
-          const newPngChunk = new Uint8Array(8 + chunkLength + 4);
-          const dataView = new DataView(newPngChunk.buffer);
-          dataView.setUint32(0, chunkLength);
-          newPngChunk.set(chunkType, 4);
-          newPngChunk.set(encoded, 8);
-          dataView.setUint32(8 + chunkLength, chunkCRC32);
-          newPngChunks.push(newPngChunk);
-          delete new_txt_chunks[keyword]; //mark used
-        }
-      } else {
-        // if this keyword is not in new_txt_chunks,
-        // keep the old content
-        newPngChunks.push(pngData.slice(offset, offset + 8 + length + 4));
-      }
-    } else {
+    const chunk = pngData.slice(offset, offset + 12 + length);
+    offset += 12 + length;
+
+    if (!TEXT_CHUNK_TYPES.includes(type)) {
       // Copy the chunk to the new PNG data
-      newPngChunks.push(pngData.slice(offset, offset + 8 + length + 4));
+      newPngChunks.push(chunk);
+      continue;
     }
 
-    offset += 12 + length;
+    const textChunk = await readTextChunk(type, chunk.slice(8, -4));
+    const { keyword } = textChunk;
+    if (!Object.hasOwn(new_txt_chunks, keyword)) {
+      // if this keyword is not in new_txt_chunks, keep the old content
+      if (!remove.includes(keyword)) newPngChunks.push(chunk);
+      continue;
+    }
+    // drop duplicates of keys that have been written
+    if (written.has(keyword)) continue;
+    written.add(keyword);
+
+    if (new_txt_chunks[keyword] === textChunk.text) {
+      newPngChunks.push(chunk);
+      continue;
+    }
+    newPngChunks.push(
+      await createTextChunk({
+        ...textChunk,
+        type: getTextChunkType(
+          type,
+          new_txt_chunks[keyword],
+          compressed || textChunk.compressed,
+        ),
+        compressed: compressed || textChunk.compressed,
+        text: new_txt_chunks[keyword],
+      }),
+    );
   }
 
-  // If no EXIF section was found, add new metadata chunks
-  Object.entries(new_txt_chunks).map(([keyword, content]) => {
-    // console.log(`Adding exif section for ${keyword}`);
-    const encoded = new TextEncoder().encode(keyword + "\x00" + content);
-    const chunkLength = encoded.length;
-    const chunkType = new TextEncoder().encode("tEXt");
-
-    // Calculate crc32
-    const crcTarget = new Uint8Array(chunkType.length + encoded.length);
-    crcTarget.set(chunkType, 0);
-    crcTarget.set(encoded, chunkType.length);
-    const chunkCRC32 = crc32FromArrayBuffer(crcTarget);
-
-    const newPngChunk = new Uint8Array(8 + chunkLength + 4);
-    const dataView = new DataView(newPngChunk.buffer);
-    dataView.setUint32(0, chunkLength);
-    newPngChunk.set(chunkType, 4);
-    newPngChunk.set(encoded, 8);
-    dataView.setUint32(8 + chunkLength, chunkCRC32);
-    newPngChunks.push(newPngChunk);
-  });
+  // If no EXIF section was found, add new metadata chunks,
+  // text chunks may appear anywhere between IHDR and IEND
+  const newEntries = Object.entries(new_txt_chunks).filter(
+    ([keyword]) => !written.has(keyword),
+  );
+  const iendIndex = newPngChunks.findIndex(
+    (e) => String.fromCharCode(...e.slice(4, 8)) === "IEND",
+  );
+  newPngChunks.splice(
+    iendIndex === -1 ? newPngChunks.length : iendIndex,
+    0,
+    ...(await Promise.all(
+      newEntries.map(([keyword, text]) =>
+        createTextChunk({
+          type: getTextChunkType("tEXt", text, compressed),
+          keyword,
+          text,
+          compressed,
+          languageTag: "",
+          translatedKeyword: "",
+        }),
+      ),
+    )),
+  );
 
   const newPngData = concatUint8Arrays(newPngChunks);
   return newPngData;
 }
+
+const TEXT_CHUNK_TYPES = ["tEXt", "zTXt", "iTXt", "comf"];
+
+type PngTextChunk = {
+  type: string;
+  keyword: string;
+  text: string;
+  encoding: MetadataEncoding;
+  compressed: boolean;
+  // iTXt only
+  languageTag: string;
+  translatedKeyword: string;
+};
+
+/**
+ * Parse the data of a tEXt, zTXt, iTXt or comf chunk
+ * @param type The chunk type
+ * @param data The chunk data without length, type and CRC
+ * @returns The keyword, the decoded text and the fields needed to rewrite it
+ */
+async function readTextChunk(
+  type: string,
+  data: Uint8Array,
+): Promise<PngTextChunk> {
+  const decoder = new TextDecoder("utf-8");
+  const readString = (start: number) => {
+    let end = data.indexOf(0, start);
+    if (end === -1) end = data.length;
+    return { value: decoder.decode(data.slice(start, end)), next: end + 1 };
+  };
+
+  const keyword = readString(0);
+  const chunk: PngTextChunk = {
+    type,
+    keyword: keyword.value,
+    text: "",
+    encoding: "utf-8",
+    compressed: false,
+    languageTag: "",
+    translatedKeyword: "",
+  };
+  if (type === "zTXt") {
+    chunk.compressed = true;
+    Object.assign(
+      chunk,
+      decodeLatin1Text(await inflate(data.slice(keyword.next + 1))),
+    );
+  } else if (type === "iTXt") {
+    chunk.compressed = data[keyword.next] === 1;
+    const languageTag = readString(keyword.next + 2);
+    const translatedKeyword = readString(languageTag.next);
+    chunk.languageTag = languageTag.value;
+    chunk.translatedKeyword = translatedKeyword.value;
+    const text = data.slice(translatedKeyword.next);
+    chunk.text = decoder.decode(chunk.compressed ? await inflate(text) : text);
+    chunk.encoding = detectTextEncoding(chunk.text);
+  } else {
+    const text = data.slice(keyword.next);
+    if (type === "comf") {
+      chunk.text = decoder.decode(text);
+      chunk.encoding = detectTextEncoding(chunk.text);
+    } else {
+      Object.assign(chunk, decodeLatin1Text(text));
+    }
+  }
+  return chunk;
+}
+
+/**
+ * Decode tEXt and zTXt text, which the spec defines as Latin-1, but many
+ * writers (including older versions of this editor) store UTF-8 in them
+ */
+function decodeLatin1Text(bytes: Uint8Array): {
+  text: string;
+  encoding: MetadataEncoding;
+} {
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return { text, encoding: detectTextEncoding(text) };
+  } catch {
+    // TextDecoder("latin1") is windows-1252, which differs in 0x80-0x9f
+    const text = Array.from(bytes, (e) => String.fromCharCode(e)).join("");
+    return { text, encoding: "latin1" };
+  }
+}
+
+/**
+ * Pick the type of a rewritten or new text chunk: tEXt and zTXt only keep
+ * ASCII text, as it reads the same as Latin-1 and UTF-8, and tEXt has no
+ * compressed form. Everything else is stored as UTF-8 in an iTXt chunk.
+ */
+function getTextChunkType(
+  type: string,
+  text: string,
+  compressed: boolean,
+): string {
+  if (type === "comf") return type;
+  if (type === "iTXt" || !/^[\x00-\x7f]*$/.test(text)) return "iTXt";
+  if (compressed && type === "tEXt") return "iTXt";
+  return type;
+}
+
+/**
+ * Encode a text chunk, the inverse of readTextChunk
+ * @param chunk The chunk fields, compressed is ignored for tEXt and comf
+ * @returns A new Uint8Array containing the whole chunk
+ */
+async function createTextChunk(
+  chunk: Omit<PngTextChunk, "encoding">,
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const keyword = encoder.encode(chunk.keyword + "\x00");
+  const text = encoder.encode(chunk.text);
+  if (chunk.type === "zTXt") {
+    return createPngChunk(
+      "zTXt",
+      concatUint8Arrays([keyword, new Uint8Array([0]), await deflate(text)]),
+    );
+  }
+  if (chunk.type === "iTXt") {
+    return createPngChunk(
+      "iTXt",
+      concatUint8Arrays([
+        keyword,
+        new Uint8Array([chunk.compressed ? 1 : 0, 0]),
+        encoder.encode(
+          chunk.languageTag + "\x00" + chunk.translatedKeyword + "\x00",
+        ),
+        chunk.compressed ? await deflate(text) : text,
+      ]),
+    );
+  }
+  return createPngChunk(chunk.type, concatUint8Arrays([keyword, text]));
+}
+
+/**
+ * Decompress a zlib stream (PNG compression method 0)
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Compress into a zlib stream (PNG compression method 0)
+ */
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Create a PNG chunk with length, type, data and the CRC over type and data
+ * @param type The 4 character chunk type
+ * @param data The chunk data
+ * @returns A new Uint8Array containing the whole chunk
+ */
+function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + 4);
+  const dataView = new DataView(chunk.buffer);
+  dataView.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  dataView.setUint32(8 + data.length, crc32FromArrayBuffer(chunk.slice(4, -4)));
+  return chunk;
+}
@@ -0,0 +1,96 @@
+import { UnsupportedFeatureError } from "@/app/utils/codec-errors";
+import {
+  editExifText,
+  encodeExifText,
+  isEditableExif,
+  readExifText,
+} from "@/app/utils/exif-text";
+import {
+  decodeTIFFBlock,
+  encodeTIFFBlock,
+  EXIF_TAGS,
+} from "@/app/utils/exif-webp";
+
+const ascii = (text: string) => new TextEncoder().encode(`${text}\0`);
+
+it("should keep ASCII values without key when re-encoding", () => {
+  const camera = encodeTIFFBlock([
+    { tag: EXIF_TAGS.Make, type: 2, value: ascii("Canon") },
+    { tag: EXIF_TAGS.Model, type: 2, value: ascii("EOS R5") },
+  ]);
+  expect(isEditableExif(camera)).toBe(true);
+  const exif = readExifText(camera);
+  expect(exif.entries.map((e) => [e.key, e.value])).toEqual([
+    ["Make", "Canon"],
+    ["Model", "EOS R5"],
+  ]);
+  expect(exif.plain.map((e) => e.tag)).toEqual([
+    EXIF_TAGS.Make,
+    EXIF_TAGS.Model,
+  ]);
+
+  // workflow and prompt move off the tags of the camera
+  const { text, plain } = editExifText(
+    exif,
+    { workflow: "{}", prompt: "{}" },
+    new Set(),
+    "webp",
+  );
+  const tiff = encodeExifText(text, plain);
+  const decoded = decodeTIFFBlock(tiff);
+  expect(decoded.entries.map((e) => [e.tag, e.ascii])).toEqual([
+    [EXIF_TAGS.ImageDescription - 1, "prompt:{}"],
+    [EXIF_TAGS.ImageDescription, "workflow:{}"],
+    [EXIF_TAGS.Make, "Canon"],
+    [EXIF_TAGS.Model, "EOS R5"],
+  ]);
+  expect(readExifText(tiff).entries.map((e) => e.key)).toEqual([
+    "prompt",
+    "workflow",
+    "Make",
+    "Model",
+  ]);
+});
+
+it("should not split dates and paths at their colons", () => {
+  const tiff = encodeTIFFBlock([
+    { tag: EXIF_TAGS.ImageDescription, type: 2, value: ascii("C:/x") },
+    { tag: 0x0132, type: 2, value: ascii("2024:01:02 03:04:05") },
+    { tag: EXIF_TAGS.Copyright, type: 2, value: ascii("workflow:{}") },
+  ]);
+  const exif = readExifText(tiff);
+  expect(exif.entries.map((e) => [e.key, e.value])).toEqual([
+    ["ImageDescription", "C:/x"],
+    ["DateTime", "2024:01:02 03:04:05"],
+    ["workflow", "{}"],
+  ]);
+
+  // named entries are edited in place
+  const { text, plain } = editExifText(
+    exif,
+    { ImageDescription: "D:/y" },
+    new Set(["DateTime"]),
+    "jpeg",
+  );
+  expect(
+    readExifText(encodeExifText(text, plain)).entries.map((e) => [
+      e.key,
+      e.value,
+    ]),
+  ).toEqual([
+    ["ImageDescription", "D:/y"],
+    ["workflow", "{}"],
+  ]);
+  expect(() => editExifText(exif, { "2024": "x" }, new Set(), "jpeg")).toThrow(
+    UnsupportedFeatureError,
+  );
+});
+
+it("should not edit blocks with numeric entries", () => {
+  // Orientation, a SHORT
+  const camera = encodeTIFFBlock([
+    { tag: 0x0112, type: 3, value: new Uint8Array([1, 0]) },
+  ]);
+  expect(isEditableExif(camera)).toBe(false);
+  expect(isEditableExif(new Uint8Array(4))).toBe(false);
+});
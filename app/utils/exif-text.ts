@@ -0,0 +1,194 @@
+import { UnsupportedFeatureError } from "./codec-errors";
+import {
+  decodeTIFFBlock,
+  encodeTIFFBlock,
+  EXIF_TAGS,
+  IFDEntryInput,
+  IFDEntryOutput,
+} from "./exif-webp";
+import { detectTextEncoding, MetadataEntry } from "./media-metadata";
+
+/**
+ * `key:value` text entries of EXIF TIFF blocks
+ *
+ * JPEG, WebP and HEIF files store metadata as ASCII entries of a TIFF block
+ * in the form `key:value`, the layout Hanzo Studio uses for webp (Make =
+ * workflow, Model = prompt). Other ASCII values, e.g. the Make or DateTime
+ * of a camera ("2024:01:02 03:04:05"), are read as entries named after their
+ * tag and are kept when a block is rewritten.
+ */
+
+// names of the ASCII tags of IFD0, others are named by their number
+const ASCII_TAG_NAMES: Record<number, string> = {
+  0x010d: "DocumentName",
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: "Artist",
+  0x013c: "HostComputer",
+  0x8298: "Copyright",
+};
+
+// a key starts with neither a digit nor a space and is no drive letter, so
+// dates and paths are not split at their colons
+const TEXT_KEY = /^[^\d\s:][^:]+$/;
+
+function splitTextEntry(ascii: string): [string, string] | undefined {
+  const index = ascii.indexOf(":");
+  const key = ascii.slice(0, index);
+  return index !== -1 && TEXT_KEY.test(key)
+    ? [key, ascii.slice(index + 1)]
+    : undefined;
+}
+
+function getTagName(tag: number): string {
+  return ASCII_TAG_NAMES[tag] ?? `Tag 0x${tag.toString(16).padStart(4, "0")}`;
+}
+
+export type ExifPlainEntry = IFDEntryInput & {
+  // the key the entry is read as, e.g. "DateTime"
+  name: string;
+};
+
+export type ExifText = {
+  // the metadata entries of all ASCII entries in tag order
+  entries: MetadataEntry[];
+  // the `key:value` entries
+  text: [string, string][];
+  // the other ASCII entries
+  plain: ExifPlainEntry[];
+};
+
+/**
+ * Camera EXIF blocks hold numeric entries and sub-IFD pointers that
+ * encodeTIFFBlock can not rebuild, only touch blocks with text entries.
+ * @param tiff The TIFF block, without the Exif header
+ */
+export function isEditableExif(tiff: Uint8Array): boolean {
+  try {
+    const { entries } = decodeTIFFBlock(tiff.slice());
+    return entries.every((e) => e.type === 2);
+  } catch (_: unknown) {
+    return false;
+  }
+}
+
+/**
+ * Read the ASCII entries of a TIFF block
+ * @param tiff The TIFF block, without the Exif header
+ * @throws If the block can not be decoded
+ */
+export function readExifText(tiff: Uint8Array): ExifText {
+  const { entries } = decodeTIFFBlock(tiff.slice());
+  const text: [string, string][] = [];
+  const plain: ExifPlainEntry[] = [];
+  for (const { tag, type, value, ascii } of entries) {
+    if (type !== 2 || ascii === undefined) continue;
+    const entry = splitTextEntry(ascii);
+    if (entry) text.push(entry);
+    else plain.push({ tag, type, value, name: getTagName(tag) });
+  }
+  return { entries: toExifTextEntries(entries), text, plain };
+}
+
+/**
+ * Get the metadata entries of decoded IFD entries, `key:value` entries and
+ * other ASCII entries named after their tag
+ */
+export function toExifTextEntries(entries: IFDEntryOutput[]): MetadataEntry[] {
+  return entries
+    .filter((e) => e.type === 2 && e.ascii !== undefined)
+    .map(({ tag, ascii }) => {
+      const [key, value] = splitTextEntry(ascii!) ?? [getTagName(tag), ascii!];
+      return {
+        key,
+        value,
+        origin: `EXIF 0x${tag.toString(16).padStart(4, "0")}`,
+        encoding: detectTextEncoding(ascii!),
+      };
+    });
+}
+
+/**
+ * Apply an edit to the entries of a TIFF block, entries named after their
+ * tag are updated in place
+ * @param exif The entries read from the block
+ * @param records The keys and values to set
+ * @param removed The keys to delete
+ * @param format The codec name, for the error
+ * @returns The `key:value` and other ASCII entries to encode
+ * @throws UnsupportedFeatureError for keys that would not read back, e.g.
+ * "2024"
+ */
+export function editExifText(
+  exif: Pick<ExifText, "text" | "plain">,
+  records: Record<string, string>,
+  removed: Set<string>,
+  format: string,
+): { text: [string, string][]; plain: IFDEntryInput[] } {
+  const plain = exif.plain
+    .filter((e) => !removed.has(e.name))
+    .map(({ name, ...entry }) =>
+      Object.hasOwn(records, name)
+        ? { ...entry, value: new TextEncoder().encode(`${records[name]}\0`) }
+        : entry,
+    );
+  const written = new Set(exif.plain.map((e) => e.name));
+  const text = exif.text
+    .filter(([key]) => !removed.has(key))
+    .map(([key, value]): [string, string] => {
+      written.add(key);
+      return [key, Object.hasOwn(records, key) ? records[key] : value];
+    });
+  for (const key of Object.keys(records)) {
+    if (written.has(key)) continue;
+    if (!TEXT_KEY.test(key)) {
+      throw new UnsupportedFeatureError(
+        format,
+        `Can not store the key ${JSON.stringify(key)} in EXIF`,
+        { context: { key } },
+      );
+    }
+    text.push([key, records[key]]);
+  }
+  return { text, plain };
+}
+
+/**
+ * Encode a TIFF block of `key:value` entries
+ *
+ * workflow and prompt use the same tags as Hanzo Studio webp output, other
+ * keys count down from ImageDescription, skipping the tags of plain entries.
+ * @param entries The keys and values to store
+ * @param plain The ASCII entries without key to keep
+ * @param options The byte order and padding of the block, see encodeTIFFBlock
+ */
+export function encodeExifText(
+  entries: [string, string][],
+  plain: IFDEntryInput[] = [],
+  options?: Parameters<typeof encodeTIFFBlock>[1],
+): Uint8Array {
+  const usedTags = new Set(plain.map((e) => e.tag));
+  const ifdEntries: IFDEntryInput[] = entries.map(([key, value], i) => {
+    let tag =
+      key === "workflow"
+        ? EXIF_TAGS.Make
+        : key === "prompt"
+          ? EXIF_TAGS.Model
+          : EXIF_TAGS.ImageDescription - i;
+    while (usedTags.has(tag)) tag--;
+    usedTags.add(tag);
+    return {
+      tag,
+      type: 2, // ASCII
+      value: new TextEncoder().encode(`${key}:${value}\0`),
+    };
+  });
+  // IFD entries must be sorted by tag
+  return encodeTIFFBlock(
+    [...plain, ...ifdEntries].sort((a, b) => a.tag - b.tag),
+    options,
+  );
+}
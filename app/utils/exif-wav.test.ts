@@ -0,0 +1,137 @@
+import { getWavMetadata, setWavMetadata } from "@/app/utils/exif-wav";
+import { glob } from "glob";
+
+it("extract wav workflow", async () => {
+  const wav = Bun.file("./tests/wav/ComfyUI.wav");
+  const ref = Bun.file(wav.name + ".workflow.json");
+
+  const metadata = getWavMetadata(await wav.arrayBuffer());
+
+  const workflow_expect = JSON.stringify(await ref.json());
+  const workflow_actual = JSON.stringify(JSON.parse(metadata.workflow));
+  expect(workflow_actual).toEqual(workflow_expect);
+  // prompt is stored in the LIST/INFO comment
+  expect(JSON.parse(metadata.prompt)).toBeDefined();
+});
+
+it("extract blank wav workflow", async () => {
+  const wav = Bun.file("./tests/wav/blank.wav");
+  const metadata = getWavMetadata(await wav.arrayBuffer());
+  expect(metadata.workflow).toBeUndefined();
+});
+
+it("set wav workflow", async () => {
+  const wavs = await glob("./tests/wav/*.wav");
+  expect(wavs.length).toBeGreaterThanOrEqual(2);
+
+  for await (const filename of wavs) {
+    const original = await Bun.file(filename).arrayBuffer();
+
+    const newWorkflow = '{"test":"hello, snomiao"}';
+    const newPrompt = '{"3":{"inputs":{"seed":1}}}';
+    const buffer = setWavMetadata(original, {
+      workflow: newWorkflow,
+      prompt: newPrompt,
+    });
+    const metadata = getWavMetadata(buffer);
+    expect(metadata.workflow).toBe(newWorkflow);
+    expect(metadata.prompt).toBe(newPrompt);
+
+    // other keys are kept
+    const originalMetadata = getWavMetadata(original);
+    for (const key of Object.keys(originalMetadata)) {
+      if (key !== "workflow" && key !== "prompt")
+        expect(metadata[key]).toBe(originalMetadata[key]);
+    }
+  }
+});
+
+it("should update the RIFF size and keep audio data untouched", async () => {
+  const wavs = await glob("./tests/wav/*.wav");
+
+  for await (const filename of wavs) {
+    const original = new Uint8Array(await Bun.file(filename).arrayBuffer());
+    // odd length, the chunk needs a pad byte
+    const buffer = setWavMetadata(original, { workflow: '{"a":1}' });
+
+    const view = new DataView(buffer.buffer);
+    expect(view.getUint32(4, true)).toBe(buffer.length - 8);
+    expect(readChunk(buffer, "data")).toEqual(readChunk(original, "data"));
+    expect(readChunk(buffer, "fmt ")).toEqual(readChunk(original, "fmt "));
+  }
+});
+
+it("should handle multiple save operations", async () => {
+  const wav = Bun.file("./tests/wav/blank.wav");
+
+  const buffer1 = setWavMetadata(await wav.arrayBuffer(), {
+    workflow: '{"version":1}',
+  });
+  const buffer2 = setWavMetadata(buffer1, { workflow: '{"version":2}' });
+
+  expect(getWavMetadata(buffer2).workflow).toBe('{"version":2}');
+  expect(buffer2.length).toBe(buffer1.length);
+});
+
+it("invalid WAV files throw errors", () => {
+  expect(() => getWavMetadata(new Uint8Array(12))).toThrow(
+    "Not a valid WAV file",
+  );
+});
+
+it("should read and write LIST/INFO sub-chunks", async () => {
+  const original = await Bun.file("./tests/wav/ComfyUI.wav").arrayBuffer();
+  expect(getWavMetadata(original).ISFT).toBe("Lavf61.7.100");
+
+  const buffer = setWavMetadata(
+    original,
+    { INAM: "title", ICOP: "2024 someone", ISFT: "editor" },
+    { remove: ["prompt"] },
+  );
+  const metadata = getWavMetadata(buffer);
+  expect(metadata).toMatchObject({
+    INAM: "title",
+    ICOP: "2024 someone",
+    ISFT: "editor",
+  });
+  expect(metadata.prompt).toBeUndefined();
+  // the fields are plain INFO strings
+  const info = new TextDecoder().decode(readChunk(buffer, "LIST"));
+  expect(info).toStartWith("INFOISFT");
+  expect(info).toContain("INAM\x06\0\0\0title\0");
+
+  // removing the new fields restores the original
+  const blank = await Bun.file("./tests/wav/blank.wav").arrayBuffer();
+  const titled = setWavMetadata(blank, { INAM: "title" });
+  expect(getWavMetadata(titled).INAM).toBe("title");
+  expect(setWavMetadata(titled, {}, { remove: ["INAM"] })).toEqual(
+    new Uint8Array(blank),
+  );
+});
+
+it("should add new keys behind the audio data", async () => {
+  const original = new Uint8Array(
+    await Bun.file("./tests/wav/blank.wav").arrayBuffer(),
+  );
+  const buffer = setWavMetadata(original, { workflow: '{"a":1}' });
+  const dataOffset = (wav: Uint8Array) => Buffer.from(wav).indexOf("data") + 8;
+  expect(dataOffset(buffer)).toBe(dataOffset(original));
+  expect(buffer.slice(0, dataOffset(buffer) - 8).subarray(8)).toEqual(
+    original.slice(0, dataOffset(original) - 8).subarray(8),
+  );
+  expect(getWavMetadata(buffer).workflow).toBe('{"a":1}');
+});
+
+/**
+ * Read a top level chunk body, independent from the codec
+ */
+function readChunk(wav: Uint8Array, id: string) {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  for (let offset = 12; offset + 8 <= wav.length;) {
+    const size = view.getUint32(offset + 4, true);
+    if (new TextDecoder().decode(wav.slice(offset, offset + 4)) === id)
+      return wav.slice(offset + 8, offset + 8 + size);
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error(`no ${id} chunk`);
+}
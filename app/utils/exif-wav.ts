@@ -0,0 +1,289 @@
+import { concatUint8Arrays } from "uint8array-extras";
+import { NotThisFormatError } from "./codec-errors";
+import {
+  detectTextEncoding,
+  MediaMetadata,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
+
+/**
+ * Functions for handling metadata in WAV (RIFF/WAVE) files
+ *
+ * Metadata is stored as UTF-8 text in two places:
+ * - sub-chunks of a `LIST` chunk with form type `INFO`, keyed by their ID
+ *   (`INAM`, `IART`, `ICOP`, ...), `ICMT` (comment) sub-chunks may hold
+ *   `key:value` text for other keys
+ * - dedicated `hzst` chunks of `key:value` text, one per key
+ * Both are read, existing entries are updated where they are. New INFO IDs
+ * go into the `LIST/INFO` chunk, other new keys are written as `hzst` chunks
+ * behind the `data` chunk, so the audio data keeps its offset.
+ * The RIFF size in the file header is recalculated on write.
+ *
+ * ref: - [WAV - Wikipedia]( https://en.wikipedia.org/wiki/WAV#RIFF_WAVE )
+ *      - [Resource Interchange File Format - INFO list]( https://www.recordingblogs.com/wiki/list-chunk-of-a-wave-file )
+ */
+
+const CHUNK_METADATA = "hzst";
+const CHUNK_LIST = "LIST";
+const CHUNK_DATA = "data";
+const LIST_INFO = "INFO";
+const INFO_COMMENT = "ICMT";
+// the IDs of INFO sub-chunks, e.g. INAM (title) or ICOP (copyright)
+const INFO_ID = /^I[A-Z0-9]{3}$/;
+
+type RiffChunk = {
+  id: string;
+  // the whole chunk including header and pad byte
+  bytes: Uint8Array;
+  data: Uint8Array;
+};
+
+/**
+ * Get metadata from a WAV file
+ * Reads the `LIST/INFO` sub-chunks and the `key:value` entries of `hzst`
+ * chunks
+ *
+ * @param input The WAV file buffer as Uint8Array or ArrayBuffer
+ * @returns Object containing extracted metadata with keys as field names and values as strings
+ */
+export function getWavMetadata(
+  input: Uint8Array | ArrayBuffer,
+): Record<string, string> {
+  return toMetadataRecord(getWavMediaMetadata(input));
+}
+
+/**
+ * Get the metadata entries of a WAV file in chunk order
+ *
+ * @param input The WAV file buffer as Uint8Array or ArrayBuffer
+ * @returns The metadata entries, origin is the (sub-)chunk ID
+ */
+export function getWavMediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
+  const wav = new Uint8Array(input);
+  if (!isWav(wav)) throw new NotThisFormatError("wav", "Not a valid WAV file");
+
+  const metadata: MediaMetadata = { entries: [] };
+  const addEntry = (origin: string, [key, value]: [string, string]) => {
+    metadata.entries.push({
+      key,
+      value,
+      origin,
+      encoding: detectTextEncoding(value),
+    });
+  };
+  for (const chunk of parseChunks(wav, 12)) {
+    if (isInfoList(chunk)) {
+      for (const subChunk of parseChunks(chunk.data, 4))
+        addEntry(subChunk.id, readInfoEntry(subChunk));
+    } else if (chunk.id === CHUNK_METADATA) {
+      const entry = readEntry(chunk.data);
+      if (entry) addEntry(chunk.id, entry);
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Get the audio data of a WAV file, which metadata edits never change
+ *
+ * @param input The WAV file buffer as Uint8Array or ArrayBuffer
+ * @returns The data of the `fmt `, `fact` and `data` chunks in order
+ */
+export function getWavPayload(input: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const wav = new Uint8Array(input);
+  if (!isWav(wav)) throw new NotThisFormatError("wav", "Not a valid WAV file");
+
+  return parseChunks(wav, 12)
+    .filter((e) => ["fmt ", "fact", CHUNK_DATA].includes(e.id))
+    .map((e) => e.data);
+}
+
+/**
+ * Set metadata in a WAV file
+ * Updates the chunks holding the given keys in place, adds new INFO IDs to
+ * the `LIST/INFO` chunk and `hzst` chunks for other new keys at the end,
+ * audio data and other chunks are copied as is.
+ *
+ * @param buffer The WAV file buffer
+ * @param metadata The metadata to set or update
+ * @param options.remove Keys to delete, a `LIST/INFO` chunk left empty is dropped
+ * @returns The modified WAV file buffer
+ */
+export function setWavMetadata(
+  buffer: ArrayBuffer | Uint8Array,
+  metadata: MetadataInput,
+  { remove = [] }: MetadataWriteOptions = {},
+): Uint8Array {
+  const modifyRecords = toSingleValueRecord(metadata, "wav");
+  const removed = new Set(
+    remove.filter((key) => !Object.hasOwn(modifyRecords, key)),
+  );
+  const wav = new Uint8Array(buffer);
+  if (!isWav(wav)) throw new NotThisFormatError("wav", "Not a valid WAV file");
+
+  const chunks = parseChunks(wav, 12);
+  const replaced = new Set<string>();
+  // returns the new bytes for an entry chunk, or null to drop a duplicate
+  const replaceEntry = (id: string, key: string) => {
+    if (replaced.has(key)) return null;
+    replaced.add(key);
+    return createChunk(id, encodeEntry(id, key, modifyRecords[key]));
+  };
+  const newKeys = (isInfo: boolean) =>
+    Object.keys(modifyRecords).filter(
+      (key) => !replaced.has(key) && INFO_ID.test(key) === isInfo,
+    );
+
+  const newChunks: Uint8Array[] = [];
+  let infoWritten = false;
+  for (const chunk of chunks) {
+    if (isInfoList(chunk)) {
+      const subChunks = parseChunks(chunk.data, 4).flatMap((e) => {
+        const [key] = readInfoEntry(e);
+        if (removed.has(key)) return [];
+        if (!Object.hasOwn(modifyRecords, key)) return [e.bytes];
+        return replaceEntry(e.id, key) ?? [];
+      });
+      // new INFO IDs go into the first list
+      if (!infoWritten)
+        subChunks.push(...newKeys(true).map((key) => replaceEntry(key, key)!));
+      infoWritten = true;
+      if (!subChunks.length) continue;
+      newChunks.push(
+        createChunk(
+          CHUNK_LIST,
+          concatUint8Arrays([chunk.data.slice(0, 4), ...subChunks]),
+        ),
+      );
+      continue;
+    }
+    const key =
+      chunk.id === CHUNK_METADATA ? readEntry(chunk.data)?.[0] : undefined;
+    if (key !== undefined && removed.has(key)) continue;
+    if (key !== undefined && Object.hasOwn(modifyRecords, key)) {
+      const bytes = replaceEntry(CHUNK_METADATA, key);
+      if (bytes) newChunks.push(bytes);
+      continue;
+    }
+    newChunks.push(chunk.bytes);
+  }
+
+  // new keys go behind the audio data, which keeps its offset
+  const infoKeys = newKeys(true);
+  if (infoKeys.length) {
+    newChunks.push(
+      createChunk(
+        CHUNK_LIST,
+        concatUint8Arrays([
+          new TextEncoder().encode(LIST_INFO),
+          ...infoKeys.map((key) => replaceEntry(key, key)!),
+        ]),
+      ),
+    );
+  }
+  newChunks.push(
+    ...newKeys(false).map((key) => replaceEntry(CHUNK_METADATA, key)!),
+  );
+
+  return createRiff(wav.slice(8, 12), newChunks);
+}
+
+function isWav(wav: Uint8Array): boolean {
+  return (
+    wav.length >= 12 &&
+    String.fromCharCode(...wav.slice(0, 4)) === "RIFF" &&
+    String.fromCharCode(...wav.slice(8, 12)) === "WAVE"
+  );
+}
+
+function isInfoList(chunk: RiffChunk): boolean {
+  return (
+    chunk.id === CHUNK_LIST &&
+    String.fromCharCode(...chunk.data.slice(0, 4)) === LIST_INFO
+  );
+}
+
+/**
+ * Walk the chunks of a RIFF body (or a LIST body), chunks are padded to an
+ * even size
+ */
+function parseChunks(data: Uint8Array, offset: number): RiffChunk[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunks: RiffChunk[] = [];
+  while (offset + 8 <= data.length) {
+    const id = String.fromCharCode(...data.slice(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(offset + 8 + size + (size % 2), data.length);
+    chunks.push({
+      id,
+      bytes: data.slice(offset, end),
+      data: data.slice(offset + 8, Math.min(offset + 8 + size, data.length)),
+    });
+    offset = end;
+  }
+  return chunks;
+}
+
+function readText(data: Uint8Array): string {
+  // INFO strings are null terminated
+  let end = data.length;
+  while (end > 0 && data[end - 1] === 0) end--;
+  return new TextDecoder().decode(data.slice(0, end));
+}
+
+function readEntry(data: Uint8Array): [string, string] | undefined {
+  const text = readText(data);
+  const index = text.indexOf(":");
+  if (index === -1) return undefined;
+  return [text.slice(0, index), text.slice(index + 1)];
+}
+
+/**
+ * INFO sub-chunks are keyed by their ID, comments may hold `key:value` text
+ */
+function readInfoEntry(chunk: RiffChunk): [string, string] {
+  return (
+    (chunk.id === INFO_COMMENT ? readEntry(chunk.data) : undefined) ?? [
+      chunk.id,
+      readText(chunk.data),
+    ]
+  );
+}
+
+/**
+ * @param id The ID of the chunk, INFO sub-chunks of their own key hold only
+ * the value
+ */
+function encodeEntry(id: string, key: string, value: string): Uint8Array {
+  const text = id === key && INFO_ID.test(id) ? value : `${key}:${value}`;
+  return new TextEncoder().encode(`${text}\0`);
+}
+
+function createChunk(id: string, data: Uint8Array): Uint8Array {
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode(id), 0);
+  new DataView(header.buffer).setUint32(4, data.length, true);
+  const padding = new Uint8Array(data.length % 2);
+  return concatUint8Arrays([header, data, padding]);
+}
+
+function createRiff(formType: Uint8Array, chunks: Uint8Array[]): Uint8Array {
+  const riff = concatUint8Arrays([
+    new TextEncoder().encode("RIFF"),
+    new Uint8Array(4),
+    formType,
+    ...chunks,
+  ]);
+  // RIFF size counts everything after the size field
+  new DataView(riff.buffer, riff.byteOffset).setUint32(
+    4,
+    riff.length - 8,
+    true,
+  );
+  return riff;
+}
@@ -0,0 +1,172 @@
+import { getWebmMetadata, setWebmMetadata } from "@/app/utils/exif-webm";
+import { glob } from "glob";
+
+it("extract webm workflow", async () => {
+  const webm = Bun.file("./tests/webm/ComfyUI.webm");
+  const ref = Bun.file(webm.name + ".workflow.json");
+
+  const metadata = getWebmMetadata(await webm.arrayBuffer());
+
+  const workflow_expect = JSON.stringify(await ref.json());
+  const workflow_actual = JSON.stringify(JSON.parse(metadata.workflow));
+  expect(workflow_actual).toEqual(workflow_expect);
+  expect(metadata.prompt).toBeDefined();
+});
+
+it("extract blank webm workflow", async () => {
+  const webm = Bun.file("./tests/webm/blank.webm");
+  const metadata = getWebmMetadata(await webm.arrayBuffer());
+  expect(metadata.workflow).toBeUndefined();
+  expect(metadata.ENCODER).toBe("Lavf61.7.100");
+});
+
+describe("set webm workflow", async () => {
+  const files = await glob("./tests/webm/*.webm");
+  expect(files.length).toBeGreaterThanOrEqual(2);
+
+  for (const filename of files) {
+    it(`should round-trip workflow for ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+
+      const newWorkflow = '{"test":"hello, snomiao"}';
+      const buffer = setWebmMetadata(original, { workflow: newWorkflow });
+      const metadata = getWebmMetadata(buffer);
+      expect(metadata.workflow).toBe(newWorkflow);
+
+      // other keys are kept
+      const originalMetadata = getWebmMetadata(original);
+      for (const key of Object.keys(originalMetadata)) {
+        if (key !== "workflow")
+          expect(metadata[key]).toBe(originalMetadata[key]);
+      }
+      checkPositions(buffer);
+    });
+
+    it(`should keep seek and cue positions valid for ${filename}`, async () => {
+      const original = new Uint8Array(await Bun.file(filename).arrayBuffer());
+
+      // larger than the old Tags, appended to the end
+      const largeWorkflow = JSON.stringify({ test: "x".repeat(20000) });
+      const buffer = setWebmMetadata(original, { workflow: largeWorkflow });
+      expect(getWebmMetadata(buffer).workflow).toBe(largeWorkflow);
+      expect(buffer.length).toBeGreaterThan(original.length);
+
+      // Tags are the last element now and shrink with the value
+      const buffer2 = setWebmMetadata(buffer, { workflow: "{}" });
+      expect(getWebmMetadata(buffer2).workflow).toBe("{}");
+      expect(buffer2.length).toBeLessThan(buffer.length);
+
+      for (const data of [original, buffer, buffer2]) {
+        const positions = checkPositions(data);
+        // clusters are untouched
+        expect(positions.clusters).toEqual(checkPositions(original).clusters);
+      }
+    });
+  }
+});
+
+it("should write smaller Tags in place with Void padding", async () => {
+  const webm = Bun.file("./tests/webm/ComfyUI.webm");
+  const original = new Uint8Array(await webm.arrayBuffer());
+
+  const buffer = setWebmMetadata(original, { workflow: "{}" });
+  expect(getWebmMetadata(buffer).workflow).toBe("{}");
+  expect(buffer.length).toBe(original.length);
+  checkPositions(buffer);
+
+  // the freed space is reused by the next save
+  const buffer2 = setWebmMetadata(buffer, { workflow: '{"version":2}' });
+  expect(getWebmMetadata(buffer2).workflow).toBe('{"version":2}');
+  expect(buffer2.length).toBe(original.length);
+  checkPositions(buffer2);
+});
+
+it("should refuse to append Tags without room to update the SeekHead", async () => {
+  const webm = await Bun.file("./tests/webm/blank.webm").bytes();
+  // blank.webm: the Void after the SeekHead at 121 turns into a CRC-32
+  // element, which can not be overwritten, and the SeekHead loses its entry
+  // for Tags, so it has to grow
+  webm[121] = 0xbf;
+  const tagsSeekId = new Uint8Array([0x53, 0xab, 0x84, 0x12, 0x54, 0xc3, 0x67]);
+  const seekIdOffset = Buffer.from(webm).indexOf(tagsSeekId);
+  expect(seekIdOffset).toBeGreaterThan(48);
+  webm[seekIdOffset + 6] = 0x68;
+  const largeWorkflow = JSON.stringify({ test: "x".repeat(2000) });
+  expect(() => setWebmMetadata(webm, { workflow: largeWorkflow })).toThrow(
+    "No room to update the WebM SeekHead for Tags",
+  );
+  // smaller Tags are written in place and leave the SeekHead alone
+  const buffer = setWebmMetadata(webm, {}, { remove: ["ENCODER"] });
+  expect(getWebmMetadata(buffer).ENCODER).toBeUndefined();
+});
+
+it("invalid WebM files throw errors", () => {
+  expect(() => getWebmMetadata(new Uint8Array([0, 1, 2, 3]))).toThrow(
+    "Not a valid WebM file",
+  );
+});
+
+/**
+ * Check that SeekHead and Cues positions point at the expected element IDs,
+ * independent from the codec (fixtures use 8 byte segment size)
+ * @returns the cluster bytes
+ */
+function checkPositions(webm: Uint8Array) {
+  const readVint = (offset: number) => {
+    let length = 1;
+    while (!(webm[offset] & (0x80 >> (length - 1)))) length++;
+    let value = webm[offset] & (0xff >> length);
+    for (let i = 1; i < length; i++) value = value * 256 + webm[offset + i];
+    return { value, length };
+  };
+  const readElement = (offset: number) => {
+    let idLength = 1;
+    while (!(webm[offset] & (0x80 >> (idLength - 1)))) idLength++;
+    const id = [...webm.slice(offset, offset + idLength)]
+      .map((e) => e.toString(16).padStart(2, "0"))
+      .join("");
+    const size = readVint(offset + idLength);
+    const dataOffset = offset + idLength + size.length;
+    return { id, offset, dataOffset, end: dataOffset + size.value };
+  };
+  const children = (start: number, end: number) => {
+    const elements = [];
+    for (let offset = start; offset < end;) {
+      const element = readElement(offset);
+      elements.push(element);
+      offset = element.end;
+    }
+    return elements;
+  };
+  const readUint = (e: { dataOffset: number; end: number }) =>
+    [...webm.slice(e.dataOffset, e.end)].reduce((a, b) => a * 256 + b, 0);
+
+  const [, segment] = children(0, webm.length);
+  expect(segment.id).toBe("18538067");
+  expect(segment.end).toBe(webm.length);
+  const base = segment.dataOffset;
+  const top = children(base, segment.end);
+
+  const seekHead = top.find((e) => e.id === "114d9b74")!;
+  for (const seek of children(seekHead.dataOffset, seekHead.end)) {
+    const [seekId, seekPosition] = children(seek.dataOffset, seek.end);
+    const target = readElement(base + readUint(seekPosition));
+    const expected = [...webm.slice(seekId.dataOffset, seekId.end)]
+      .map((e) => e.toString(16).padStart(2, "0"))
+      .join("");
+    expect(target.id).toBe(expected);
+  }
+
+  const cues = top.find((e) => e.id === "1c53bb6b")!;
+  for (const cuePoint of children(cues.dataOffset, cues.end)) {
+    const [, positions] = children(cuePoint.dataOffset, cuePoint.end);
+    const [, clusterPosition] = children(positions.dataOffset, positions.end);
+    expect(readElement(base + readUint(clusterPosition)).id).toBe("1f43b675");
+  }
+
+  return {
+    clusters: top
+      .filter((e) => e.id === "1f43b675")
+      .map((e) => webm.slice(e.offset, e.end)),
+  };
+}
@@ -0,0 +1,594 @@
+import { concatUint8Arrays } from "uint8array-extras";
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  UnsupportedFeatureError,
+} from "./codec-errors";
+import {
+  detectTextEncoding,
+  MediaMetadata,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
+
+/**
+ * Functions for handling metadata in WebM / Matroska files
+ *
+ * Metadata is stored as `SimpleTag` elements (TagName = key, TagString = value)
+ * in a global `Tag` (one without target UIDs) of the `Tags` element.
+ *
+ * SeekHead and Cues store positions relative to the start of the Segment data,
+ * so the writer never moves existing elements:
+ * - when the new Tags fit into the old Tags element and the Void elements
+ *   following it, they are written in place and the rest is padded with Void
+ * - otherwise the old Tags turn into a Void element, the new Tags are appended
+ *   to the end of the Segment and the SeekHead entry is updated, files
+ *   without room for the new entry in the SeekHead are refused
+ *
+ * ref: - [Matroska Elements]( https://www.matroska.org/technical/elements.html )
+ *      - [EBML - RFC 8794]( https://www.rfc-editor.org/rfc/rfc8794 )
+ */
+
+const EBML_IDS = {
+  EBML: 0x1a45dfa3,
+  DocType: 0x4282,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Tracks: 0x1654ae6b,
+  Cluster: 0x1f43b675,
+  Tags: 0x1254c367,
+  Tag: 0x7373,
+  Targets: 0x63c0,
+  TagTrackUID: 0x63c5,
+  TagEditionUID: 0x63c9,
+  TagChapterUID: 0x63c4,
+  TagAttachmentUID: 0x63c6,
+  SimpleTag: 0x67c8,
+  TagName: 0x45a3,
+  TagString: 0x4487,
+  Void: 0xec,
+};
+
+const TARGET_UIDS = [
+  EBML_IDS.TagTrackUID,
+  EBML_IDS.TagEditionUID,
+  EBML_IDS.TagChapterUID,
+  EBML_IDS.TagAttachmentUID,
+];
+
+type EbmlElement = {
+  id: number;
+  // offset of the element ID
+  offset: number;
+  dataOffset: number;
+  // end of the element data
+  end: number;
+  unknownSize: boolean;
+};
+
+/**
+ * Get metadata from a WebM / Matroska file
+ * Reads `TagName`/`TagString` pairs from the SimpleTags of the Tags elements
+ *
+ * @param input The WebM file buffer as Uint8Array or ArrayBuffer
+ * @returns Object containing extracted metadata with keys as field names and values as strings
+ */
+export function getWebmMetadata(
+  input: Uint8Array | ArrayBuffer,
+): Record<string, string> {
+  return toMetadataRecord(getWebmMediaMetadata(input));
+}
+
+/**
+ * Get the SimpleTags of a WebM / Matroska file in order
+ *
+ * @param input The WebM file buffer as Uint8Array or ArrayBuffer
+ * @returns The metadata entries
+ */
+export function getWebmMediaMetadata(
+  input: Uint8Array | ArrayBuffer,
+): MediaMetadata {
+  const webm = new Uint8Array(input);
+  const { children } = parseSegment(webm);
+
+  const metadata: MediaMetadata = { entries: [] };
+  children
+    .filter((e) => e.id === EBML_IDS.Tags)
+    .flatMap((tags) => parseElements(webm, tags.dataOffset, tags.end))
+    .filter((e) => e.id === EBML_IDS.Tag)
+    .flatMap((tag) => parseElements(webm, tag.dataOffset, tag.end))
+    .filter((e) => e.id === EBML_IDS.SimpleTag)
+    .forEach((simpleTag) => {
+      const entry = readSimpleTag(webm, simpleTag);
+      if (!entry) return;
+      metadata.entries.push({
+        key: entry.name,
+        value: entry.value,
+        origin: "SimpleTag",
+        encoding: detectTextEncoding(entry.value),
+      });
+    });
+  return metadata;
+}
+
+/**
+ * Get the media data of a WebM / Matroska file, which metadata edits never
+ * change
+ *
+ * @param input The WebM file buffer as Uint8Array or ArrayBuffer
+ * @returns The data of the Tracks and Cluster elements in order
+ */
+export function getWebmPayload(input: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const webm = new Uint8Array(input);
+  const { children } = parseSegment(webm);
+  return children
+    .filter((e) => e.id === EBML_IDS.Tracks || e.id === EBML_IDS.Cluster)
+    .map((e) => webm.slice(e.dataOffset, e.end));
+}
+
+/**
+ * Set metadata in a WebM / Matroska file
+ * Updates SimpleTags in place and adds new ones to the global Tag,
+ * clusters, cues and other elements keep their position.
+ *
+ * @param buffer The WebM file buffer
+ * @param metadata The metadata to set or update
+ * @param options.remove Keys whose SimpleTags are dropped
+ * @returns The modified WebM file buffer
+ */
+export function setWebmMetadata(
+  buffer: ArrayBuffer | Uint8Array,
+  metadata: MetadataInput,
+  { remove = [] }: MetadataWriteOptions = {},
+): Uint8Array {
+  const modifyRecords = toSingleValueRecord(metadata, "webm");
+  const removed = new Set(
+    remove.filter((key) => !Object.hasOwn(modifyRecords, key)),
+  );
+  const webm = new Uint8Array(buffer);
+  const { segment, children } = parseSegment(webm);
+
+  const tagsIndex = children.findIndex((e) => e.id === EBML_IDS.Tags);
+  const tags = children[tagsIndex];
+  // don't add empty Tags to a file without them
+  if (!tags && !Object.keys(modifyRecords).length) return webm.slice();
+  const newTags = encodeElement(
+    EBML_IDS.Tags,
+    createTagsData(webm, tags, modifyRecords, removed),
+  );
+
+  // element index => replacement bytes, covering the elements up to `until`
+  const replacements = new Map<number, { bytes: Uint8Array; until: number }>();
+  let appended: Uint8Array | null = null;
+
+  const inPlace = tags && fitInPlace(webm, children, tagsIndex, newTags);
+  if (inPlace) {
+    replacements.set(tagsIndex, inPlace);
+  } else {
+    // append to the end, previous Tags become padding
+    if (tags) {
+      replacements.set(tagsIndex, {
+        bytes: createVoid(tags.end - tags.offset),
+        until: tagsIndex,
+      });
+    }
+    const last = children[children.length - 1];
+    if (last?.unknownSize) {
+      throw new UnsupportedFeatureError(
+        "webm",
+        "Can not append WebM Tags after an element of unknown size",
+      );
+    }
+    appended = newTags;
+
+    const tagsPosition = (last?.end ?? segment.dataOffset) - segment.dataOffset;
+    const seekHeadIndex = children.findIndex((e) => e.id === EBML_IDS.SeekHead);
+    const seekHead = children[seekHeadIndex];
+    if (seekHead) {
+      const newSeekHead = encodeElement(
+        EBML_IDS.SeekHead,
+        createSeekHeadData(webm, seekHead, EBML_IDS.Tags, tagsPosition),
+      );
+      const seekHeadInPlace = fitInPlace(
+        webm,
+        children,
+        seekHeadIndex,
+        newSeekHead,
+      );
+      // a stale SeekHead would point players at the old Tags
+      if (!seekHeadInPlace) {
+        throw new UnsupportedFeatureError(
+          "webm",
+          "No room to update the WebM SeekHead for Tags",
+          { offset: seekHead.offset },
+        );
+      }
+      replacements.set(seekHeadIndex, seekHeadInPlace);
+    }
+  }
+
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < children.length; i++) {
+    const replacement = replacements.get(i);
+    if (replacement) {
+      parts.push(replacement.bytes);
+      i = replacement.until;
+      continue;
+    }
+    parts.push(webm.slice(children[i].offset, children[i].end));
+  }
+  if (appended) parts.push(appended);
+
+  // positions are relative to the segment data, so the segment header may grow
+  const segmentData = concatUint8Arrays(parts);
+  const segmentHeader = segment.unknownSize
+    ? webm.slice(segment.offset, segment.dataOffset)
+    : concatUint8Arrays([
+        encodeId(EBML_IDS.Segment),
+        encodeVint(
+          segmentData.length,
+          segment.dataOffset -
+            segment.offset -
+            encodeId(EBML_IDS.Segment).length,
+        ),
+      ]);
+
+  return concatUint8Arrays([
+    webm.slice(0, segment.offset),
+    segmentHeader,
+    segmentData,
+    webm.slice(segment.end),
+  ]);
+}
+
+function parseSegment(webm: Uint8Array): {
+  segment: EbmlElement;
+  children: EbmlElement[];
+} {
+  const topLevel = isWebm(webm) ? parseElements(webm, 0, webm.length) : [];
+  const segment = topLevel.find((e) => e.id === EBML_IDS.Segment);
+  if (!segment) throw new NotThisFormatError("webm", "Not a valid WebM file");
+  return {
+    segment,
+    children: parseElements(webm, segment.dataOffset, segment.end),
+  };
+}
+
+function isWebm(webm: Uint8Array): boolean {
+  const magic = new DataView(webm.buffer, webm.byteOffset, webm.byteLength);
+  if (webm.length < 4 || magic.getUint32(0) !== EBML_IDS.EBML) return false;
+  const [header] = parseElements(webm, 0, webm.length, 1);
+  const docType = parseElements(webm, header.dataOffset, header.end).find(
+    (e) => e.id === EBML_IDS.DocType,
+  );
+  const type = docType && readString(webm, docType);
+  return type === "webm" || type === "matroska";
+}
+
+/**
+ * Parse sibling elements between start and end, an element with unknown size
+ * extends to the end
+ */
+function parseElements(
+  data: Uint8Array,
+  start: number,
+  end: number,
+  limit = Infinity,
+): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+  while (offset < end && elements.length < limit) {
+    const { id, length: idLength } = readId(data, offset);
+    const size = readVint(data, offset + idLength);
+    const dataOffset = offset + idLength + size.length;
+    const elementEnd = size.unknown
+      ? end
+      : Math.min(dataOffset + size.value, end);
+    elements.push({
+      id,
+      offset,
+      dataOffset,
+      end: elementEnd,
+      unknownSize: size.unknown,
+    });
+    offset = elementEnd;
+  }
+  return elements;
+}
+
+function readId(data: Uint8Array, offset: number) {
+  const length = getVintLength(data[offset]);
+  if (length > 4) {
+    throw new CorruptStructureError(
+      "webm",
+      `Invalid EBML element ID at ${offset}`,
+      { offset },
+    );
+  }
+  let id = 0;
+  for (let i = 0; i < length; i++) id = id * 256 + data[offset + i];
+  return { id, length };
+}
+
+function readVint(data: Uint8Array, offset: number) {
+  const length = getVintLength(data[offset]);
+  if (length > 8) {
+    throw new CorruptStructureError("webm", `Invalid EBML size at ${offset}`, {
+      offset,
+    });
+  }
+  const mask = 0xff >> length;
+  let value = data[offset] & mask;
+  let unknown = value === mask;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    unknown &&= data[offset + i] === 0xff;
+  }
+  return { value, length, unknown };
+}
+
+function getVintLength(firstByte: number): number {
+  let length = 1;
+  while (length <= 8 && !(firstByte & (0x80 >> (length - 1)))) length++;
+  return length;
+}
+
+function readString(data: Uint8Array, element: EbmlElement): string {
+  const bytes = data.slice(element.dataOffset, element.end);
+  // strings may be zero padded
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.slice(0, end));
+}
+
+function readUint(data: Uint8Array, element: EbmlElement): number {
+  let value = 0;
+  for (let i = element.dataOffset; i < element.end; i++)
+    value = value * 256 + data[i];
+  return value;
+}
+
+function readSimpleTag(data: Uint8Array, simpleTag: EbmlElement) {
+  const children = parseElements(data, simpleTag.dataOffset, simpleTag.end);
+  const name = children.find((e) => e.id === EBML_IDS.TagName);
+  const value = children.find((e) => e.id === EBML_IDS.TagString);
+  if (!name || !value) return undefined;
+  return { name: readString(data, name), value: readString(data, value) };
+}
+
+/**
+ * Rebuild the Tags data, replacing the TagString of existing SimpleTags,
+ * dropping removed ones and adding new SimpleTags to the first global Tag
+ */
+function createTagsData(
+  webm: Uint8Array,
+  tags: EbmlElement | undefined,
+  modifyRecords: Record<string, string>,
+  removed: Set<string>,
+): Uint8Array {
+  const tagElements = tags
+    ? parseElements(webm, tags.dataOffset, tags.end)
+    : [];
+  const existingKeys = new Set(
+    tagElements
+      .filter((e) => e.id === EBML_IDS.Tag)
+      .flatMap((tag) => parseElements(webm, tag.dataOffset, tag.end))
+      .filter((e) => e.id === EBML_IDS.SimpleTag)
+      .map((e) => readSimpleTag(webm, e)?.name),
+  );
+  const newSimpleTags = Object.entries(modifyRecords)
+    .filter(([key]) => !existingKeys.has(key))
+    .map(([key, value]) => createSimpleTag(key, value));
+
+  const replaced = new Set<string>();
+  let added = newSimpleTags.length === 0;
+  const parts = tagElements.map((tag) => {
+    if (tag.id !== EBML_IDS.Tag) return webm.slice(tag.offset, tag.end);
+
+    const children = parseElements(webm, tag.dataOffset, tag.end);
+    const tagParts = children.flatMap((child) => {
+      const name =
+        child.id === EBML_IDS.SimpleTag && readSimpleTag(webm, child)?.name;
+      if (name && removed.has(name)) return [];
+      if (!name || !Object.hasOwn(modifyRecords, name))
+        return [webm.slice(child.offset, child.end)];
+      // first SimpleTag of a key is updated, duplicates are dropped
+      if (replaced.has(name)) return [];
+      replaced.add(name);
+      return [updateSimpleTag(webm, child, modifyRecords[name])];
+    });
+    if (!added && isGlobalTag(webm, children)) {
+      tagParts.push(...newSimpleTags);
+      added = true;
+    }
+    return encodeElement(EBML_IDS.Tag, concatUint8Arrays(tagParts));
+  });
+
+  if (!added) {
+    parts.push(
+      encodeElement(
+        EBML_IDS.Tag,
+        concatUint8Arrays([
+          encodeElement(EBML_IDS.Targets, new Uint8Array(0)),
+          ...newSimpleTags,
+        ]),
+      ),
+    );
+  }
+  return concatUint8Arrays(parts);
+}
+
+function isGlobalTag(webm: Uint8Array, children: EbmlElement[]): boolean {
+  const targets = children.find((e) => e.id === EBML_IDS.Targets);
+  if (!targets) return true;
+  return parseElements(webm, targets.dataOffset, targets.end).every(
+    (e) => !TARGET_UIDS.includes(e.id),
+  );
+}
+
+function createSimpleTag(key: string, value: string): Uint8Array {
+  return encodeElement(
+    EBML_IDS.SimpleTag,
+    concatUint8Arrays([
+      encodeElement(EBML_IDS.TagName, new TextEncoder().encode(key)),
+      encodeElement(EBML_IDS.TagString, new TextEncoder().encode(value)),
+    ]),
+  );
+}
+
+/**
+ * Replace the TagString of a SimpleTag, keeping language and other children
+ */
+function updateSimpleTag(
+  webm: Uint8Array,
+  simpleTag: EbmlElement,
+  value: string,
+): Uint8Array {
+  const children = parseElements(webm, simpleTag.dataOffset, simpleTag.end);
+  return encodeElement(
+    EBML_IDS.SimpleTag,
+    concatUint8Arrays(
+      children.map((child) =>
+        child.id === EBML_IDS.TagString
+          ? encodeElement(EBML_IDS.TagString, new TextEncoder().encode(value))
+          : webm.slice(child.offset, child.end),
+      ),
+    ),
+  );
+}
+
+/**
+ * Rebuild the SeekHead data with the position of the given element
+ */
+function createSeekHeadData(
+  webm: Uint8Array,
+  seekHead: EbmlElement,
+  id: number,
+  position: number,
+): Uint8Array {
+  const idBytes = encodeId(id);
+  const newSeek = encodeElement(
+    EBML_IDS.Seek,
+    concatUint8Arrays([
+      encodeElement(EBML_IDS.SeekID, idBytes),
+      encodeElement(EBML_IDS.SeekPosition, encodeUint(position)),
+    ]),
+  );
+
+  let found = false;
+  const parts = parseElements(webm, seekHead.dataOffset, seekHead.end).map(
+    (seek) => {
+      const seekId = parseElements(webm, seek.dataOffset, seek.end).find(
+        (e) => e.id === EBML_IDS.SeekID,
+      );
+      const isTarget =
+        seek.id === EBML_IDS.Seek &&
+        seekId &&
+        readUint(webm, seekId) === id &&
+        !found;
+      if (!isTarget) return webm.slice(seek.offset, seek.end);
+      found = true;
+      return newSeek;
+    },
+  );
+  if (!found) parts.push(newSeek);
+  return concatUint8Arrays(parts);
+}
+
+/**
+ * Try to write an element over the old one and the Void elements after it,
+ * padding the rest with a new Void element
+ */
+function fitInPlace(
+  webm: Uint8Array,
+  children: EbmlElement[],
+  index: number,
+  element: Uint8Array,
+): { bytes: Uint8Array; until: number } | null {
+  let until = index;
+  while (children[until + 1]?.id === EBML_IDS.Void) until++;
+  // the last element of a segment can grow freely
+  if (until === children.length - 1 && !children[until].unknownSize)
+    return { bytes: element, until };
+
+  const available = children[until].end - children[index].offset;
+  let bytes = element;
+  if (available - bytes.length === 1) {
+    // a Void element takes at least 2 bytes, widen the size field instead
+    const { id, length: idLength } = readId(bytes, 0);
+    const size = readVint(bytes, idLength);
+    if (size.length === 8) return null;
+    bytes = encodeElement(
+      id,
+      bytes.slice(idLength + size.length),
+      size.length + 1,
+    );
+  }
+  if (bytes.length > available) return null;
+  return {
+    bytes:
+      bytes.length === available
+        ? bytes
+        : concatUint8Arrays([bytes, createVoid(available - bytes.length)]),
+    until,
+  };
+}
+
+function encodeId(id: number): Uint8Array {
+  const length = id < 0x100 ? 1 : id < 0x10000 ? 2 : id < 0x1000000 ? 3 : 4;
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, v = id; i >= 0; i--, v = Math.floor(v / 256))
+    bytes[i] = v % 256;
+  return bytes;
+}
+
+/**
+ * Encode a size as EBML variable length integer, using at least `minLength` bytes
+ */
+function encodeVint(value: number, minLength = 1): Uint8Array {
+  let length = Math.max(minLength, 1);
+  // all ones is reserved for unknown size
+  while (value >= 2 ** (7 * length) - 1) length++;
+  if (length > 8)
+    throw new UnsupportedFeatureError("webm", `EBML size too large: ${value}`);
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, v = value; i >= 0; i--, v = Math.floor(v / 256))
+    bytes[i] = v % 256;
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function encodeUint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+}
+
+function encodeElement(
+  id: number,
+  data: Uint8Array,
+  sizeLength?: number,
+): Uint8Array {
+  return concatUint8Arrays([
+    encodeId(id),
+    encodeVint(data.length, sizeLength),
+    data,
+  ]);
+}
+
+function createVoid(length: number): Uint8Array {
+  // 1 byte ID, then a 1 byte size up to 126 or an 8 byte size
+  const dataLength = length - 2 <= 126 ? length - 2 : length - 9;
+  return encodeElement(
+    EBML_IDS.Void,
+    new Uint8Array(dataLength),
+    dataLength === length - 2 ? 1 : 8,
+  );
+}
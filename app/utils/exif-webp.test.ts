@@ -1,4 +1,9 @@
-import { getWebpMetadata, setWebpMetadata } from "@/app/utils/exif-webp";
+import { NotThisFormatError } from "@/app/utils/codec-errors";
+import {
+  decodeTIFFBlock,
+  getWebpMetadata,
+  setWebpMetadata,
+} from "@/app/utils/exif-webp";
 import { glob } from "glob";
 
 describe("WebP EXIF metadata", () => {
@@ -146,10 +151,9 @@ describe("WebP EXIF metadata", () => {
     expect(metadata.workflow).toBe(workflow2);
   });
 
-  it("should handle invalid WebP files gracefully", () => {
+  it("should reject invalid WebP files", () => {
     const invalidBuffer = new ArrayBuffer(10);
-    expect(() => getWebpMetadata(invalidBuffer)).not.toThrow();
-    expect(getWebpMetadata(invalidBuffer)).toEqual({});
+    expect(() => getWebpMetadata(invalidBuffer)).toThrow(NotThisFormatError);
   });
 
   it("should handle empty workflow values", async () => {
@@ -228,6 +232,22 @@ describe("WebP EXIF metadata", () => {
       expect(chunk.length % 2).toBe(0); // Each chunk should be even-length
     });
   });
+
+  it("should add keys to an EXIF chunk with unique and sorted tags", async () => {
+    const webp = await Bun.file("./tests/webp/ComfyUI.webp").arrayBuffer();
+    const buffer = setWebpMetadata(webp, { seed: "1", steps: "2", cfg: "3" });
+
+    const exif = checkRiffChunks(buffer).find((e) => e.type === "EXIF")!;
+    const header = String.fromCharCode(...exif.data.slice(0, 6));
+    const tiff = exif.data.slice(header === "Exif\0\0" ? 6 : 0);
+    const tags = decodeTIFFBlock(tiff).entries.map((e) => e.tag);
+    expect(tags).toEqual([...new Set(tags)].sort((a, b) => a - b));
+    expect(getWebpMetadata(buffer)).toMatchObject({
+      seed: "1",
+      steps: "2",
+      cfg: "3",
+    });
+  });
 });
 
 // Helper function to extract EXIF chunk from WebP file
@@ -271,3 +291,69 @@ async function getAllChunks(
 
   return chunks;
 }
+
+describe("WebP chunk structure", async () => {
+  const files = await glob("./tests/webp/*.webp");
+  expect(files.length).toBeGreaterThanOrEqual(2);
+
+  for (const file of files) {
+    it(`should write a VP8X chunk with the EXIF flag for ${file}`, async () => {
+      const original = new Uint8Array(await Bun.file(file).arrayBuffer());
+      const buffer = setWebpMetadata(original, { workflow: '{"test":1}' });
+      const chunks = checkRiffChunks(buffer);
+
+      const types = chunks.map((e) => e.type);
+      expect(types[0]).toBe("VP8X");
+      expect(types.filter((e) => e === "VP8X").length).toBe(1);
+      // EXIF follows the image data
+      const imageIndex = types.findIndex((e) => e === "VP8 " || e === "VP8L");
+      expect(types.indexOf("EXIF")).toBeGreaterThan(imageIndex);
+
+      const vp8x = chunks[0].data;
+      expect(vp8x.length).toBe(10);
+      expect(vp8x[0] & 0x08).toBe(0x08);
+      // canvas size matches the bitstream
+      const canvas = (i: number) =>
+        (vp8x[i] | (vp8x[i + 1] << 8) | (vp8x[i + 2] << 16)) + 1;
+      expect([canvas(4), canvas(7)]).toEqual(
+        getBitstreamSize(chunks[imageIndex]),
+      );
+
+      // image data is untouched
+      expect(chunks[imageIndex]).toEqual(
+        checkRiffChunks(original).find((e) => e.type === types[imageIndex])!,
+      );
+    });
+  }
+});
+
+/**
+ * Walk the RIFF chunks and verify sizes and padding
+ */
+function checkRiffChunks(webp: Uint8Array) {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  expect(String.fromCharCode(...webp.slice(0, 4))).toBe("RIFF");
+  expect(String.fromCharCode(...webp.slice(8, 12))).toBe("WEBP");
+  expect(view.getUint32(4, true)).toBe(webp.length - 8);
+
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  let offset = 12;
+  while (offset < webp.length) {
+    const type = String.fromCharCode(...webp.slice(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type, data: webp.slice(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  expect(offset).toBe(webp.length);
+  return chunks;
+}
+
+function getBitstreamSize({ type, data }: { type: string; data: Uint8Array }) {
+  if (type === "VP8 ")
+    return [
+      (data[6] | (data[7] << 8)) & 0x3fff,
+      (data[8] | (data[9] << 8)) & 0x3fff,
+    ];
+  const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+  return [(bits & 0x3fff) + 1, ((bits >>> 14) & 0x3fff) + 1];
+}
@@ -1,4 +1,22 @@
 import { concatUint8Arrays } from "uint8array-extras";
+import {
+  CorruptStructureError,
+  NotThisFormatError,
+  TruncatedError,
+} from "./codec-errors";
+import {
+  editExifText,
+  encodeExifText,
+  readExifText,
+  toExifTextEntries,
+} from "./exif-text";
+import {
+  MediaMetadata,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toSingleValueRecord,
+} from "./media-metadata";
 
 // Reference: - [Exiv2 - Image metadata library and tools]( https://exiv2.org/tags.html )
 export const EXIF_TAGS = {
@@ -20,6 +38,15 @@ export const EXIF_TAGS = {
   WorkflowTag: 0x8298, // Exif.Image.Copyright 33432
 };
 
+// VP8X feature flags
+const VP8X_FLAGS = {
+  ICC: 0x20,
+  Alpha: 0x10,
+  EXIF: 0x08,
+  XMP: 0x04,
+  Animation: 0x02,
+};
+
 export type IFDEntryInput = {
   tag: number;
   type: number;
@@ -53,6 +80,8 @@ export type IFDEntryOutput = {
  * calculated based on the current position in the buffer.
  *
  * supports only single IFD section
+ * @throws CorruptStructureError if the IFD or an ASCII value lies outside the
+ * block, offsets are relative to the block
  */
 export function decodeTIFFBlock(block: Uint8Array): {
   isLittleEndian: boolean;
@@ -62,9 +91,21 @@ export function decodeTIFFBlock(block: Uint8Array): {
   tailPadding: number;
 } {
   const view = new DataView(block.buffer);
+  if (block.length < 8)
+    throw new CorruptStructureError("exif", "TIFF header exceeds the block");
   const isLE = String.fromCharCode(...block.slice(0, 2)) === "II";
   const ifdOffset = view.getUint32(4, isLE);
+  if (ifdOffset + 2 > block.length)
+    throw new CorruptStructureError("exif", "IFD exceeds the block", {
+      offset: 4,
+      context: { ifdOffset },
+    });
   const numEntries = view.getUint16(ifdOffset, isLE);
+  if (ifdOffset + 2 + numEntries * 12 > block.length)
+    throw new CorruptStructureError("exif", "IFD entries exceed the block", {
+      offset: ifdOffset,
+      context: { numEntries },
+    });
   let tailPadding = 0;
   const entries: IFDEntryOutput[] = [];
 
@@ -77,10 +118,17 @@ export function decodeTIFFBlock(block: Uint8Array): {
     const type = view.getUint16(entryOffset + 2, isLE);
     const count = view.getUint32(entryOffset + 4, isLE);
     const offset = view.getUint32(entryOffset + 8, isLE);
-    if (offset !== predictOffset) {
-      console.warn(
-        `WARNING: predictOffset ${predictOffset} !== offset ${offset}, your tiff block may be corrupted`,
-      );
+    // values of up to 4 bytes are stored in the offset field
+    if (
+      type === 2 &&
+      count > 4 &&
+      offset + count > block.length &&
+      predictOffset + count > block.length
+    ) {
+      throw new CorruptStructureError("exif", "ASCII value exceeds the block", {
+        offset: entryOffset,
+        context: { tag, offset, count },
+      });
     }
 
     const value = block.slice(offset, offset + count);
@@ -117,12 +165,6 @@ export function decodeTIFFBlock(block: Uint8Array): {
 
   tailPadding = block.length - predictOffset;
 
-  console.log(
-    predictOffset === block.length,
-    predictOffset,
-    block.length,
-    tailPadding,
-  );
   // entries.map((entry) =>
   //   console.log([...entry.value].map((e) => Number(e).toString(16)).join(' ') + '\n')
   // );
@@ -204,64 +246,169 @@ export function encodeTIFFBlock(
   return tiffBlock;
 }
 
+/**
+ * Rebuild a TIFF block whose value offsets don't point at their values, as
+ * seen in tests/webp/malformed. An ASCII value is looked up at its stored
+ * offset first, then around the offset it would have if the values were
+ * packed in entry order.
+ * @returns The re-encoded block and the tags that were found elsewhere, or
+ * undefined if every value is at its stored offset
+ */
+export function repairTIFFBlock(
+  block: Uint8Array,
+): { block: Uint8Array; tags: number[] } | undefined {
+  const { entries, isLittleEndian } = decodeTIFFBlock(block);
+  // a NUL terminated string without other NULs
+  const isAsciiAt = (offset: number, count: number) =>
+    offset >= 8 &&
+    offset + count <= block.length &&
+    block[offset + count - 1] === 0 &&
+    !block.subarray(offset, offset + count - 1).includes(0);
+
+  const tags: number[] = [];
+  const repaired = entries.map((entry) => {
+    const { tag, type, count, offset, value, predictOffset } = entry;
+    if (type !== 2 || isAsciiAt(offset, count)) return { tag, type, value };
+    // 0, 1, -1, 2, -2, ... bytes away from the packed offset
+    for (let shift = 0; shift <= 8; shift = shift > 0 ? -shift : 1 - shift) {
+      const start = predictOffset + shift;
+      if (!isAsciiAt(start, count)) continue;
+      tags.push(tag);
+      return { tag, type, value: block.slice(start, start + count) };
+    }
+    return { tag, type, value };
+  });
+  if (!tags.length) return undefined;
+  return { block: encodeTIFFBlock(repaired, { isLittleEndian }), tags };
+}
+
 export function getWebpMetadata(
   buffer: Uint8Array | ArrayBuffer,
 ): Record<string, string> {
+  return toMetadataRecord(getWebpMediaMetadata(buffer));
+}
+
+/**
+ * Get the "key:value" Exif entries of a WebP file, with their Exif tag
+ * @param buffer The WebP file buffer
+ * @returns The metadata entries
+ */
+export function getWebpMediaMetadata(
+  buffer: Uint8Array | ArrayBuffer,
+): MediaMetadata {
   const webp = new Uint8Array(buffer);
   const dataView = new DataView(webp.buffer);
 
   // Check that the WEBP signature is present
   if (
+    webp.length < 12 ||
     dataView.getUint32(0) !== 0x52494646 ||
     dataView.getUint32(8) !== 0x57454250
-  ) {
-    console.error("Not a valid WEBP file");
-    return {};
-  }
+  )
+    throw new NotThisFormatError("webp", "Not a valid WEBP file");
 
   // Start searching for chunks after the WEBP signature
   let offset = 12;
-  const txt_chunks: Record<string, string> = {};
+  const metadata: MediaMetadata = { entries: [] };
   // Loop through the chunks in the WEBP file
   while (offset < webp.length) {
     const chunk_length = dataView.getUint32(offset + 4, true);
     const chunk_type = String.fromCharCode(...webp.slice(offset, offset + 4));
+    if (offset + 8 + chunk_length > webp.length) {
+      throw new TruncatedError("webp", `${chunk_type} chunk exceeds the file`, {
+        offset,
+        context: { type: chunk_type, length: chunk_length },
+      });
+    }
     offset += 8;
     if (chunk_type === "EXIF") {
       let exifHeaderLength = 0;
       if (String.fromCharCode(...webp.slice(offset, offset + 6)) === "Exif\0\0")
         exifHeaderLength = 6;
 
-      const data = decodeTIFFBlock(
-        webp.slice(offset + exifHeaderLength, offset + chunk_length),
-      );
-      data.entries
-        .map(({ ascii }) => ascii!)
-        .filter((e) => e)
-        .map((value) => {
-          const index = value.indexOf(":");
-          if (index === -1) {
-            console.warn("No colon found in Exif data for value:", value);
-            return;
-          }
-          txt_chunks[value.slice(0, index)] = value.slice(index + 1);
-        });
+      const data = (() => {
+        try {
+          return decodeTIFFBlock(
+            webp.slice(offset + exifHeaderLength, offset + chunk_length),
+          );
+        } catch (cause) {
+          throw new CorruptStructureError("webp", "Unreadable EXIF block", {
+            offset: offset - 8,
+            cause,
+          });
+        }
+      })();
+      metadata.entries.push(...toExifTextEntries(data.entries));
       offset += chunk_length;
     } else {
       offset += chunk_length;
     }
     offset += chunk_length % 2;
   }
-  return txt_chunks;
+  return metadata;
+}
+/**
+ * Get the image data of a WebP file, which metadata edits never change
+ * @param buffer The WebP file buffer
+ * @returns The data of the bitstream, alpha and animation frame chunks in order
+ */
+export function getWebpPayload(buffer: Uint8Array | ArrayBuffer): Uint8Array[] {
+  const webp = new Uint8Array(buffer);
+  const dataView = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  if (
+    webp.length < 12 ||
+    dataView.getUint32(0) !== 0x52494646 ||
+    dataView.getUint32(8) !== 0x57454250
+  )
+    throw new NotThisFormatError("webp", "Not a valid WEBP file");
+
+  const payload: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const chunk_length = dataView.getUint32(offset + 4, true);
+    const chunk_type = String.fromCharCode(...webp.slice(offset, offset + 4));
+    if (["VP8 ", "VP8L", "ALPH", "ANIM", "ANMF"].includes(chunk_type))
+      payload.push(webp.slice(offset + 8, offset + 8 + chunk_length));
+    offset += 8 + chunk_length + (chunk_length % 2);
+  }
+  return payload;
 }
+
+/**
+ * Encode an EXIF chunk with padding
+ * @param tiffBlock The TIFF block of the chunk
+ * @param hasExifHeader Whether the block follows an "Exif\0\0" header
+ */
+function createExifChunk(
+  tiffBlock: Uint8Array,
+  hasExifHeader: boolean,
+): Uint8Array {
+  const exifHeader = hasExifHeader
+    ? new TextEncoder().encode("Exif\0\0")
+    : new Uint8Array(0);
+  const chunkLength = exifHeader.length + tiffBlock.length;
+  const chunkHeader = new Uint8Array(8);
+  chunkHeader.set(new TextEncoder().encode("EXIF"), 0);
+  new DataView(chunkHeader.buffer).setUint32(4, chunkLength, true);
+  const padding = chunkLength % 2 ? new Uint8Array([0]) : new Uint8Array(0);
+  return concatUint8Arrays([chunkHeader, exifHeader, tiffBlock, padding]);
+}
+
 /**
  * - [WebP の構造を追ってみる 🏗 \| Basicinc Enjoy Hacking!]( https://tech.basicinc.jp/articles/177 )
  * WIP
+ *
+ * @param options.remove Keys to delete, an EXIF chunk left empty is dropped
  */
 export function setWebpMetadata(
   buffer: ArrayBuffer | Uint8Array,
-  modifyRecords: Record<string, string>,
+  metadata: MetadataInput,
+  { remove = [] }: MetadataWriteOptions = {},
 ): Uint8Array {
+  const modifyRecords = toSingleValueRecord(metadata, "webp");
+  const removed = new Set(
+    remove.filter((key) => !Object.hasOwn(modifyRecords, key)),
+  );
   const webp = new Uint8Array(buffer);
   const newChunks: Uint8Array[] = [];
   const dataView = new DataView(webp.buffer);
@@ -271,12 +418,9 @@ export function setWebpMetadata(
     String.fromCharCode(...webp.slice(0, 0 + 4)) !== "RIFF" ||
     String.fromCharCode(...webp.slice(8, 8 + 4)) !== "WEBP"
   ) {
-    throw new Error("Not a valid WEBP file");
+    throw new NotThisFormatError("webp", "Not a valid WEBP file");
   }
 
-  // Copy header
-  newChunks.push(webp.slice(0, 12));
-
   let offset = 12;
   let exifChunkFound = false;
 
@@ -286,118 +430,78 @@ export function setWebpMetadata(
     const paddedLength = chunk_length + (chunk_length % 2);
 
     if (chunk_type === "EXIF") {
-      exifChunkFound = true;
-      offset += 8;
-      let exifHeaderLength = 0;
-
       // Skip for Exif\0\0 header
-      if (String.fromCharCode(...webp.slice(offset, offset + 6)) === "Exif\0\0")
-        exifHeaderLength = 6;
-
+      const hasExifHeader =
+        String.fromCharCode(...webp.slice(offset + 8, offset + 14)) ===
+        "Exif\0\0";
       const tiffBlockOriginal = webp.slice(
-        offset + exifHeaderLength,
-        offset + chunk_length,
+        offset + 8 + (hasExifHeader ? 6 : 0),
+        offset + 8 + chunk_length,
       );
-      const tiff = decodeTIFFBlock(tiffBlockOriginal);
-      // console.log(tiff);
-      const { entries, isLittleEndian, tailPadding } = tiff;
-      // modify Exif data
-      const encodeEntries: IFDEntryInput[] = entries;
-      entries.forEach(({ ascii }, i, a) => {
-        if (!ascii) return;
-        const index = ascii.indexOf(":");
-        if (index === -1) {
-          console.warn("No colon found in Exif data for value:", ascii);
-          return;
-        }
-        const [key, value] = [ascii.slice(0, index), ascii.slice(index + 1)];
-        encodeEntries[i].value = new TextEncoder().encode(
-          `${key}:${modifyRecords[key] ?? value}\0`,
-        );
-        delete modifyRecords[key]; // mark used
-      });
-
-      // Add new entries for remaining modifyRecords
-      if (Object.keys(modifyRecords).length > 0) {
-        Object.entries(modifyRecords).forEach(([key, value], i) => {
-          encodeEntries.push({
-            tag: EXIF_TAGS.Make - i, // 271 and 270 and 269 and so on
-            type: 2,
-            value: new TextEncoder().encode(`${key}:${value}\0`),
+      const [tiff, exif] = (() => {
+        try {
+          return [
+            decodeTIFFBlock(tiffBlockOriginal),
+            readExifText(tiffBlockOriginal),
+          ];
+        } catch (cause) {
+          throw new CorruptStructureError("webp", "Unreadable EXIF block", {
+            offset,
+            cause,
           });
-        });
-      }
-
-      const tiffBlock = encodeTIFFBlock(encodeEntries, {
-        isLittleEndian,
-        tailPadding,
-      });
-
-      // Create EXIF chunk
-      const newChunkLength = exifHeaderLength + tiffBlock.length;
-      const chunkHeader = new Uint8Array(8);
-      const headerView = new DataView(chunkHeader.buffer);
-      chunkHeader.set(new TextEncoder().encode("EXIF"), 0);
-      headerView.setUint32(4, newChunkLength, true);
-      const exifHeader = exifHeaderLength
-        ? new TextEncoder().encode("Exif\0\0")
-        : new Uint8Array(0);
-      const padding =
-        newChunkLength % 2 ? new Uint8Array([0]) : new Uint8Array(0);
-      //
-      const chunkContent = concatUint8Arrays([
-        chunkHeader,
-        exifHeader,
-        tiffBlock,
-        padding,
-      ]);
-      newChunks.push(chunkContent);
+        }
+      })();
+      // the keys go into the first EXIF chunk, later ones lose them
+      const { text, plain } = exifChunkFound
+        ? editExifText(
+            exif,
+            {},
+            new Set([...removed, ...Object.keys(modifyRecords)]),
+            "webp",
+          )
+        : editExifText(exif, modifyRecords, removed, "webp");
+      exifChunkFound = true;
       offset += 8 + paddedLength;
+      // numeric entries are kept as they are
+      plain.push(
+        ...tiff.entries
+          .filter((e) => e.type !== 2 || e.ascii === undefined)
+          .map(({ tag, type, value }) => ({ tag, type, value })),
+      );
+      if (!text.length && !plain.length) continue; // everything removed
+
+      const { isLittleEndian, tailPadding } = tiff;
+      newChunks.push(
+        createExifChunk(
+          encodeExifText(text, plain, { isLittleEndian, tailPadding }),
+          hasExifHeader,
+        ),
+      );
     } else {
       newChunks.push(webp.slice(offset, offset + 8 + paddedLength));
       offset += 8 + paddedLength;
     }
   }
 
-  if (Object.keys(modifyRecords).length > 0 && exifChunkFound) {
-    console.warn("Warning: Found exif chunk but fail to modify it");
-  }
   // if no EXIF section was found, add new metadata chunks
-  if (Object.keys(modifyRecords).length > 0 && !exifChunkFound) {
-    // Exif Header
-    const exifHeader = new TextEncoder().encode("Exif\0\0");
-
-    // Create TIFF Block
-    const ifdEntries: IFDEntryInput[] = Object.entries(modifyRecords).map(
-      ([key, value], i) => {
-        return {
-          tag: EXIF_TAGS.Make - i, // 271 and 270 and 269 and so on
-          type: 2, // ASCII
-          value: new TextEncoder().encode(`${key}:${value}\0`),
-        };
-      },
+  const { text } = exifChunkFound
+    ? { text: [] }
+    : editExifText({ text: [], plain: [] }, modifyRecords, removed, "webp");
+  if (text.length) {
+    // Add the new EXIF chunk after the image data, XMP has to stay last
+    const xmpIndex = newChunks.findIndex((e) => getChunkType(e) === "XMP ");
+    newChunks.splice(
+      xmpIndex === -1 ? newChunks.length : xmpIndex,
+      0,
+      createExifChunk(encodeExifText(text), true),
     );
-    const tiffBlock = encodeTIFFBlock(ifdEntries);
-
-    // Combine all parts
-    const exifContent = concatUint8Arrays([exifHeader, tiffBlock]);
-
-    // Create EXIF chunk header
-    const chunkHeader = new Uint8Array(8);
-    const headerView = new DataView(chunkHeader.buffer);
-    chunkHeader.set(new TextEncoder().encode("EXIF"), 0);
-    headerView.setUint32(4, exifContent.length, true);
-
-    // Add chunk padding if needed
-    const padding =
-      exifContent.length % 2 ? new Uint8Array([0]) : new Uint8Array(0);
-
-    // Add the new EXIF chunk
-    newChunks.push(chunkHeader, exifContent, padding);
   }
 
-  // Combine all chunks
-  const newWebpData = concatUint8Arrays(newChunks);
+  // Combine header and all chunks
+  const newWebpData = concatUint8Arrays([
+    webp.slice(0, 12),
+    ...updateVp8xChunk(newChunks),
+  ]);
 
   // Update RIFF size
   const riffSizeView = new DataView(newWebpData.buffer, 4, 4);
@@ -405,3 +509,60 @@ export function setWebpMetadata(
 
   return newWebpData;
 }
+
+function getChunkType(chunk: Uint8Array): string {
+  return String.fromCharCode(...chunk.slice(0, 4));
+}
+
+/**
+ * Set the EXIF flag of the VP8X chunk when an EXIF chunk is present, and
+ * clear it when there is none.
+ * Simple lossy (VP8) and lossless (VP8L) files have no VP8X chunk, one is
+ * created from the bitstream dimensions, as decoders ignore EXIF otherwise.
+ * ref: - [WebP Container Specification]( https://developers.google.com/speed/webp/docs/riff_container#extended_file_format )
+ *
+ * @param chunks The chunks after the RIFF header, each including its header and padding
+ * @returns The chunks with an up-to-date VP8X chunk first
+ */
+function updateVp8xChunk(chunks: Uint8Array[]): Uint8Array[] {
+  const hasExif = chunks.some((e) => getChunkType(e) === "EXIF");
+  const vp8xIndex = chunks.findIndex((e) => getChunkType(e) === "VP8X");
+  if (vp8xIndex !== -1) {
+    const vp8x = chunks[vp8xIndex].slice();
+    if (hasExif) vp8x[8] |= VP8X_FLAGS.EXIF;
+    else vp8x[8] &= ~VP8X_FLAGS.EXIF;
+    return chunks.map((e, i) => (i === vp8xIndex ? vp8x : e));
+  }
+  if (!hasExif) return chunks;
+
+  const image = chunks.find((e) => ["VP8 ", "VP8L"].includes(getChunkType(e)));
+  if (!image)
+    throw new CorruptStructureError("webp", "WebP image data not found");
+  const view = new DataView(image.buffer, image.byteOffset, image.byteLength);
+  let width: number;
+  let height: number;
+  let flags = VP8X_FLAGS.EXIF;
+  if (getChunkType(image) === "VP8 ") {
+    // 3 bytes frame tag, 3 bytes start code, then 14 bit width and height
+    width = view.getUint16(8 + 6, true) & 0x3fff;
+    height = view.getUint16(8 + 8, true) & 0x3fff;
+  } else {
+    // 1 byte signature, then 14 bit width - 1, 14 bit height - 1, alpha bit
+    const bits = view.getUint32(8 + 1, true);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    if ((bits >>> 28) & 1) flags |= VP8X_FLAGS.Alpha;
+  }
+
+  const vp8x = new Uint8Array(8 + 10);
+  const vp8xView = new DataView(vp8x.buffer);
+  vp8x.set(new TextEncoder().encode("VP8X"), 0);
+  vp8xView.setUint32(4, 10, true);
+  vp8x[8] = flags;
+  // canvas width - 1 and height - 1 as 24 bit little endian
+  vp8xView.setUint16(12, (width - 1) & 0xffff, true);
+  vp8x[14] = (width - 1) >> 16;
+  vp8xView.setUint16(15, (height - 1) & 0xffff, true);
+  vp8x[17] = (height - 1) >> 16;
+  return [vp8x, ...chunks];
+}
@@ -0,0 +1,383 @@
+import { detectContentType } from "@/app/api/media/detectContentType";
+import { getCodecByType } from "@/app/utils/codecs";
+import {
+  getMediaMetadata,
+  getWorkflowInfo,
+  setWorkflowInfo,
+  stripMetadata,
+  verifyMetadataWrite,
+} from "@/app/utils/exif";
+import { setFlacMetadata } from "@/app/utils/exif-flac";
+import { encodeTIFFBlock } from "@/app/utils/exif-webp";
+import { glob } from "glob";
+
+// prompt text in many scripts, with emoji, combining marks and astral plane
+// characters, which need more than one byte (or UTF-16 code unit) each
+const multilingualWorkflow = JSON.stringify({
+  nodes: [
+    { id: 1, type: "CLIPTextEncode", widgets_values: ["一只可爱的猫，水彩画"] },
+    { id: 2, type: "CLIPTextEncode", widgets_values: ["桜の木の下の少女"] },
+    { id: 3, type: "CLIPTextEncode", widgets_values: ["고양이와 강아지"] },
+    { id: 4, type: "CLIPTextEncode", widgets_values: ["Ünïcödé café, naïve"] },
+    { id: 5, type: "CLIPTextEncode", widgets_values: ["Кот в сапогах"] },
+    { id: 6, type: "CLIPTextEncode", widgets_values: ["قطة لطيفة", "חתול"] },
+    { id: 7, type: "CLIPTextEncode", widgets_values: ["🐱🎨✨ 👩‍👩‍👧‍👦 🇯🇵"] },
+    { id: 8, type: "Note", widgets_values: ["𝕳𝖆𝖓𝖟𝖔 𠀋 é ﷺ"] },
+  ],
+});
+
+describe("multilingual workflow round-trip", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+  expect(files.length).toBeGreaterThanOrEqual(15);
+
+  for (const filename of files) {
+    it(`should keep text byte-exact for ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+      const type = await detectContentType(original, filename);
+
+      // workflow and prompt are saved together
+      const multilingualPrompt = JSON.stringify({ "1": multilingualWorkflow });
+      const buffer = await setWorkflowInfo(original, type, {
+        workflow: multilingualWorkflow,
+        prompt: multilingualPrompt,
+      });
+      const { workflowJson, promptJson } = await getWorkflowInfo(
+        new Uint8Array(buffer).slice().buffer,
+        type,
+      );
+      expect(workflowJson).toBe(multilingualWorkflow);
+      expect(promptJson).toBe(multilingualPrompt);
+      expect(new TextEncoder().encode(workflowJson)).toEqual(
+        new TextEncoder().encode(multilingualWorkflow),
+      );
+    });
+  }
+});
+
+describe("keys named like object properties", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+
+  for (const filename of files) {
+    it(`should set, keep and remove them in ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+      const type = await detectContentType(original, filename);
+
+      const buffer = await setWorkflowInfo(original, type, {
+        constructor: "a",
+        toString: "b",
+      });
+      const edited = await setWorkflowInfo(buffer.slice().buffer, type, {
+        workflow: "{}",
+      });
+      const { workflowJson } = await getWorkflowInfo(
+        edited.slice().buffer,
+        type,
+      );
+      expect(workflowJson).toBe("{}");
+      const { entries: kept } = await getMediaMetadata(
+        edited.slice().buffer,
+        type,
+      );
+      expect(kept.filter((e) => e.key === "constructor")).toHaveLength(1);
+      expect(kept.filter((e) => e.key === "toString")).toHaveLength(1);
+
+      const removed = await setWorkflowInfo(
+        edited.slice().buffer,
+        type,
+        {},
+        { remove: ["constructor", "toString"] },
+      );
+      const { entries } = await getMediaMetadata(removed.slice().buffer, type);
+      expect(entries.map((e) => e.key)).not.toContain("constructor");
+      expect(entries.map((e) => e.key)).not.toContain("toString");
+    });
+  }
+});
+
+describe("strip metadata", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+
+  for (const filename of files) {
+    it(`should remove every key and keep the payload of ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+      const type = await detectContentType(original, filename);
+
+      const stripped = await stripMetadata(original, type);
+      const { entries } = await getMediaMetadata(stripped.slice().buffer, type);
+      expect(entries).toEqual([]);
+      // read independently from the codecs
+      const payload = getPayload(new Uint8Array(original), type);
+      expect(payload.reduce((sum, e) => sum + e.length, 0)).toBeGreaterThan(0);
+      expect(getPayload(stripped, type)).toEqual(payload);
+      // stripping again changes nothing
+      expect(await stripMetadata(stripped.slice().buffer, type)).toEqual(
+        stripped,
+      );
+    });
+  }
+});
+
+it("should strip the EXIF segment of a camera", async () => {
+  const blank = new Uint8Array(
+    await Bun.file("./tests/jpeg/blank.jpg").arrayBuffer(),
+  );
+  // DateTime and a numeric Orientation, which can not be re-encoded
+  const tiff = encodeTIFFBlock([
+    { tag: 0x0112, type: 3, value: new Uint8Array([1, 0]) },
+    {
+      tag: 0x0132,
+      type: 2,
+      value: new TextEncoder().encode("2024:01:02 03:04:05\0"),
+    },
+  ]);
+  const payload = [...new TextEncoder().encode("Exif\0\0"), ...tiff];
+  const length = payload.length + 2;
+  const app0End = 4 + ((blank[4] << 8) | blank[5]);
+  const camera = new Uint8Array([
+    ...blank.slice(0, app0End),
+    ...[0xff, 0xe1, length >> 8, length & 0xff, ...payload],
+    ...blank.slice(app0End),
+  ]);
+  const { entries } = await getMediaMetadata(camera.buffer, "image/jpeg");
+  expect(entries.map((e) => [e.key, e.value])).toEqual([
+    ["DateTime", "2024:01:02 03:04:05"],
+  ]);
+
+  const stripped = await stripMetadata(camera.buffer, "image/jpeg");
+  expect(stripped).toEqual(blank);
+});
+
+it("should only remove the listed keys", async () => {
+  const original = await Bun.file("./tests/flac/padding.flac").arrayBuffer();
+  const buffer = await setWorkflowInfo(
+    original,
+    "audio/flac",
+    { title: "new" },
+    // field names are case-insensitive, "title" is set and not removed
+    { remove: ["artist", "workflow", "title"] },
+  );
+  const { entries } = await getMediaMetadata(
+    buffer.slice().buffer,
+    "audio/flac",
+  );
+  expect(entries.map((e) => [e.key, e.value])).toEqual([
+    ["title", "new"],
+    ["prompt", expect.any(String)],
+    ["GENRE", expect.any(String)],
+  ]);
+});
+
+describe("verify metadata write", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+
+  for (const filename of files) {
+    it(`should accept a workflow edit of ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+      const type = await detectContentType(original, filename);
+      const metadata = { workflow: '{"test":"verify"}' };
+
+      const written = await setWorkflowInfo(original, type, metadata);
+      expect(
+        await verifyMetadataWrite(original, written, type, metadata),
+      ).toEqual([]);
+      expect(getPayload(written, type)).toEqual(
+        getPayload(new Uint8Array(original), type),
+      );
+    });
+  }
+
+  it("should report a changed payload", async () => {
+    const original = await Bun.file("./tests/flac/padding.flac").arrayBuffer();
+    const metadata = { workflow: '{"test":"verify"}' };
+    const written = await setFlacMetadata(original, metadata);
+    // flip a bit of the last audio frame
+    written[written.length - 1] ^= 1;
+
+    expect(
+      await verifyMetadataWrite(original, written, "audio/flac", metadata),
+    ).toEqual(["the image, audio or video data differs from the original"]);
+  });
+
+  it("should report keys that do not read back", async () => {
+    const original = await Bun.file("./tests/flac/padding.flac").arrayBuffer();
+    const written = await setFlacMetadata(original, { workflow: "{}" });
+
+    expect(
+      await verifyMetadataWrite(
+        original,
+        written,
+        "audio/flac",
+        { workflow: '{"a":1}', title: "t" },
+        { remove: ["GENRE"] },
+      ),
+    ).toEqual([
+      "workflow reads back differently from what was written",
+      "title is missing from the written file",
+      "GENRE was not removed",
+    ]);
+    expect(
+      await verifyMetadataWrite(original, written, "audio/flac", {}),
+    ).toEqual(["the workflow changed although it was not edited"]);
+  });
+
+  it("should report repeated values that do not read back", async () => {
+    const original = await Bun.file("./tests/flac/padding.flac").arrayBuffer();
+    const artists = {
+      entries: ["a", "b"].map((value) => ({
+        key: "ARTIST",
+        value,
+        origin: "VORBIS_COMMENT",
+        encoding: "ascii" as const,
+      })),
+    };
+    // FLAC keeps both values
+    const written = await setFlacMetadata(original, artists);
+    expect(
+      await verifyMetadataWrite(original, written, "audio/flac", artists),
+    ).toEqual([]);
+    // only the last one is written
+    const collapsed = await setFlacMetadata(original, { ARTIST: "b" });
+    expect(
+      await verifyMetadataWrite(original, collapsed, "audio/flac", artists),
+    ).toEqual(["ARTIST reads back differently from what was written"]);
+
+    // formats with one value per key refuse them
+    const png = await Bun.file("./tests/png/compressed.png").arrayBuffer();
+    await expect(setWorkflowInfo(png, "image/png", artists)).rejects.toThrow(
+      "Can not store 2 different values of ARTIST",
+    );
+  });
+
+  it("should report a file that can not be read back", async () => {
+    const original = await Bun.file("./tests/gif/ComfyUI.gif").arrayBuffer();
+    const problems = await verifyMetadataWrite(
+      original,
+      new Uint8Array(16),
+      "image/gif",
+      {},
+    );
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatch(/^the written file can not be read back/);
+  });
+});
+
+/**
+ * The coded image or audio data of a file, which metadata edits must not touch
+ */
+function getPayload(bytes: Uint8Array, type: string): Uint8Array[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const text = (offset: number, length = 4) =>
+    String.fromCharCode(...bytes.slice(offset, offset + length));
+  const colorTableSize = (packed: number) =>
+    packed & 0x80 ? 3 * (1 << ((packed & 7) + 1)) : 0;
+  const parts: Uint8Array[] = [];
+
+  switch (getCodecByType(type)!.name) {
+    case "png":
+      for (let o = 8; o + 12 <= bytes.length; o += 12 + view.getUint32(o)) {
+        if (text(o + 4) === "IDAT")
+          parts.push(bytes.slice(o + 8, o + 8 + view.getUint32(o)));
+      }
+      return parts;
+    case "webp":
+    case "wav":
+      for (let o = 12; o + 8 <= bytes.length;) {
+        const size = view.getUint32(o + 4, true);
+        if (["VP8 ", "VP8L", "ALPH", "ANMF", "data"].includes(text(o)))
+          parts.push(bytes.slice(o + 8, o + 8 + size));
+        o += 8 + size + (size % 2);
+      }
+      return parts;
+    case "heif":
+    case "mp4":
+      for (let o = 0; o + 8 <= bytes.length;) {
+        const size = view.getUint32(o) || bytes.length - o;
+        if (text(o + 4) === "mdat") parts.push(bytes.slice(o + 8, o + size));
+        o += size;
+      }
+      return parts;
+    case "jpeg": {
+      // everything from the start of scan
+      let o = 2;
+      while (bytes[o + 1] !== 0xda) o += 2 + view.getUint16(o + 2);
+      return [bytes.slice(o)];
+    }
+    case "gif": {
+      // image descriptors with their color tables and LZW data
+      const skipSubBlocks = (o: number) => {
+        while (bytes[o]) o += 1 + bytes[o];
+        return o + 1;
+      };
+      let o = 13 + colorTableSize(bytes[10]);
+      while (o < bytes.length && bytes[o] !== 0x3b) {
+        if (bytes[o] !== 0x2c) {
+          o = skipSubBlocks(o + 2);
+          continue;
+        }
+        const start = o;
+        o = skipSubBlocks(o + 10 + colorTableSize(bytes[o + 9]) + 1);
+        parts.push(bytes.slice(start, o));
+      }
+      return parts;
+    }
+    case "flac": {
+      // audio frames after the last metadata block
+      let o = 4;
+      for (let last = false; !last; o += 4 + (view.getUint32(o) & 0xffffff))
+        last = !!(bytes[o] & 0x80);
+      return [bytes.slice(o)];
+    }
+    case "mp3": {
+      // MPEG frames between the ID3v2 tag and the ID3v1 tag
+      const start =
+        text(0, 3) === "ID3"
+          ? 10 +
+            ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9])
+          : 0;
+      const end =
+        text(bytes.length - 128, 3) === "TAG" ? bytes.length - 128 : undefined;
+      return [bytes.slice(start, end)];
+    }
+    case "ogg":
+      // bodies of the audio pages, header pages have granule position 0
+      for (let o = 0; o + 27 <= bytes.length;) {
+        const segments = [...bytes.slice(o + 27, o + 27 + bytes[o + 26])];
+        const bodyOffset = o + 27 + segments.length;
+        const end = bodyOffset + segments.reduce((a, b) => a + b, 0);
+        if (view.getUint32(o + 6, true) || view.getUint32(o + 10, true))
+          parts.push(bytes.slice(bodyOffset, end));
+        o = end;
+      }
+      return parts;
+    case "webm": {
+      // the Cluster elements of the Segment
+      const readVint = (o: number, keepMarker = false) => {
+        let length = 1;
+        while (!(bytes[o] & (0x80 >> (length - 1)))) length++;
+        let value = keepMarker ? bytes[o] : bytes[o] & (0xff >> length);
+        for (let i = 1; i < length; i++) value = value * 256 + bytes[o + i];
+        return { length, value };
+      };
+      const children = (start: number, end: number) => {
+        const elements: { id: number; offset: number; end: number }[] = [];
+        for (let o = start; o < end;) {
+          const id = readVint(o, true);
+          const size = readVint(o + id.length);
+          const dataOffset = o + id.length + size.length;
+          const elementEnd = Math.min(dataOffset + size.value, end);
+          elements.push({ id: id.value, offset: dataOffset, end: elementEnd });
+          o = elementEnd;
+        }
+        return elements;
+      };
+      const segment = children(0, bytes.length).find(
+        (e) => e.id === 0x18538067,
+      )!;
+      return children(segment.offset, segment.end)
+        .filter((e) => e.id === 0x1f43b675)
+        .map((e) => bytes.slice(e.offset, e.end));
+    }
+    default:
+      throw new Error(`No payload reader for ${type}`);
+  }
+}
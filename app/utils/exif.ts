@@ -1,31 +1,93 @@
-import { getFlacMetadata, setFlacMetadata } from "./exif-flac";
-import { getMp3Metadata, setMp3Metadata } from "./exif-mp3";
-import { getMp4Metadata, setMp4Metadata } from "./exif-mp4";
-import { getPngMetadata, setPngMetadata } from "./exif-png";
-import { getWebpMetadata, setWebpMetadata } from "./exif-webp";
-export function getWorkflowInfo(
+import { concatUint8Arrays, uint8ArrayToHex } from "uint8array-extras";
+import { detectContentType } from "../api/media/detectContentType";
+import { blobSource, ByteSource } from "./byte-source";
+import { toCodecError, UnsupportedFeatureError } from "./codec-errors";
+import { CODEC_HEADER_LENGTH, getCodecByType } from "./codecs";
+import {
+  MediaMetadata,
+  MetadataInput,
+  MetadataWriteOptions,
+  toMetadataRecord,
+  toMetadataValues,
+} from "./media-metadata";
+import { RepairResult } from "./media-repair";
+import { ValidationIssue, ValidationReport } from "./media-validator";
+
+export async function getWorkflowInfo(
   buffer: ArrayBuffer,
   fileType: string,
-): { workflowJson: string } {
-  const handlers: Record<
-    string,
-    (buffer: ArrayBuffer) => Record<string, string>
-  > = {
-    "image/webp": getWebpMetadata,
-    "image/png": getPngMetadata,
-    "audio/flac": getFlacMetadata,
-    "audio/x-flac": getFlacMetadata,
-    "audio/mp3": getMp3Metadata,
-    "audio/mpeg": getMp3Metadata,
-    "video/mp4": getMp4Metadata,
-  };
+): Promise<{ workflowJson: string; promptJson: string }> {
+  const codec = getCodecByType(fileType);
+  if (!codec) throw unsupportedFileTypeError(fileType);
+
+  const metadata = await withCodecErrors(codec.name, () => codec.read(buffer));
+  return getWorkflowAndPrompt(toMetadataRecord(metadata));
+}
+
+function unsupportedFileTypeError(fileType: string) {
+  return new UnsupportedFeatureError(
+    fileType || "unknown",
+    `Unsupported file type: ${fileType}`,
+  );
+}
 
-  const handler = handlers[fileType];
-  if (!handler) throw new Error(`Unsupported file type: ${fileType}`);
+/**
+ * Run a codec function, anything it throws is turned into a codec error
+ */
+async function withCodecErrors<T>(
+  format: string,
+  run: () => T | Promise<T>,
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    throw toCodecError(error, format);
+  }
+}
 
-  const metadata = handler(buffer);
+function getWorkflowAndPrompt(metadata: Record<string, string>) {
   const workflowJson = metadata?.workflow || metadata?.Workflow;
-  return { workflowJson };
+  // the API format of the workflow, as queued for execution
+  const promptJson = metadata?.prompt || metadata?.Prompt || "";
+  return { workflowJson, promptJson };
+}
+
+/**
+ * Read all metadata entries of a file, with where and how they are stored
+ * @param buffer The file buffer
+ * @param fileType The MIME type of the file
+ * @returns The metadata entries in file order
+ */
+export async function getMediaMetadata(
+  buffer: ArrayBuffer,
+  fileType: string,
+): Promise<MediaMetadata> {
+  const codec = getCodecByType(fileType);
+  if (!codec) throw unsupportedFileTypeError(fileType);
+
+  return await withCodecErrors(codec.name, () => codec.read(buffer));
+}
+
+/**
+ * Read all metadata entries of a file, reading only its headers and metadata
+ * regions where the format allows, e.g. the 'moov' box of a large MP4 file
+ * @param source The file to read from
+ * @param fileType The MIME type of the file
+ * @returns The metadata entries in file order
+ */
+export async function getSourceMetadata(
+  source: ByteSource,
+  fileType: string,
+): Promise<MediaMetadata> {
+  const codec = getCodecByType(fileType);
+  if (!codec) throw unsupportedFileTypeError(fileType);
+
+  const regions = codec.readMetadataRegions
+    ? await codec.readMetadataRegions(source)
+    : await source.read(0, source.size);
+  return await withCodecErrors(codec.name, () =>
+    codec.read(regions.slice().buffer),
+  );
 }
 
 export async function readWorkflowInfo(
@@ -33,17 +95,33 @@ export async function readWorkflowInfo(
 ): Promise<{
   name: string;
   workflowJson: string;
+  promptJson: string;
+  // every key of the file, including workflow and prompt
+  metadata: MediaMetadata;
   previewUrl: string;
   file: File;
   lastModified: number;
 }> {
   if (!(e instanceof File)) e = await e.getFile();
-  const { workflowJson } = getWorkflowInfo(await e.arrayBuffer(), e.type);
+  // browsers leave the type empty for formats they don't know, e.g. heic,
+  // or use types of their own, e.g. audio/x-m4a
+  if (!getCodecByType(e.type)) {
+    const header = await e.slice(0, CODEC_HEADER_LENGTH).arrayBuffer();
+    const type = await detectContentType(header, e.name);
+    e = new File([e], e.name, { type, lastModified: e.lastModified });
+  }
+  // large files are not loaded into memory, only their metadata regions
+  const metadata = await getSourceMetadata(blobSource(e), e.type);
+  const { workflowJson, promptJson } = getWorkflowAndPrompt(
+    toMetadataRecord(metadata),
+  );
 
   const previewUrl = URL.createObjectURL(e);
   return {
     name: e.name,
     workflowJson,
+    promptJson,
+    metadata,
     previewUrl,
     file: e,
     lastModified: e.lastModified,
@@ -54,32 +132,220 @@ export async function readWorkflowInfo(
  * Save workflow metadata to a file
  * @param buffer The file buffer
  * @param fileType The MIME type of the file
- * @param metadata The metadata to save
+ * @param metadata The metadata to save, a record or metadata entries
+ * @param options.remove Keys to delete from the file
  * @returns The modified file buffer
  */
-export function setWorkflowInfo(
+export async function setWorkflowInfo(
   buffer: ArrayBuffer,
   fileType: string,
-  metadata: Record<string, string>,
-): Uint8Array {
-  const handlers: Record<
-    string,
-    (buffer: ArrayBuffer, metadata: Record<string, string>) => Uint8Array
-  > = {
-    "image/webp": setWebpMetadata,
-    "image/png": setPngMetadata,
-    "audio/flac": setFlacMetadata,
-    "audio/x-flac": setFlacMetadata,
-    "audio/mp3": setMp3Metadata,
-    "audio/mpeg": setMp3Metadata,
-    "video/mp4": setMp4Metadata,
-  };
+  metadata: MetadataInput,
+  options?: MetadataWriteOptions,
+): Promise<Uint8Array> {
+  const codec = getCodecByType(fileType);
+  if (!codec) throw unsupportedFileTypeError(fileType);
+
+  return await withCodecErrors(codec.name, () =>
+    codec.write(buffer, metadata, options),
+  );
+}
 
-  const handler = handlers[fileType];
-  if (!handler) {
-    console.warn(`No handler for file type: ${fileType}`);
-    throw new Error(`Unsupported file type: ${fileType}`);
+/**
+ * Remove every metadata key of a file (workflow, prompt, EXIF text, tags),
+ * e.g. before sharing it. The image or audio data is copied as is.
+ * @param buffer The file buffer
+ * @param fileType The MIME type of the file
+ * @returns The file buffer without metadata
+ */
+export async function stripMetadata(
+  buffer: ArrayBuffer,
+  fileType: string,
+): Promise<Uint8Array> {
+  const { entries } = await getMediaMetadata(buffer, fileType);
+  const keys = [...new Set(entries.map((e) => e.key))];
+  return await setWorkflowInfo(buffer, fileType, {}, { remove: keys });
+}
+
+/**
+ * Hash the coded image, audio or video data of a file, which stays the same
+ * when only metadata is edited
+ * @param buffer The file buffer
+ * @param fileType The MIME type of the file
+ * @returns The SHA-256 of the payload as hex string
+ */
+export async function hashMediaPayload(
+  buffer: ArrayBuffer,
+  fileType: string,
+): Promise<string> {
+  const codec = getCodecByType(fileType);
+  if (!codec) throw unsupportedFileTypeError(fileType);
+
+  const payload = concatUint8Arrays(
+    await withCodecErrors(codec.name, () => codec.payload(buffer)),
+  );
+  return uint8ArrayToHex(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", payload)),
+  );
+}
+
+/**
+ * Check a written file before it replaces the original: it has to parse
+ * again, the keys set have to read back identically, removed keys have to be
+ * gone, the workflow and prompt have to be unchanged unless they were edited,
+ * and the image, audio or video data has to hash the same.
+ * @param original The file buffer before the write
+ * @param written The file buffer returned by setWorkflowInfo
+ * @param fileType The MIME type of the file
+ * @param metadata The metadata that was set
+ * @param options.remove The keys that were deleted
+ * @returns Human readable descriptions of the problems, empty if the written
+ * file is safe to save
+ */
+export async function verifyMetadataWrite(
+  original: ArrayBuffer,
+  written: Uint8Array,
+  fileType: string,
+  metadata: MetadataInput,
+  { remove = [] }: MetadataWriteOptions = {},
+): Promise<string[]> {
+  const writtenBuffer = written.slice().buffer;
+  let writtenMetadata: MediaMetadata;
+  try {
+    writtenMetadata = await getMediaMetadata(writtenBuffer, fileType);
+  } catch (error) {
+    return [`the written file can not be read back: ${errorMessage(error)}`];
+  }
+  const actual = toMetadataRecord(writtenMetadata);
+
+  const problems: string[] = [];
+  const expected = toMetadataRecord(metadata);
+  // every value of a repeated key has to read back, not only the last
+  const actualValues = toMetadataValues(writtenMetadata);
+  for (const [key, values] of Object.entries(toMetadataValues(metadata))) {
+    if (!Object.hasOwn(actual, key)) {
+      problems.push(`${key} is missing from the written file`);
+    } else if (
+      actual[key] !== expected[key] ||
+      values.some((value) => !actualValues[key].includes(value))
+    ) {
+      problems.push(`${key} reads back differently from what was written`);
+    }
+  }
+  for (const key of remove) {
+    if (!Object.hasOwn(expected, key) && Object.hasOwn(actual, key))
+      problems.push(`${key} was not removed`);
+  }
+
+  const before = getWorkflowAndPrompt(
+    toMetadataRecord(await getMediaMetadata(original, fileType)),
+  );
+  const after = getWorkflowAndPrompt(actual);
+  const edited = [...Object.keys(expected), ...remove].map((e) =>
+    e.toLowerCase(),
+  );
+  if (
+    !edited.includes("workflow") &&
+    after.workflowJson !== before.workflowJson
+  )
+    problems.push("the workflow changed although it was not edited");
+  if (!edited.includes("prompt") && after.promptJson !== before.promptJson)
+    problems.push("the prompt changed although it was not edited");
+
+  try {
+    const [originalHash, writtenHash] = await Promise.all([
+      hashMediaPayload(original, fileType),
+      hashMediaPayload(writtenBuffer, fileType),
+    ]);
+    if (originalHash !== writtenHash)
+      problems.push("the image, audio or video data differs from the original");
+  } catch (error) {
+    problems.push(`the media data can not be compared: ${errorMessage(error)}`);
+  }
+  return problems;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check the container structure of a file, e.g. to explain why it can not
+ * be read
+ * @param buffer The file buffer
+ * @param fileType The MIME type of the file, detected from the content if
+ * it is not a supported type
+ * @returns The issues with their byte offsets and severities
+ */
+export async function validateMedia(
+  buffer: ArrayBuffer,
+  fileType: string,
+): Promise<ValidationReport> {
+  const codec =
+    getCodecByType(fileType) ?? getCodecByType(await detectContentType(buffer));
+  if (!codec) {
+    return {
+      format: fileType,
+      checked: false,
+      issues: [
+        { severity: "error", offset: 0, message: "Unknown file format" },
+      ],
+    };
+  }
+  if (!codec.validate)
+    return { format: codec.name, checked: false, issues: [] };
+
+  try {
+    return {
+      format: codec.name,
+      checked: true,
+      issues: codec.validate(buffer),
+    };
+  } catch (error) {
+    // the checks stop at the first structure they can't walk
+    return {
+      format: codec.name,
+      checked: true,
+      issues: [
+        {
+          severity: "error",
+          offset: 0,
+          message: `The file could not be checked: ${errorMessage(error)}`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Rebuild the broken structures of a file (sizes, offsets, checksums), keeping
+ * its payload and the metadata that can still be read
+ * @param buffer The file buffer
+ * @param fileType The MIME type of the file, detected from the content if
+ * it is not a supported type
+ * @returns The repaired file, what was fixed and the issues still found in
+ * the repaired file
+ */
+export async function repairMedia(
+  buffer: ArrayBuffer,
+  fileType: string,
+): Promise<RepairResult & { issues: ValidationIssue[] }> {
+  const codec =
+    getCodecByType(fileType) ?? getCodecByType(await detectContentType(buffer));
+  if (!codec) throw unsupportedFileTypeError(fileType);
+  const { repair } = codec;
+  if (!repair) {
+    throw new UnsupportedFeatureError(
+      codec.name,
+      `Can not repair ${codec.name} files`,
+    );
   }
 
-  return handler(buffer, metadata);
+  const { buffer: repaired, fixes } = await withCodecErrors(codec.name, () =>
+    repair(buffer),
+  );
+  const { issues } = await validateMedia(
+    repaired.slice().buffer,
+    Object.keys(codec.types)[0],
+  );
+  return { buffer: repaired, fixes, issues };
 }
@@ -0,0 +1,111 @@
+import { setWorkflowInfo } from "@/app/utils/exif";
+import { diffFile, patchFile } from "@/app/utils/file-patch";
+
+const workflow = JSON.stringify({ nodes: [{ id: 1, type: "KSampler" }] });
+
+// a file of a mounted folder, kept in memory
+const memoryFileHandle = (bytes: Uint8Array, lastModified: number) => {
+  const handle = {
+    bytes,
+    written: 0,
+    getFile: async () => new File([handle.bytes], "a", { lastModified }),
+    createWritable: async ({ keepExistingData = false } = {}) => {
+      let data = keepExistingData ? handle.bytes.slice() : new Uint8Array(0);
+      let position = 0;
+      return {
+        seek: async (offset: number) => void (position = offset),
+        write: async (chunk: Uint8Array) => {
+          const end = Math.max(data.length, position + chunk.length);
+          const grown = new Uint8Array(end);
+          grown.set(data);
+          grown.set(chunk, position);
+          data = grown;
+          position += chunk.length;
+          handle.written += chunk.length;
+        },
+        truncate: async (size: number) => {
+          const resized = new Uint8Array(size);
+          resized.set(data.subarray(0, size));
+          data = resized;
+        },
+        close: async () => void (handle.bytes = data),
+        abort: async () => {},
+      };
+    },
+  };
+  return handle;
+};
+
+it("should patch only the text chunks before IEND of a PNG file", async () => {
+  const png = await Bun.file("./tests/png/Blank_2025-03-06-input.png").bytes();
+  const updated = await setWorkflowInfo(png.slice().buffer, "image/png", {
+    workflow,
+  });
+  const patch = diffFile(png, updated)!;
+  expect(patch.offset).toBeGreaterThan(png.length - 100);
+  expect(patch.size).toBe(updated.length);
+
+  const handle = memoryFileHandle(png, 1);
+  const file = new File([png], "a", { lastModified: 1 });
+  const written = await patchFile(
+    handle as unknown as FileSystemFileHandle,
+    { file, buffer: png },
+    updated,
+  );
+  expect(written).toBe(patch.data.length);
+  expect(handle.bytes).toEqual(updated);
+});
+
+it("should write only the changed bytes of an edit keeping the size", async () => {
+  const mp3 = await Bun.file("./tests/mp3/ComfyUI_00047_.mp3").bytes();
+  const updated = await setWorkflowInfo(mp3.slice().buffer, "audio/mpeg", {
+    workflow,
+  });
+  expect(updated.length).toBe(mp3.length);
+
+  // the ID3v2 tag has padding for the new workflow
+  const patch = diffFile(mp3, updated)!;
+  expect(patch.data.length).toBeLessThan(mp3.length / 10);
+  const patched = mp3.slice();
+  patched.set(patch.data, patch.offset);
+  expect(patched).toEqual(updated);
+});
+
+it("should shrink a file and leave equal files alone", async () => {
+  const original = new Uint8Array([1, 2, 3, 4, 5, 6]);
+  expect(diffFile(original, original.slice())).toBeUndefined();
+  expect(diffFile(original, new Uint8Array([1, 2, 3]))).toEqual({
+    offset: 3,
+    data: new Uint8Array(0),
+    size: 3,
+  });
+  expect(diffFile(original, new Uint8Array([1, 2, 9, 4, 5, 6]))).toEqual({
+    offset: 2,
+    data: new Uint8Array([9]),
+    size: 6,
+  });
+
+  const handle = memoryFileHandle(original, 1);
+  const file = new File([original], "a", { lastModified: 1 });
+  await patchFile(
+    handle as unknown as FileSystemFileHandle,
+    { file, buffer: original },
+    new Uint8Array([1, 2, 3]),
+  );
+  expect(handle.bytes).toEqual(new Uint8Array([1, 2, 3]));
+});
+
+it("should write a file whole if it changed since it was read", async () => {
+  const original = new Uint8Array([1, 2, 3, 4]);
+  const handle = memoryFileHandle(new Uint8Array([1, 2, 3, 5]), 2);
+  const file = new File([original], "a", { lastModified: 1 });
+  const updated = new Uint8Array([1, 2, 3, 4, 7]);
+  expect(
+    await patchFile(
+      handle as unknown as FileSystemFileHandle,
+      { file, buffer: original },
+      updated,
+    ),
+  ).toBe(5);
+  expect(handle.bytes).toEqual(updated);
+});
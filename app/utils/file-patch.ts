@@ -0,0 +1,103 @@
+/**
+ * In-place writes of edited files
+ *
+ * Metadata edits change a small region of a file, often at its end, e.g. PNG
+ * text chunks before IEND, an MP4 'moov' box after 'mdat' or an ID3v1 tag.
+ * Instead of passing the whole file to the writable stream, only the bytes
+ * from the first change on are written and the file is cut to its new size.
+ * Edits that keep the size of the file write only the bytes between the
+ * first and last change.
+ *
+ * Browsers still copy the whole original into a swap file for a stream that
+ * keeps the existing data, and move it over the file on close, so saving
+ * takes time with the file size. The original stays intact until then.
+ */
+
+export type FilePatch = {
+  // where the changed bytes start in the file
+  offset: number;
+  data: Uint8Array;
+  // the size of the patched file
+  size: number;
+};
+
+/**
+ * Find the smallest write that turns a file into its edited version
+ * @param original The file as it is
+ * @param updated The edited file
+ * @returns The patch, or undefined if the files are equal
+ */
+export function diffFile(
+  original: Uint8Array,
+  updated: Uint8Array,
+): FilePatch | undefined {
+  const start = countCommonPrefix(original, updated);
+  let end = updated.length;
+  if (original.length === updated.length) {
+    if (start === end) return undefined;
+    // bytes after the last change are kept, nothing moved
+    while (end > start && original[end - 1] === updated[end - 1]) end--;
+  }
+  return {
+    offset: start,
+    data: updated.subarray(start, end),
+    size: updated.length,
+  };
+}
+
+/**
+ * Write an edited file over its original, passing only the changed bytes to
+ * the writable stream
+ *
+ * The file is written whole if it changed on disk since it was read.
+ * @param handle The file to write
+ * @param original The file as it was read and its bytes
+ * @param updated The edited file
+ * @returns The number of bytes passed to the stream
+ */
+export async function patchFile(
+  handle: FileSystemFileHandle,
+  original: { file: File; buffer: ArrayBuffer | Uint8Array },
+  updated: Uint8Array,
+): Promise<number> {
+  const current = await handle.getFile();
+  const unchanged =
+    current.size === original.buffer.byteLength &&
+    current.lastModified === original.file.lastModified;
+  const patch = unchanged
+    ? diffFile(new Uint8Array(original.buffer), updated)
+    : { offset: 0, data: updated, size: updated.length };
+  if (!patch) return 0;
+
+  // keep the existing data, streams start empty otherwise
+  const w = await handle.createWritable({ keepExistingData: true });
+  try {
+    await w.seek(patch.offset);
+    await w.write(patch.data);
+    await w.truncate(patch.size);
+    await w.close();
+  } catch (error) {
+    // the file is left as it was
+    await w.abort();
+    throw error;
+  }
+  return patch.data.length;
+}
+
+/**
+ * Count the bytes both arrays start with, comparing 4 bytes at a time where
+ * they are aligned alike
+ */
+function countCommonPrefix(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  let i = 0;
+  if (a.byteOffset % 4 === 0 && b.byteOffset % 4 === 0) {
+    const words = length >> 2;
+    const a32 = new Uint32Array(a.buffer, a.byteOffset, words);
+    const b32 = new Uint32Array(b.buffer, b.byteOffset, words);
+    while (i < words && a32[i] === b32[i]) i++;
+    i <<= 2;
+  }
+  while (i < length && a[i] === b[i]) i++;
+  return i;
+}
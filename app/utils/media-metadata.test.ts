@@ -0,0 +1,144 @@
+import { detectContentType } from "@/app/api/media/detectContentType";
+import {
+  getMediaMetadata,
+  getWorkflowInfo,
+  setWorkflowInfo,
+} from "@/app/utils/exif";
+import { getFlacMediaMetadata } from "@/app/utils/exif-flac";
+import { getMp3MediaMetadata } from "@/app/utils/exif-mp3";
+import { getPngMediaMetadata } from "@/app/utils/exif-png";
+import {
+  diffMetadata,
+  MediaMetadata,
+  MetadataEntry,
+  toMetadataRecord,
+  toMetadataValues,
+} from "@/app/utils/media-metadata";
+import { glob } from "glob";
+
+describe("media metadata entries", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+  expect(files.length).toBeGreaterThanOrEqual(15);
+
+  for (const filename of files) {
+    it(`should describe every entry of ${filename}`, async () => {
+      const buffer = await Bun.file(filename).arrayBuffer();
+      const type = await detectContentType(buffer, filename);
+      const metadata = await getMediaMetadata(buffer, type);
+
+      for (const entry of metadata.entries) {
+        expect(entry.key).toBeTruthy();
+        expect(entry.origin).toBeTruthy();
+        expect(entry.encoding).toBeTruthy();
+      }
+      const { workflowJson } = await getWorkflowInfo(buffer, type);
+      expect(toMetadataRecord(metadata).workflow).toBe(workflowJson);
+    });
+
+    it(`should write entries back for ${filename}`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+      const type = await detectContentType(original, filename);
+      const metadata = await getMediaMetadata(original, type);
+
+      const newWorkflow = '{"test":"entries"}';
+      const input: MediaMetadata = {
+        entries: [
+          ...metadata.entries.filter((e) => e.key !== "workflow"),
+          {
+            key: "workflow",
+            value: newWorkflow,
+            origin: "",
+            encoding: "ascii",
+          },
+        ],
+      };
+      const buffer = await setWorkflowInfo(original, type, input);
+      const actual = await getMediaMetadata(
+        new Uint8Array(buffer).slice().buffer,
+        type,
+      );
+      expect(toMetadataRecord(actual)).toEqual(toMetadataRecord(input));
+    });
+  }
+});
+
+it("should keep repeated keys and key case of Vorbis comments", async () => {
+  const flac = await Bun.file("./tests/flac/padding.flac").arrayBuffer();
+  const metadata = getFlacMediaMetadata(flac);
+
+  expect(metadata.entries.filter((e) => e.key === "ARTIST")).toHaveLength(2);
+  expect(metadata.entries.map((e) => e.origin)).toContain("VORBIS_COMMENT");
+  expect(metadata.entries.find((e) => e.key === "TITLE")).toEqual({
+    key: "TITLE",
+    value: "猫",
+    origin: "VORBIS_COMMENT",
+    encoding: "utf-8",
+  });
+  expect(toMetadataValues(metadata).ARTIST).toHaveLength(2);
+});
+
+it("should report the chunk type of PNG text", async () => {
+  const png = await Bun.file("./tests/png/compressed.png").arrayBuffer();
+  const metadata = await getPngMediaMetadata(png);
+
+  expect(metadata.entries.map(({ key, origin }) => [key, origin])).toEqual([
+    ["workflow", "iTXt"],
+    ["prompt", "zTXt"],
+  ]);
+});
+
+it("should report the ID3 tag, frame and text encoding", async () => {
+  const mp3 = await Bun.file("./tests/mp3/id3v23.mp3").arrayBuffer();
+  const metadata = getMp3MediaMetadata(mp3);
+
+  // ID3v1 entries come first, ID3v2 values take precedence
+  expect(metadata.entries[0].origin).toBe("ID3v1");
+  const title = metadata.entries.filter((e) => e.key === "title");
+  expect(title.map((e) => e.origin)).toEqual(["ID3v1", "ID3v2.3 TIT2"]);
+  expect(title[1].encoding).toBe("utf-16");
+  expect(toMetadataRecord(metadata).title).toBe(title[1].value);
+  expect(metadata.entries.find((e) => e.key === "workflow")?.origin).toBe(
+    "ID3v2.3 TXXX",
+  );
+});
+
+it("should only report the keys that changed", () => {
+  const entry = (key: string, value: string): MetadataEntry => ({
+    key,
+    value,
+    origin: "VORBIS_COMMENT",
+    encoding: "ascii",
+  });
+  const original: MediaMetadata = {
+    entries: [
+      entry("ARTIST", "a"),
+      entry("ARTIST", "b"),
+      entry("TITLE", "t"),
+      entry("constructor", "c"),
+      entry("GENRE", "g"),
+    ],
+  };
+
+  // nothing edited
+  expect(diffMetadata(original, original)).toEqual({
+    changed: { entries: [] },
+    removed: [],
+  });
+
+  // edit one of the repeated values, rename GENRE and delete constructor
+  const edited: MediaMetadata = {
+    entries: [
+      entry("ARTIST", "a"),
+      entry("ARTIST", "c"),
+      entry("TITLE", "t"),
+      entry("STYLE", "g"),
+    ],
+  };
+  const { changed, removed } = diffMetadata(original, edited);
+  expect(changed.entries.map((e) => [e.key, e.value])).toEqual([
+    ["ARTIST", "a"],
+    ["ARTIST", "c"],
+    ["STYLE", "g"],
+  ]);
+  expect(removed).toEqual(["constructor", "GENRE"]);
+});
@@ -0,0 +1,141 @@
+import { UnsupportedFeatureError } from "./codec-errors";
+
+/**
+ * Format independent metadata model shared by all codecs
+ *
+ * Every value is kept as an entry together with the structure it was read
+ * from, so repeated keys, key case and the storage location survive a
+ * round-trip and can be reported to the user. `get*Metadata` and
+ * `set*Metadata` keep exchanging flat records, which are derived from it.
+ * Writers of formats with one value per key refuse keys with different
+ * values instead of keeping only the last.
+ */
+
+/**
+ * Text encoding of a stored value
+ */
+export type MetadataEncoding =
+  "ascii" | "latin1" | "utf-8" | "utf-16" | "utf-16be";
+
+export type MetadataEntry = {
+  key: string;
+  value: string;
+  // the structure holding the value, e.g. "tEXt", "EXIF 0x010f", "ID3v2.4 TXXX"
+  origin: string;
+  encoding: MetadataEncoding;
+};
+
+export type MediaMetadata = {
+  entries: MetadataEntry[];
+};
+
+/**
+ * Metadata accepted by the `set*Metadata` functions
+ */
+export type MetadataInput = Record<string, string> | MediaMetadata;
+
+/**
+ * Options accepted by all `set*Metadata` functions
+ */
+export type MetadataWriteOptions = {
+  // keys to delete with every value stored for them, keys that are also set
+  // are replaced instead
+  remove?: string[];
+};
+
+export function isMediaMetadata(
+  metadata: MediaMetadata | Record<string, unknown>,
+): metadata is MediaMetadata {
+  return Array.isArray((metadata as MediaMetadata).entries);
+}
+
+/**
+ * Flatten metadata into a record, later entries of a key take precedence
+ * @param metadata A record or a MediaMetadata
+ * @returns The key-value record
+ */
+export function toMetadataRecord(
+  metadata: MetadataInput,
+): Record<string, string> {
+  if (!isMediaMetadata(metadata)) return metadata;
+  return Object.fromEntries(metadata.entries.map((e) => [e.key, e.value]));
+}
+
+/**
+ * Flatten metadata into a record for formats that store one value per key
+ * @param metadata A record or a MediaMetadata
+ * @param format The codec name, for the error
+ * @returns The key-value record
+ * @throws UnsupportedFeatureError if a key has different values, which the
+ * format can't store
+ */
+export function toSingleValueRecord(
+  metadata: MetadataInput,
+  format: string,
+): Record<string, string> {
+  for (const [key, values] of Object.entries(toMetadataValues(metadata))) {
+    if (new Set(values).size > 1) {
+      throw new UnsupportedFeatureError(
+        format,
+        `Can not store ${values.length} different values of ${key}`,
+        { context: { key } },
+      );
+    }
+  }
+  return toMetadataRecord(metadata);
+}
+
+/**
+ * Group the values of each key in order, for formats with repeated keys
+ * @param metadata A record or a MediaMetadata
+ * @returns The values of each key
+ */
+export function toMetadataValues(
+  metadata: MetadataInput,
+): Record<string, string[]> {
+  if (!isMediaMetadata(metadata)) {
+    return Object.fromEntries(
+      Object.entries(metadata).map(([key, value]) => [key, [value]]),
+    );
+  }
+  const values: Record<string, string[]> = {};
+  for (const { key, value } of metadata.entries) {
+    // keys like "constructor" must not hit Object.prototype
+    if (!Object.hasOwn(values, key)) values[key] = [];
+    values[key].push(value);
+  }
+  return values;
+}
+
+/**
+ * Find the keys whose values differ between the metadata read from a file
+ * and an edited copy of it, so only those are written back
+ * @param original The metadata as read from the file
+ * @param edited The edited metadata
+ * @returns The entries of changed and added keys, and the keys that are gone
+ */
+export function diffMetadata(
+  original: MediaMetadata,
+  edited: MediaMetadata,
+): { changed: MediaMetadata; removed: string[] } {
+  const before = toMetadataValues(original);
+  const after = toMetadataValues(edited);
+  const changedKeys = new Set(
+    Object.keys(after).filter(
+      (key) =>
+        !Object.hasOwn(before, key) ||
+        JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+    ),
+  );
+  return {
+    changed: { entries: edited.entries.filter((e) => changedKeys.has(e.key)) },
+    removed: Object.keys(before).filter((key) => !Object.hasOwn(after, key)),
+  };
+}
+
+/**
+ * Encoding of text read with a UTF-8 decoder, ascii when all characters are
+ */
+export function detectTextEncoding(text: string): MetadataEncoding {
+  return /^[\x00-\x7f]*$/.test(text) ? "ascii" : "utf-8";
+}
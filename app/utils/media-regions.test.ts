@@ -0,0 +1,103 @@
+import { detectContentType } from "@/app/api/media/detectContentType";
+import { blobSource, bufferSource, ByteSource } from "@/app/utils/byte-source";
+import { getCodecByType } from "@/app/utils/codecs";
+import { getMediaMetadata, getSourceMetadata } from "@/app/utils/exif";
+import {
+  readFlacRegions,
+  readMp4Regions,
+  readPngRegions,
+  readWebmRegions,
+} from "@/app/utils/media-regions";
+import { glob } from "glob";
+
+// counts the bytes read from a source
+const countingSource = (source: ByteSource) => {
+  const counter = { source, bytesRead: 0 };
+  counter.source = {
+    size: source.size,
+    read: async (offset, length) => {
+      const bytes = await source.read(offset, length);
+      counter.bytesRead += bytes.length;
+      return bytes;
+    },
+  };
+  return counter;
+};
+
+describe("read metadata regions", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+  expect(files.length).toBeGreaterThanOrEqual(15);
+
+  for (const filename of files) {
+    const original = await Bun.file(filename).arrayBuffer();
+    const type = await detectContentType(original, filename);
+    if (!getCodecByType(type)?.readMetadataRegions) continue;
+
+    it(`should read the metadata of ${filename} like the whole file`, async () => {
+      const counter = countingSource(blobSource(Bun.file(filename)));
+      expect(await getSourceMetadata(counter.source, type)).toEqual(
+        await getMediaMetadata(original, type),
+      );
+      expect(counter.bytesRead).toBeLessThanOrEqual(original.byteLength);
+    });
+  }
+});
+
+it("should skip the image data of a PNG file", async () => {
+  const png = await Bun.file("./tests/png/compressed.png").bytes();
+  const regions = await readPngRegions(bufferSource(png));
+  expect(regions.length).toBeLessThan(png.length);
+  expect(new TextDecoder().decode(regions)).not.toContain("IDAT");
+  expect(new TextDecoder().decode(regions)).toContain("IEND");
+});
+
+it("should read only the 'moov' box of a large MP4 file", async () => {
+  const mp4 = await Bun.file("./tests/mp4/ComfyUI.mov").bytes();
+  const counter = countingSource(bufferSource(mp4));
+  const regions = await readMp4Regions(counter.source);
+  expect(regions.length).toBeLessThan(mp4.length);
+  expect(counter.bytesRead).toBeLessThan(mp4.length);
+  expect(await getSourceMetadata(bufferSource(mp4), "video/quicktime")).toEqual(
+    await getMediaMetadata(mp4.slice().buffer, "video/quicktime"),
+  );
+});
+
+it("should read only the metadata blocks of a FLAC file", async () => {
+  const flac = await Bun.file("./tests/flac/padding.flac").bytes();
+  const regions = await readFlacRegions(bufferSource(flac));
+  expect(regions.length).toBeLessThan(flac.length);
+  expect(await getSourceMetadata(bufferSource(flac), "audio/flac")).toEqual(
+    await getMediaMetadata(flac.slice().buffer, "audio/flac"),
+  );
+});
+
+it("should skip the clusters and cues of a WebM file", async () => {
+  const webm = await Bun.file("./tests/webm/ComfyUI.webm").bytes();
+  const regions = await readWebmRegions(bufferSource(webm));
+  // EBML header, Segment, SeekHead, Info, Tracks and Tags
+  expect(regions.length).toBeLessThan(webm.length - 800);
+  const findCluster = (bytes: Uint8Array) =>
+    Buffer.from(bytes).indexOf(Buffer.from([0x1f, 0x43, 0xb6, 0x75]));
+  expect(findCluster(webm)).toBeGreaterThan(0);
+  expect(findCluster(regions)).toBe(-1);
+  expect(await getSourceMetadata(bufferSource(webm), "video/webm")).toEqual(
+    await getMediaMetadata(webm.slice().buffer, "video/webm"),
+  );
+});
+
+it("should read cut off files whole, for the same errors", async () => {
+  const flac = await Bun.file("./tests/flac/padding.flac").bytes();
+  const cut = flac.slice(0, 100);
+  expect(await readFlacRegions(bufferSource(cut))).toEqual(cut);
+  await expect(
+    getSourceMetadata(bufferSource(cut), "audio/flac"),
+  ).rejects.toThrow("FLAC metadata block exceeds the file");
+});
+
+it("should cut files of another format to their first bytes", async () => {
+  const garbage = new Uint8Array(4096).fill(0x41);
+  expect((await readPngRegions(bufferSource(garbage))).length).toBe(8);
+  await expect(
+    getSourceMetadata(bufferSource(garbage), "video/mp4"),
+  ).rejects.toThrow("Not a valid MP4 file");
+});
@@ -0,0 +1,277 @@
+import { concatUint8Arrays } from "uint8array-extras";
+import { ByteSource } from "./byte-source";
+
+/**
+ * Metadata regions of large media files
+ *
+ * Each reader walks the container structure of a file through a ByteSource
+ * and reads only the structures that can hold metadata, skipping the coded
+ * image, audio or video data. The regions are joined into a smaller file of
+ * the same format, which the metadata reader of the format parses like the
+ * whole file.
+ *
+ * Files whose structure ends early or can't be walked are read whole, so
+ * the metadata reader reports the same errors as for the whole file. Offsets
+ * of other errors are offsets into the smaller file, which match the whole
+ * file up to the first skipped structure. Files of another format are cut to
+ * their first bytes, which the metadata reader rejects.
+ */
+
+// chunks with image data, APNG frames included
+const PNG_IMAGE_CHUNKS = ["IDAT", "fdAT"];
+// chunks with image data, ANMF holds the frames of animations
+const WEBP_IMAGE_CHUNKS = ["VP8 ", "VP8L", "ALPH", "ANMF"];
+const MP4_MEDIA_BOXES = ["mdat", "free", "skip", "wide"];
+const MP4_FIRST_BOXES = ["ftyp", "moov", "pnot", ...MP4_MEDIA_BOXES];
+const EBML_HEADER = 0x1a45dfa3;
+const EBML_SEGMENT = 0x18538067;
+// Cluster, Cues and Void, SeekHead, Info, Tracks and Tags are kept
+const WEBM_MEDIA_ELEMENTS = [0x1f43b675, 0x1c53bb6b, 0xec];
+// STREAMINFO, APPLICATION, SEEKTABLE, VORBIS_COMMENT and CUESHEET are kept
+const FLAC_PADDING = 1;
+const FLAC_PICTURE = 6;
+
+/**
+ * Read the chunks of a PNG file up to IEND, without the image data
+ */
+export async function readPngRegions(source: ByteSource): Promise<Uint8Array> {
+  const signature = await source.read(0, 8);
+  if (readFourCC(signature, 0) !== "\x89PNG") return signature;
+
+  const parts = [signature];
+  let offset = 8;
+  while (offset < source.size) {
+    const header = await source.read(offset, 8);
+    if (header.length < 8) return await readAll(source);
+    const length = readUint32(header, 0);
+    const type = readFourCC(header, 4);
+    const end = offset + 12 + length;
+    if (end > source.size) return await readAll(source);
+    if (!PNG_IMAGE_CHUNKS.includes(type))
+      parts.push(await source.read(offset, end - offset));
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return concatUint8Arrays(parts);
+}
+
+/**
+ * Read the chunks of a WebP file, without the image data
+ */
+export async function readWebpRegions(source: ByteSource): Promise<Uint8Array> {
+  return await readRiffRegions(source, "WEBP", WEBP_IMAGE_CHUNKS);
+}
+
+/**
+ * Read the chunks of a WAV file, without the audio data
+ */
+export async function readWavRegions(source: ByteSource): Promise<Uint8Array> {
+  return await readRiffRegions(source, "WAVE", ["data"]);
+}
+
+/**
+ * Read the RIFF chunks of a file except some, the RIFF size is set to the
+ * chunks read
+ * @param form The form type after the RIFF header, e.g. "WAVE"
+ * @param skipped The ids of the chunks to leave out
+ */
+async function readRiffRegions(
+  source: ByteSource,
+  form: string,
+  skipped: string[],
+): Promise<Uint8Array> {
+  const header = await source.read(0, 12);
+  if (readFourCC(header, 0) !== "RIFF" || readFourCC(header, 8) !== form)
+    return header;
+
+  const parts = [];
+  let offset = 12;
+  while (offset + 8 <= source.size) {
+    const chunkHeader = await source.read(offset, 8);
+    const id = readFourCC(chunkHeader, 0);
+    const size = readUint32(chunkHeader, 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (!skipped.includes(id)) {
+      if (offset + 8 + size > source.size) return await readAll(source);
+      parts.push(await source.read(offset, end - offset));
+    }
+    offset = end;
+  }
+  const chunks = concatUint8Arrays(parts);
+  new DataView(header.buffer, header.byteOffset).setUint32(
+    4,
+    4 + chunks.length,
+    true,
+  );
+  return concatUint8Arrays([header, chunks]);
+}
+
+/**
+ * Read the metadata blocks of a FLAC file, without pictures, padding and the
+ * audio frames after the last block
+ */
+export async function readFlacRegions(source: ByteSource): Promise<Uint8Array> {
+  const signature = await source.read(0, 4);
+  if (readFourCC(signature, 0) !== "fLaC") return signature;
+
+  const parts = [signature];
+  let offset = 4;
+  while (true) {
+    const header = await source.read(offset, 4);
+    if (header.length < 4) return await readAll(source);
+    const isLastBlock = header[0] & 0x80;
+    const type = header[0] & 0x7f;
+    const size = readUint32(header, 0) & 0xffffff;
+    const end = offset + 4 + size;
+    if (end > source.size) return await readAll(source);
+    if (type !== FLAC_PADDING && type !== FLAC_PICTURE)
+      parts.push(await source.read(offset, end - offset));
+    offset = end;
+    if (isLastBlock) break;
+  }
+  return concatUint8Arrays(parts);
+}
+
+/**
+ * Read the top-level boxes of an MP4 file, without the media data, e.g. the
+ * 'ftyp' and 'moov' boxes wherever they are in the file
+ */
+export async function readMp4Regions(source: ByteSource): Promise<Uint8Array> {
+  const parts = [];
+  let offset = 0;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 16);
+    const type = readFourCC(header, 4);
+    if (offset === 0 && !MP4_FIRST_BOXES.includes(type)) return header;
+
+    let size = readUint32(header, 0);
+    let headerSize = 8;
+    if (size === 1 && header.length === 16) {
+      // 64-bit size
+      size = readUint32(header, 8) * 2 ** 32 + readUint32(header, 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      // the box extends to the end of the file
+      size = source.size - offset;
+    }
+    if (size < headerSize) return await readAll(source);
+    if (!MP4_MEDIA_BOXES.includes(type)) {
+      if (offset + size > source.size) return await readAll(source);
+      parts.push(await source.read(offset, size));
+    }
+    offset += size;
+  }
+  // an empty 'free' box keeps a file of media data only valid
+  if (!parts.length)
+    return new Uint8Array([0, 0, 0, 8, 0x66, 0x72, 0x65, 0x65]);
+  return concatUint8Arrays(parts);
+}
+
+/**
+ * Read the EBML header and the top-level elements of the Segment of a WebM
+ * file, without the clusters of media data and the cues indexing them. The
+ * Segment size is set to the elements read.
+ */
+export async function readWebmRegions(source: ByteSource): Promise<Uint8Array> {
+  const header = await readEbmlElement(source, 0);
+  if (header?.id !== EBML_HEADER) return await source.read(0, 4);
+  const segment = await readEbmlElement(source, header.end);
+  if (segment?.id !== EBML_SEGMENT) return await readAll(source);
+  if (!segment.unknownSize && segment.end > source.size)
+    return await readAll(source);
+
+  const parts = [];
+  const segmentEnd = segment.unknownSize ? source.size : segment.end;
+  let offset = segment.dataOffset;
+  while (offset < segmentEnd) {
+    const element = await readEbmlElement(source, offset);
+    // elements of unknown size can't be skipped
+    if (!element || element.unknownSize || element.end > segmentEnd)
+      return await readAll(source);
+    if (!WEBM_MEDIA_ELEMENTS.includes(element.id))
+      parts.push(await source.read(offset, element.end - offset));
+    offset = element.end;
+  }
+  const children = concatUint8Arrays(parts);
+  // the Segment ID and an 8 byte size
+  const segmentHeader = new Uint8Array(12);
+  const view = new DataView(segmentHeader.buffer);
+  view.setUint32(0, EBML_SEGMENT);
+  view.setUint32(4, 0x01000000 + Math.floor(children.length / 2 ** 32));
+  view.setUint32(8, children.length % 2 ** 32);
+  return concatUint8Arrays([
+    await source.read(0, header.end),
+    segmentHeader,
+    children,
+  ]);
+}
+
+/**
+ * Read the ID and size of an EBML element
+ * @returns The element, or undefined if its header is invalid or cut off
+ */
+async function readEbmlElement(source: ByteSource, offset: number) {
+  const header = await source.read(offset, 12);
+  const idLength = getVintLength(header[0]);
+  const sizeLength = getVintLength(header[idLength]);
+  if (idLength > 4 || sizeLength > 8 || idLength + sizeLength > header.length)
+    return undefined;
+
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + header[i];
+  const mask = 0xff >> sizeLength;
+  let size = header[idLength] & mask;
+  let unknownSize = size === mask;
+  for (let i = 1; i < sizeLength; i++) {
+    size = size * 256 + header[idLength + i];
+    unknownSize &&= header[idLength + i] === 0xff;
+  }
+  const dataOffset = offset + idLength + sizeLength;
+  return { id, dataOffset, end: dataOffset + size, unknownSize };
+}
+
+function getVintLength(firstByte: number | undefined): number {
+  let length = 1;
+  while (length <= 8 && !((firstByte ?? 0) & (0x80 >> (length - 1)))) length++;
+  return length;
+}
+
+/**
+ * Read the ID3v2 tag at the start and the last 128 bytes of an MP3 file,
+ * where an ID3v1 tag is, without the audio frames between
+ */
+export async function readMp3Regions(source: ByteSource): Promise<Uint8Array> {
+  const header = await source.read(0, 10);
+  let tagSize = header.length;
+  if (header.length === 10 && readFourCC(header, 0).startsWith("ID3")) {
+    // the synchsafe tag size, a footer follows if flagged
+    tagSize =
+      10 +
+      ((header[6] << 21) | (header[7] << 14) | (header[8] << 7) | header[9]) +
+      (header[5] & 0x10 ? 10 : 0);
+  }
+  if (tagSize + 128 >= source.size) return await readAll(source);
+  return concatUint8Arrays([
+    await source.read(0, tagSize),
+    await source.read(source.size - 128, 128),
+  ]);
+}
+
+async function readAll(source: ByteSource): Promise<Uint8Array> {
+  return await source.read(0, source.size);
+}
+
+function readFourCC(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+function readUint32(
+  data: Uint8Array,
+  offset: number,
+  littleEndian = false,
+): number {
+  return new DataView(data.buffer, data.byteOffset).getUint32(
+    offset,
+    littleEndian,
+  );
+}
@@ -0,0 +1,153 @@
+import { detectContentType } from "@/app/api/media/detectContentType";
+import { getCodecByType } from "@/app/utils/codecs";
+import { repairMedia } from "@/app/utils/exif";
+import { getMp3MediaMetadata } from "@/app/utils/exif-mp3";
+import { getWebpMetadata } from "@/app/utils/exif-webp";
+import {
+  repairMp3,
+  repairMp4,
+  repairPng,
+  repairWav,
+} from "@/app/utils/media-repair";
+import { validateMp3, validatePng } from "@/app/utils/media-validator";
+import { glob } from "glob";
+import { concatUint8Arrays } from "uint8array-extras";
+
+const payloadOf = (buffer: Uint8Array, type: string) =>
+  concatUint8Arrays(getCodecByType(type)!.payload(buffer.slice().buffer));
+
+describe("repair media files", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+  expect(files.length).toBeGreaterThanOrEqual(15);
+
+  for (const filename of files) {
+    const original = await Bun.file(filename).arrayBuffer();
+    const type = await detectContentType(original, filename);
+    if (!getCodecByType(type)?.repair) continue;
+
+    it(`should leave ${filename} as it is`, async () => {
+      const { buffer, fixes, issues } = await repairMedia(original, type);
+      // this fixture was edited by hand, see media-validator.test.ts
+      if (filename.endsWith("ComfyUI_00001.png")) return;
+      expect(fixes).toEqual([]);
+      expect(buffer).toEqual(new Uint8Array(original));
+      expect(issues.filter((e) => e.severity === "error")).toEqual([]);
+    });
+  }
+});
+
+it("should rebuild an EXIF block whose offsets miss their values", async () => {
+  const filename = "./tests/webp/malformed/robot.webp";
+  const original = await Bun.file(filename).bytes();
+  const { buffer, fixes, issues } = await repairMedia(
+    original.slice().buffer,
+    "image/webp",
+  );
+  expect(fixes.map((e) => e.message)).toEqual([
+    "Set the RIFF size from 1049514 to 1049512",
+    "Set the EXIF chunk size from 12317 to 12315",
+    "Rebuilt the EXIF block, the offsets of tags 0x0110 did not point at their values",
+  ]);
+  expect(issues).toEqual([]);
+  expect(payloadOf(buffer, "image/webp")).toEqual(
+    payloadOf(original, "image/webp"),
+  );
+
+  // the prompt was read from one byte off, with a NUL in front
+  const metadata = getWebpMetadata(buffer);
+  expect(Object.keys(metadata)).toEqual(["workflow", "prompt"]);
+  expect(() => JSON.parse(metadata.prompt)).not.toThrow();
+  expect(metadata.workflow).toBe(getWebpMetadata(original).workflow);
+});
+
+it("should recompute wrong and missing PNG CRCs", async () => {
+  const png = await Bun.file("./tests/png/compressed.png").bytes();
+  expect(repairPng(png).fixes).toEqual([]);
+
+  // the CRC of IHDR ends at 8 + 8 + 13 + 4
+  const wrong = png.slice();
+  wrong[29] ^= 1;
+  expect(repairPng(wrong)).toEqual({
+    buffer: png,
+    fixes: [
+      {
+        offset: 29,
+        message: expect.stringMatching(/^Corrected the CRC of the IHDR chunk/),
+      },
+    ],
+  });
+
+  const missing = concatUint8Arrays([png.slice(0, 29), png.slice(33, -4)]);
+  const { buffer, fixes } = repairPng(missing);
+  expect(fixes.map((e) => e.message)).toEqual([
+    "Added the missing CRC of the IHDR chunk",
+    "Added the missing CRC of the IEND chunk",
+  ]);
+  expect(buffer).toEqual(png);
+  expect(validatePng(buffer)).toEqual([]);
+});
+
+it("should fit the RIFF size to the chunks", async () => {
+  const wav = await Bun.file("./tests/wav/blank.wav").bytes();
+  expect(repairWav(wav.slice(0, 1000)).fixes).toEqual([
+    { offset: 4, message: "Set the RIFF size from 1670 to 992" },
+    {
+      offset: 36,
+      message: "Clipped the data chunk from 1600 to the 956 bytes left in RIFF",
+    },
+  ]);
+
+  // chunks after a RIFF size that is too small are kept
+  const small = wav.slice();
+  new DataView(small.buffer).setUint32(4, 100, true);
+  expect(repairWav(small)).toEqual({
+    buffer: wav,
+    fixes: [{ offset: 4, message: "Set the RIFF size from 100 to 1670" }],
+  });
+});
+
+it("should rebuild a truncated ID3v2 tag", async () => {
+  const mp3 = await Bun.file("./tests/mp3/id3v23.mp3").bytes();
+  expect(repairMp3(mp3).fixes).toEqual([]);
+
+  // a tag size of 100 bytes cuts the frames off
+  const truncated = mp3.slice();
+  truncated.set([0, 0, 0, 100], 6);
+  expect(validateMp3(truncated).length).toBeGreaterThan(0);
+  const { buffer, fixes } = repairMp3(truncated);
+  expect(fixes).toEqual([
+    {
+      offset: 6,
+      message:
+        "Set the ID3v2 tag size from 100 to 18115 bytes, its frames exceed the tag",
+    },
+  ]);
+  expect(buffer).toEqual(mp3);
+  expect(getMp3MediaMetadata(buffer.slice().buffer)).toEqual(
+    getMp3MediaMetadata(mp3.slice().buffer),
+  );
+
+  // a frame cut off by the end of the file is dropped
+  const { buffer: cut, fixes: cutFixes } = repairMp3(mp3.slice(0, 1000));
+  expect(cutFixes.map((e) => e.message)).toEqual([
+    expect.stringMatching(/^Dropped the \w{4} frame, it exceeds the file/),
+    expect.stringMatching(/^Set the ID3v2 tag size from 18115 to \d+ bytes/),
+  ]);
+  expect(validateMp3(cut).filter((e) => e.severity === "error")).toEqual([]);
+});
+
+it("should clip an MP4 box larger than the file", async () => {
+  const mp4 = await Bun.file("./tests/mp4/faststart.mp4").bytes();
+  const oversized = mp4.slice();
+  new DataView(oversized.buffer).setUint32(906, 648 + 100);
+  expect(repairMp4(oversized)).toEqual({
+    buffer: mp4,
+    fixes: [
+      {
+        offset: 906,
+        message:
+          "Clipped the 'mdat' box from 748 to the 648 bytes left in the file",
+      },
+    ],
+  });
+});
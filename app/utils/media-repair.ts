@@ -0,0 +1,531 @@
+import { crc32FromArrayBuffer } from "crc32-from-arraybuffer";
+import { concatUint8Arrays } from "uint8array-extras";
+import {
+  NotThisFormatError,
+  TruncatedError,
+  UnsupportedFeatureError,
+} from "./codec-errors";
+import { repairTIFFBlock } from "./exif-webp";
+
+/**
+ * Repair of malformed media files
+ *
+ * Each repair rebuilds the container structures that real-world writers get
+ * wrong (sizes, offsets, checksums) and copies the coded image or audio data
+ * and every metadata value that can still be read. Structures that can't be
+ * recovered are dropped, and every change is listed as a fix, so the result
+ * can be reviewed before it replaces the original.
+ *
+ * The repairs pair with the checks of ./media-validator, a repaired file is
+ * expected to pass them.
+ */
+
+export type RepairFix = {
+  // byte offset of the repaired structure in the original file
+  offset: number;
+  message: string;
+};
+
+export type RepairResult = {
+  buffer: Uint8Array;
+  // empty if nothing had to be repaired
+  fixes: RepairFix[];
+};
+
+const PNG_IEND = new Uint8Array([
+  0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+]);
+
+/**
+ * Recompute wrong or missing chunk CRCs of a PNG file, drop a truncated last
+ * chunk and add a missing IEND chunk
+ * @param buffer The PNG file buffer
+ */
+export function repairPng(buffer: Uint8Array | ArrayBuffer): RepairResult {
+  const png = new Uint8Array(buffer);
+  const dataView = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  if (png.length < 8 || dataView.getUint32(0) !== 0x89504e47)
+    throw new NotThisFormatError("png", "Not a valid PNG file");
+
+  const fixes: RepairFix[] = [];
+  const chunks: Uint8Array[] = [png.subarray(0, 8)];
+  const isChunkType = (offset: number) =>
+    /^[A-Za-z]{4}$/.test(readFourCC(png, offset));
+  let offset = 8;
+  let ended = false;
+  while (offset < png.length) {
+    if (offset + 8 > png.length || !isChunkType(offset + 4)) {
+      fixes.push({
+        offset,
+        message: `Dropped ${png.length - offset} unreadable bytes at the end`,
+      });
+      offset = png.length;
+      break;
+    }
+    const length = dataView.getUint32(offset);
+    const type = readFourCC(png, offset + 4);
+    const dataEnd = offset + 8 + length;
+    if (dataEnd > png.length) {
+      fixes.push({
+        offset,
+        message: `Dropped the ${type} chunk, it exceeds the file by ${dataEnd - png.length} bytes`,
+      });
+      offset = png.length;
+      break;
+    }
+
+    const crc = crc32FromArrayBuffer(png.subarray(offset + 4, dataEnd)) >>> 0;
+    const storedCrc =
+      dataEnd + 4 <= png.length ? dataView.getUint32(dataEnd) : undefined;
+    // the next chunk type where the next chunk length would be means the CRC
+    // was left out, a length can't be made of letters only
+    const hasCrc =
+      storedCrc !== undefined &&
+      (storedCrc === crc || !isChunkType(dataEnd + 4));
+    if (!hasCrc) {
+      fixes.push({
+        offset: dataEnd,
+        message: `Added the missing CRC of the ${type} chunk`,
+      });
+    } else if (storedCrc !== crc) {
+      fixes.push({
+        offset: dataEnd,
+        message: `Corrected the CRC of the ${type} chunk from ${toHex(storedCrc)} to ${toHex(crc)}`,
+      });
+    }
+    const chunk = new Uint8Array(length + 12);
+    chunk.set(png.subarray(offset, dataEnd));
+    new DataView(chunk.buffer).setUint32(length + 8, crc);
+    chunks.push(chunk);
+    offset = dataEnd + (hasCrc ? 4 : 0);
+    if (type === "IEND") {
+      ended = true;
+      break;
+    }
+  }
+  if (!ended) {
+    fixes.push({ offset, message: "Added the missing IEND chunk" });
+    chunks.push(PNG_IEND);
+  }
+  // bytes after IEND are kept as they are
+  chunks.push(png.subarray(offset));
+
+  if (!fixes.length) return { buffer: png, fixes };
+  return { buffer: concatUint8Arrays(chunks), fixes };
+}
+
+/**
+ * Set the RIFF size of a WAV file to its chunks, clip a truncated chunk and
+ * add missing padding bytes
+ * @param buffer The WAV file buffer
+ */
+export function repairWav(buffer: Uint8Array | ArrayBuffer): RepairResult {
+  const wav = new Uint8Array(buffer);
+  if (readFourCC(wav, 0) !== "RIFF" || readFourCC(wav, 8) !== "WAVE")
+    throw new NotThisFormatError("wav", "Not a valid WAV file");
+  return repairRiff(wav);
+}
+
+/**
+ * Set the RIFF size of a WebP file to its chunks, clip a truncated chunk, add
+ * missing padding bytes, rebuild EXIF blocks with broken value offsets and
+ * set the VP8X flags of the optional chunks present
+ * @param buffer The WebP file buffer
+ */
+export function repairWebp(buffer: Uint8Array | ArrayBuffer): RepairResult {
+  const webp = new Uint8Array(buffer);
+  if (readFourCC(webp, 0) !== "RIFF" || readFourCC(webp, 8) !== "WEBP")
+    throw new NotThisFormatError("webp", "Not a valid WEBP file");
+
+  const { buffer: rebuilt, fixes } = repairRiff(webp, (id, data, offset) => {
+    if (id !== "EXIF") return undefined;
+    const headerLength =
+      readFourCC(data, 0) === "Exif" && data[4] === 0 && data[5] === 0 ? 6 : 0;
+    const result = repairTIFFBlock(data.slice(headerLength));
+    if (!result) return undefined;
+    const tags = result.tags.map((e) => toHex(e, 4)).join(", ");
+    return {
+      data: concatUint8Arrays([data.subarray(0, headerLength), result.block]),
+      fix: {
+        offset: offset + 8 + headerLength,
+        message: `Rebuilt the EXIF block, the offsets of tags ${tags} did not point at their values`,
+      },
+    };
+  });
+
+  // set the VP8X flags, their chunks are either present or not at all
+  const repaired = rebuilt === webp ? webp.slice() : rebuilt;
+  const view = new DataView(repaired.buffer, repaired.byteOffset);
+  const ids: string[] = [];
+  for (let offset = 12; offset + 8 <= repaired.length;) {
+    ids.push(readFourCC(repaired, offset));
+    const size = view.getUint32(offset + 4, true);
+    offset += 8 + size + (size % 2);
+  }
+  if (ids[0] === "VP8X") {
+    const flags = repaired[20];
+    let expected = flags;
+    for (const [flag, id] of VP8X_FLAGS) {
+      expected = ids.includes(id) ? expected | flag : expected & ~flag;
+    }
+    if (expected !== flags) {
+      repaired[20] = expected;
+      fixes.push({
+        offset: 20,
+        message: `Set the VP8X flags from ${toHex(flags, 2)} to ${toHex(expected, 2)} to match the chunks present`,
+      });
+    }
+  }
+  return { buffer: fixes.length ? repaired : webp, fixes };
+}
+
+// VP8X feature flags of optional chunks
+const VP8X_FLAGS: [number, string][] = [
+  [0x20, "ICCP"],
+  [0x08, "EXIF"],
+  [0x04, "XMP "],
+  [0x02, "ANIM"],
+];
+
+/**
+ * Rewrite the chunks of a RIFF file with sizes that fit the file, chunks after
+ * a RIFF size that is too small are taken in
+ * @param repairChunk Rebuild the data of a chunk, or undefined to keep it
+ */
+function repairRiff(
+  riff: Uint8Array,
+  repairChunk?: (
+    id: string,
+    data: Uint8Array,
+    offset: number,
+  ) => { data: Uint8Array; fix: RepairFix } | undefined,
+): RepairResult {
+  const dataView = new DataView(riff.buffer, riff.byteOffset, riff.byteLength);
+  const fixes: RepairFix[] = [];
+  const declaredSize = dataView.getUint32(4, true);
+  // data after the RIFF chunk that isn't a chunk, kept as it is
+  let trailing: Uint8Array = new Uint8Array(0);
+
+  const walk = (start: number, end: number, parent: string): Uint8Array[] => {
+    const parts: Uint8Array[] = [];
+    let offset = start;
+    while (offset < end) {
+      if (offset + 8 > end || !isFourCC(riff, offset)) {
+        if (parent === "RIFF" && offset >= 8 + declaredSize) {
+          trailing = riff.subarray(offset);
+          break;
+        }
+        fixes.push({
+          offset,
+          message: `Dropped ${end - offset} unreadable bytes at the end of ${parent}`,
+        });
+        break;
+      }
+      const id = readFourCC(riff, offset);
+      let size = dataView.getUint32(offset + 4, true);
+      if (offset + 8 + size > end) {
+        fixes.push({
+          offset,
+          message: `Clipped the ${id} chunk from ${size} to the ${end - offset - 8} bytes left in ${parent}`,
+        });
+        size = end - offset - 8;
+      }
+      const dataEnd = offset + 8 + size;
+      let data: Uint8Array = riff.subarray(offset + 8, dataEnd);
+      if (id === "LIST" && size >= 4) {
+        data = concatUint8Arrays([
+          data.subarray(0, 4),
+          ...walk(offset + 12, dataEnd, `LIST/${readFourCC(riff, offset + 8)}`),
+        ]);
+      } else {
+        const repaired = repairChunk?.(id, data, offset);
+        if (repaired) fixes.push(repaired.fix);
+        data = repaired?.data ?? data;
+      }
+      if (data.length !== size && id !== "LIST") {
+        fixes.push({
+          offset: offset + 4,
+          message: `Set the ${id} chunk size from ${size} to ${data.length}`,
+        });
+      }
+
+      const header = new Uint8Array(8);
+      header.set(riff.subarray(offset, offset + 4));
+      new DataView(header.buffer).setUint32(4, data.length, true);
+      parts.push(header, data);
+      if (data.length % 2) parts.push(new Uint8Array(1));
+
+      offset = dataEnd;
+      if (size % 2 === 0) continue;
+      // a missing padding byte is added above
+      if (dataEnd === end || isFourCC(riff, dataEnd)) {
+        fixes.push({
+          offset: dataEnd,
+          message: `Added the padding byte of the ${id} chunk`,
+        });
+        continue;
+      }
+      offset += 1;
+    }
+    return parts;
+  };
+
+  const chunks = walk(12, riff.length, "RIFF");
+  const body = concatUint8Arrays([riff.subarray(8, 12), ...chunks]);
+  if (body.length !== declaredSize) {
+    fixes.push({
+      offset: 4,
+      message: `Set the RIFF size from ${declaredSize} to ${body.length}`,
+    });
+  }
+  if (!fixes.length) return { buffer: riff, fixes };
+
+  const header = new Uint8Array(8);
+  header.set(riff.subarray(0, 4));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return {
+    buffer: concatUint8Arrays([header, body, trailing]),
+    fixes: fixes.sort((a, b) => a.offset - b.offset),
+  };
+}
+
+/**
+ * Rebuild the ID3v2 tag of an MP3 file so that it ends where the audio
+ * starts: frames that were cut off are dropped and the tag size is set to
+ * the frames that can be read, with the gap to the first MPEG frame as
+ * padding
+ * @param buffer The MP3 file buffer
+ */
+export function repairMp3(buffer: Uint8Array | ArrayBuffer): RepairResult {
+  const mp3 = new Uint8Array(buffer);
+  const dataView = new DataView(mp3.buffer, mp3.byteOffset, mp3.byteLength);
+  if (!readFourCC(mp3, 0).startsWith("ID3")) {
+    if (findMpegFrame(mp3, 0) !== 0)
+      throw new NotThisFormatError("mp3", "Not a valid MP3 file");
+    return { buffer: mp3, fixes: [] };
+  }
+  const [version, flags] = [mp3[3], mp3[5]];
+  if (mp3.length < 10)
+    throw new TruncatedError("mp3", "Truncated ID3v2 header", { offset: 0 });
+  if (version < 2 || version > 4) {
+    throw new UnsupportedFeatureError(
+      "mp3",
+      `Unsupported ID3v2 version 2.${version}`,
+      { offset: 3 },
+    );
+  }
+  // ID3v2.3 unsynchronisation shifts the frames, they can't be walked in place
+  if (version === 3 && flags & 0x80) return { buffer: mp3, fixes: [] };
+
+  const fixes: RepairFix[] = [];
+  const declaredEnd =
+    10 + readSynchsafe(mp3, 6) + (version === 4 && flags & 0x10 ? 10 : 0);
+  if (!mp3.subarray(6, 10).every((e) => e < 0x80)) {
+    fixes.push({
+      offset: 6,
+      message: "Wrote the ID3v2 tag size as a synchsafe integer",
+    });
+  }
+
+  // walk the frames up to the file end, the tag size may be too small
+  let offset = 10;
+  if (flags & 0x40 && version >= 3) {
+    offset +=
+      version === 3
+        ? 4 + dataView.getUint32(offset)
+        : readSynchsafe(mp3, offset);
+  }
+  const idLength = version >= 3 ? 4 : 3;
+  const headerSize = version >= 3 ? 10 : 6;
+  while (offset + headerSize <= mp3.length) {
+    const id = String.fromCharCode(...mp3.subarray(offset, offset + idLength));
+    if (!new RegExp(`^[A-Z0-9]{${idLength}}$`).test(id)) break;
+    const size =
+      version === 4
+        ? readSynchsafe(mp3, offset + 4)
+        : version === 3
+          ? dataView.getUint32(offset + 4)
+          : (dataView.getUint16(offset + 3) << 8) | mp3[offset + 5];
+    if (offset + headerSize + size > mp3.length) {
+      fixes.push({
+        offset,
+        message: `Dropped the ${id} frame, it exceeds the file by ${offset + headerSize + size - mp3.length} bytes`,
+      });
+      break;
+    }
+    offset += headerSize + size;
+  }
+  const framesEnd = offset;
+
+  const audioStart = findMpegFrame(mp3, framesEnd);
+  // zero padding or other data between the tag and the audio is fine
+  const fits =
+    framesEnd <= declaredEnd &&
+    declaredEnd <= (audioStart === -1 ? mp3.length : audioStart);
+  const end = fits ? declaredEnd : audioStart === -1 ? framesEnd : audioStart;
+  if (!fits) {
+    const reason =
+      framesEnd > declaredEnd
+        ? "its frames exceed the tag"
+        : audioStart !== -1
+          ? "the audio starts inside the tag"
+          : "the tag exceeds the file";
+    fixes.push({
+      offset: 6,
+      message: `Set the ID3v2 tag size from ${declaredEnd - 10} to ${end - 10} bytes, ${reason}`,
+    });
+  }
+  if (!fixes.length) return { buffer: mp3, fixes };
+
+  const header = mp3.slice(0, 10);
+  // the footer, if any, is overwritten by the padding
+  header[5] &= ~0x10;
+  header.set(toSynchsafe(end - 10), 6);
+  const frames = mp3.subarray(10, framesEnd);
+  const padding = new Uint8Array(end - framesEnd);
+  return {
+    buffer: concatUint8Arrays([header, frames, padding, mp3.subarray(end)]),
+    fixes,
+  };
+}
+
+/**
+ * Clip the boxes of an MP4 / QuickTime file that are larger than their parent
+ * or the file, the box contents stay where they are
+ * @param buffer The MP4 file buffer
+ */
+export function repairMp4(buffer: Uint8Array | ArrayBuffer): RepairResult {
+  return repairBoxes(new Uint8Array(buffer));
+}
+
+/**
+ * Clip the boxes of a HEIF (AVIF/HEIC) file that are larger than their parent
+ * or the file, the box contents stay where they are
+ * @param buffer The HEIF file buffer
+ */
+export function repairHeif(buffer: Uint8Array | ArrayBuffer): RepairResult {
+  return repairBoxes(new Uint8Array(buffer));
+}
+
+// boxes whose content is a list of boxes, as in ./media-validator
+const CONTAINER_BOXES = [
+  "moov",
+  "trak",
+  "mdia",
+  "minf",
+  "stbl",
+  "udta",
+  "edts",
+  "dinf",
+  "mvex",
+  "moof",
+  "traf",
+  "mfra",
+  "tref",
+  "iprp",
+  "ipco",
+  "sinf",
+  "schi",
+  "ilst",
+  "meta",
+];
+
+function repairBoxes(data: Uint8Array): RepairResult {
+  const fixed = data.slice();
+  const dataView = new DataView(fixed.buffer);
+  const fixes: RepairFix[] = [];
+
+  const walk = (start: number, end: number, parent: string) => {
+    const where = parent ? `'${parent}'` : "the file";
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = dataView.getUint32(offset);
+      const type = readFourCC(fixed, offset + 4);
+      let headerSize = 8;
+      if (size === 1) {
+        if (offset + 16 > end) return;
+        size = Number(dataView.getBigUint64(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        if (parent) return;
+        size = end - offset;
+      }
+      if (size < headerSize) return;
+      if (offset + size > end) {
+        fixes.push({
+          offset,
+          message: `Clipped the '${type}' box from ${size} to the ${end - offset} bytes left in ${where}`,
+        });
+        size = end - offset;
+        if (headerSize === 16) dataView.setBigUint64(offset + 8, BigInt(size));
+        else dataView.setUint32(offset, size);
+      }
+
+      // 'ilst' items of QuickTime 'meta' are typed by their key index
+      if (CONTAINER_BOXES.includes(type) || parent.endsWith("ilst")) {
+        let childrenOffset = offset + headerSize;
+        // ISO 'meta' is a full box, QuickTime 'meta' starts with 'hdlr'
+        if (type === "meta" && readFourCC(fixed, offset + 12) !== "hdlr") {
+          childrenOffset += 4;
+        }
+        walk(
+          childrenOffset,
+          offset + size,
+          parent ? `${parent}/${type}` : type,
+        );
+      }
+      offset += size;
+    }
+  };
+
+  walk(0, fixed.length, "");
+  return { buffer: fixes.length ? fixed : data, fixes };
+}
+
+/**
+ * Find the first MPEG audio frame header, checking the fields that can't
+ * have all bits set or cleared, so that stray 0xFF bytes are skipped
+ * @returns The offset, or -1 if there is none
+ */
+function findMpegFrame(data: Uint8Array, start: number): number {
+  for (let i = start; i + 4 <= data.length; i++) {
+    if (data[i] !== 0xff || (data[i + 1] & 0xe0) !== 0xe0) continue;
+    const version = (data[i + 1] >> 3) & 3;
+    const layer = (data[i + 1] >> 1) & 3;
+    const bitrate = data[i + 2] >> 4;
+    const sampleRate = (data[i + 2] >> 2) & 3;
+    if (version !== 1 && layer !== 0 && bitrate !== 15 && sampleRate !== 3)
+      return i;
+  }
+  return -1;
+}
+
+function readFourCC(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+function isFourCC(data: Uint8Array, offset: number): boolean {
+  return /^[\x20-\x7e]{4}$/.test(readFourCC(data, offset));
+}
+
+function readSynchsafe(data: Uint8Array, offset: number): number {
+  return (
+    ((data[offset] & 0x7f) << 21) |
+    ((data[offset + 1] & 0x7f) << 14) |
+    ((data[offset + 2] & 0x7f) << 7) |
+    (data[offset + 3] & 0x7f)
+  );
+}
+
+function toSynchsafe(value: number): Uint8Array {
+  return new Uint8Array([
+    (value >> 21) & 0x7f,
+    (value >> 14) & 0x7f,
+    (value >> 7) & 0x7f,
+    value & 0x7f,
+  ]);
+}
+
+function toHex(value: number, digits = 8): string {
+  return `0x${value.toString(16).padStart(digits, "0")}`;
+}
@@ -0,0 +1,140 @@
+import { detectContentType } from "@/app/api/media/detectContentType";
+import { setWorkflowInfo, validateMedia } from "@/app/utils/exif";
+import {
+  validateFlac,
+  validateMp3,
+  validateMp4,
+  validatePng,
+  validateWav,
+} from "@/app/utils/media-validator";
+import { glob } from "glob";
+import { concatUint8Arrays } from "uint8array-extras";
+
+describe("validate media files", async () => {
+  const files = await glob("./tests/*/*.*", { ignore: "**/*.json" });
+  expect(files.length).toBeGreaterThanOrEqual(15);
+
+  for (const filename of files) {
+    it(`should find no errors in ${filename} before and after a write`, async () => {
+      const original = await Bun.file(filename).arrayBuffer();
+      const type = await detectContentType(original, filename);
+      const before = await validateMedia(original, type);
+      // this fixture was edited by hand, see below
+      if (!filename.endsWith("ComfyUI_00001.png"))
+        expect(before.issues.filter((e) => e.severity === "error")).toEqual([]);
+
+      const written = await setWorkflowInfo(original, type, {
+        workflow: '{"test":"validate"}',
+      });
+      const after = await validateMedia(written.slice().buffer, type);
+      expect(after.format).toBe(before.format);
+      expect(after.issues.filter((e) => e.severity === "error")).toEqual([]);
+    });
+  }
+});
+
+it("should report a PNG chunk with a wrong CRC", async () => {
+  const png = await Bun.file("./tests/png/ComfyUI_00001.png").bytes();
+  expect(validatePng(png)).toEqual([
+    {
+      severity: "error",
+      offset: 13559,
+      message:
+        "CRC mismatch in tEXt chunk, stored 0xeecb6a95 but computed 0x1efd89f6",
+    },
+  ]);
+
+  const blank = await Bun.file("./tests/png/compressed.png").bytes();
+  const idat = new TextDecoder("latin1").decode(blank).indexOf("IDAT") - 4;
+  blank[idat + 8] ^= 1;
+  expect(validatePng(blank).map((e) => e.message)).toEqual([
+    expect.stringMatching(/^CRC mismatch in IDAT chunk/),
+  ]);
+});
+
+it("should report a truncated RIFF and missing padding", async () => {
+  const wav = await Bun.file("./tests/wav/blank.wav").bytes();
+  expect(validateWav(wav)).toEqual([]);
+
+  expect(validateWav(wav.slice(0, 1000))).toEqual([
+    {
+      severity: "error",
+      offset: 4,
+      message:
+        "RIFF size exceeds the file by 678 bytes, the file may be truncated",
+    },
+    {
+      severity: "error",
+      offset: 36,
+      message: "data chunk size exceeds RIFF by 644 bytes",
+    },
+  ]);
+
+  // a 3 byte chunk without its padding byte before the LIST chunk
+  const junk = new Uint8Array([0x6a, 0x75, 0x6e, 0x6b, 3, 0, 0, 0, 1, 2, 3]);
+  const unpadded = concatUint8Arrays([
+    wav.slice(0, 1644),
+    junk,
+    wav.slice(1644),
+  ]);
+  new DataView(unpadded.buffer).setUint32(4, unpadded.length - 8, true);
+  expect(validateWav(unpadded)).toEqual([
+    {
+      severity: "error",
+      offset: 1644 + junk.length,
+      message: "junk chunk has an odd size but no padding byte",
+    },
+  ]);
+});
+
+it("should report a wrong FLAC block length", async () => {
+  const flac = await Bun.file("./tests/flac/padding.flac").bytes();
+  expect(validateFlac(flac)).toEqual([]);
+  // grow the VORBIS_COMMENT block at 42 by one byte
+  new DataView(flac.buffer).setUint16(44, flac[44] * 256 + flac[45] + 1);
+  // the next block header is read from inside the comment block
+  expect(validateFlac(flac)[0]).toEqual({
+    severity: "error",
+    offset: 42 + 4 + 9374,
+    message: "More than one STREAMINFO block",
+  });
+});
+
+it("should report an ID3v2 size that is not synchsafe", async () => {
+  const mp3 = await Bun.file("./tests/mp3/id3v23.mp3").bytes();
+  expect(validateMp3(mp3)).toEqual([]);
+  mp3[7] |= 0x80;
+  expect(validateMp3(mp3)[0]).toEqual({
+    severity: "error",
+    offset: 6,
+    message: "ID3v2 tag size is not a synchsafe integer",
+  });
+});
+
+it("should report an MP4 box larger than the file", async () => {
+  const mp4 = await Bun.file("./tests/mp4/faststart.mp4").bytes();
+  new DataView(mp4.buffer).setUint32(906, 648 + 100);
+  expect(validateMp4(mp4)).toEqual([
+    {
+      severity: "error",
+      offset: 906,
+      message: "'mdat' box size exceeds the file by 100 bytes",
+    },
+  ]);
+});
+
+it("should tell formats without checks apart", async () => {
+  const gif = await Bun.file("./tests/gif/blank.gif").arrayBuffer();
+  expect(await validateMedia(gif, "image/gif")).toEqual({
+    format: "gif",
+    checked: false,
+    issues: [],
+  });
+  // the type is detected when the file type is unknown
+  const wav = await Bun.file("./tests/wav/blank.wav").arrayBuffer();
+  expect(await validateMedia(wav, "")).toEqual({
+    format: "wav",
+    checked: true,
+    issues: [],
+  });
+});
@@ -0,0 +1,830 @@
+import { crc32FromArrayBuffer } from "crc32-from-arraybuffer";
+
+/**
+ * Structural validators for media files
+ *
+ * They check the container structure that the metadata readers and writers
+ * rely on (chunk and box sizes, checksums, ordering), not the coded image or
+ * audio data. Each issue points at the byte offset of the structure it is
+ * about, so a broken file can be inspected with a hex editor.
+ *
+ * ref:
+ * - [PNG Specification]( https://www.w3.org/TR/png/ )
+ * - [WebP Container Specification]( https://developers.google.com/speed/webp/docs/riff_container )
+ * - [FLAC Format]( https://xiph.org/flac/format.html )
+ * - [ID3v2.4 Structure]( https://id3.org/id3v2.4.0-structure )
+ * - [ISO/IEC 14496-12 ISO base media file format]
+ */
+
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationIssue = {
+  // errors break readers or writers, warnings are tolerated by most of them
+  severity: ValidationSeverity;
+  // byte offset of the structure the issue is about
+  offset: number;
+  message: string;
+};
+
+export type ValidationReport = {
+  // the codec name, e.g. "png"
+  format: string;
+  // false for formats without structural checks
+  checked: boolean;
+  issues: ValidationIssue[];
+};
+
+/**
+ * Check the signature, chunk lengths, CRCs and chunk ordering of a PNG file
+ * @param buffer The PNG file buffer
+ * @returns The issues in file order
+ */
+export function validatePng(
+  buffer: Uint8Array | ArrayBuffer,
+): ValidationIssue[] {
+  const png = new Uint8Array(buffer);
+  const dataView = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const issues: ValidationIssue[] = [];
+  if (png.length < 8 || dataView.getUint32(0) !== 0x89504e47) {
+    return [error(0, "Missing PNG signature")];
+  }
+
+  const chunks: { type: string; offset: number; length: number }[] = [];
+  let offset = 8;
+  while (offset < png.length) {
+    if (offset + 12 > png.length) {
+      issues.push(error(offset, "Truncated chunk header"));
+      break;
+    }
+    const length = dataView.getUint32(offset);
+    const type = readFourCC(png, offset + 4);
+    if (!/^[A-Za-z]{4}$/.test(type)) {
+      issues.push(
+        error(offset + 4, `Invalid chunk type ${JSON.stringify(type)}`),
+      );
+      break;
+    }
+    if (offset + 12 + length > png.length) {
+      issues.push(
+        error(
+          offset,
+          `${type} chunk is truncated, ${length} bytes declared but ${png.length - offset - 12} left`,
+        ),
+      );
+      break;
+    }
+    const storedCrc = dataView.getUint32(offset + 8 + length);
+    const crc =
+      crc32FromArrayBuffer(png.subarray(offset + 4, offset + 8 + length)) >>> 0;
+    if (crc !== storedCrc) {
+      issues.push(
+        error(
+          offset + 8 + length,
+          `CRC mismatch in ${type} chunk, stored ${toHex(storedCrc)} but computed ${toHex(crc)}`,
+        ),
+      );
+    }
+    chunks.push({ type, offset, length });
+    offset += 12 + length;
+    if (type === "IEND") {
+      if (offset < png.length)
+        issues.push(warning(offset, `${png.length - offset} bytes after IEND`));
+      break;
+    }
+  }
+
+  issues.push(...validatePngChunkOrder(chunks, png.length));
+  return issues.sort((a, b) => a.offset - b.offset);
+}
+
+const PNG_CRITICAL_CHUNKS = ["IHDR", "PLTE", "IDAT", "IEND"];
+// ancillary chunks that have to come before PLTE and IDAT
+const PNG_BEFORE_PLTE = ["cHRM", "cICP", "gAMA", "iCCP", "sBIT", "sRGB"];
+// ancillary chunks that have to come after PLTE and before IDAT
+const PNG_AFTER_PLTE = ["bKGD", "hIST", "tRNS"];
+// ancillary chunks that have to come before IDAT
+const PNG_BEFORE_IDAT = ["acTL", "eXIf", "oFFs", "pHYs", "sPLT"];
+
+function validatePngChunkOrder(
+  chunks: { type: string; offset: number; length: number }[],
+  fileLength: number,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const indexOf = (type: string) => chunks.findIndex((e) => e.type === type);
+  const plte = indexOf("PLTE");
+  const firstIdat = indexOf("IDAT");
+  const lastIdat = chunks.findLastIndex((e) => e.type === "IDAT");
+
+  if (chunks[0]?.type !== "IHDR") {
+    issues.push(error(8, "The first chunk is not IHDR"));
+  } else if (chunks[0].length !== 13) {
+    issues.push(error(8, `IHDR chunk has ${chunks[0].length} bytes, not 13`));
+  }
+  if (firstIdat === -1) issues.push(error(8, "No IDAT chunk"));
+  if (chunks.at(-1)?.type !== "IEND")
+    issues.push(error(fileLength, "No IEND chunk at the end"));
+
+  chunks.forEach(({ type, offset }, i) => {
+    const critical = /^[A-Z]/.test(type);
+    if (critical && !PNG_CRITICAL_CHUNKS.includes(type)) {
+      issues.push(error(offset, `Unknown critical chunk ${type}`));
+    }
+    if (
+      ["IHDR", "PLTE", "IEND"].includes(type) &&
+      chunks.findIndex((e) => e.type === type) !== i
+    ) {
+      issues.push(error(offset, `More than one ${type} chunk`));
+    }
+    if (type === "PLTE" && firstIdat !== -1 && i > firstIdat) {
+      issues.push(error(offset, "PLTE chunk after IDAT"));
+    }
+    if (type !== "IDAT" && i > firstIdat && i < lastIdat) {
+      issues.push(error(offset, `${type} chunk between IDAT chunks`));
+    }
+    if (PNG_BEFORE_PLTE.includes(type) && plte !== -1 && i > plte) {
+      issues.push(error(offset, `${type} chunk after PLTE`));
+    }
+    if (PNG_AFTER_PLTE.includes(type) && plte !== -1 && i < plte) {
+      issues.push(error(offset, `${type} chunk before PLTE`));
+    }
+    if (
+      [...PNG_BEFORE_PLTE, ...PNG_AFTER_PLTE, ...PNG_BEFORE_IDAT].includes(
+        type,
+      ) &&
+      firstIdat !== -1 &&
+      i > firstIdat
+    ) {
+      issues.push(error(offset, `${type} chunk after IDAT`));
+    }
+  });
+  return issues;
+}
+
+/**
+ * Check the RIFF size, chunk sizes and padding of a WAV file, and that its
+ * format chunk comes before the audio data
+ * @param buffer The WAV file buffer
+ * @returns The issues in file order
+ */
+export function validateWav(
+  buffer: Uint8Array | ArrayBuffer,
+): ValidationIssue[] {
+  const wav = new Uint8Array(buffer);
+  const { issues, chunks } = validateRiff(wav, "WAVE");
+  const fmt = chunks.find((e) => e.id === "fmt ");
+  const data = chunks.find((e) => e.id === "data");
+  if (chunks.length && !fmt) issues.push(error(12, "No fmt chunk"));
+  if (chunks.length && !data) issues.push(error(12, "No data chunk"));
+  if (fmt && fmt.size < 16) {
+    issues.push(
+      error(fmt.offset, `fmt chunk has ${fmt.size} bytes, not 16 or more`),
+    );
+  }
+  if (fmt && data && data.offset < fmt.offset) {
+    issues.push(error(data.offset, "data chunk before the fmt chunk"));
+  }
+  return issues.sort((a, b) => a.offset - b.offset);
+}
+
+// VP8X feature flags of optional chunks, alpha is left out as lossless
+// images may set it without an ALPH chunk
+const VP8X_FLAGS: [number, string][] = [
+  [0x20, "ICCP"],
+  [0x08, "EXIF"],
+  [0x04, "XMP "],
+  [0x02, "ANIM"],
+];
+
+/**
+ * Check the RIFF size, chunk sizes and padding of a WebP file, and that the
+ * VP8X feature flags agree with the chunks present
+ * @param buffer The WebP file buffer
+ * @returns The issues in file order
+ */
+export function validateWebp(
+  buffer: Uint8Array | ArrayBuffer,
+): ValidationIssue[] {
+  const webp = new Uint8Array(buffer);
+  const { issues, chunks } = validateRiff(webp, "WEBP");
+  const [first] = chunks;
+  if (first && !["VP8 ", "VP8L", "VP8X"].includes(first.id)) {
+    issues.push(
+      error(
+        first.offset,
+        `The first chunk is ${first.id}, not VP8, VP8L or VP8X`,
+      ),
+    );
+  }
+  const vp8x = chunks.find((e) => e.id === "VP8X");
+  if (vp8x && vp8x !== first) {
+    issues.push(error(vp8x.offset, "VP8X chunk is not the first chunk"));
+  }
+  if (vp8x && vp8x.size !== 10) {
+    issues.push(
+      error(vp8x.offset, `VP8X chunk has ${vp8x.size} bytes, not 10`),
+    );
+  } else if (vp8x) {
+    const flags = webp[vp8x.offset + 8];
+    for (const [flag, id] of VP8X_FLAGS) {
+      const present = chunks.some((e) => e.id === id);
+      if (flags & flag && !present) {
+        issues.push(
+          warning(
+            vp8x.offset + 8,
+            `VP8X flag for ${id} is set but there is no ${id} chunk`,
+          ),
+        );
+      } else if (!(flags & flag) && present) {
+        issues.push(
+          warning(
+            vp8x.offset + 8,
+            `${id} chunk is present but its VP8X flag is not set`,
+          ),
+        );
+      }
+    }
+  } else if (chunks.some((e) => ["EXIF", "XMP ", "ICCP"].includes(e.id))) {
+    issues.push(
+      warning(
+        12,
+        "Metadata chunks in a simple WebP file without VP8X chunk are ignored by decoders",
+      ),
+    );
+  }
+  return issues.sort((a, b) => a.offset - b.offset);
+}
+
+type RiffChunkInfo = { id: string; offset: number; size: number };
+
+/**
+ * Walk the chunks of a RIFF file, including the chunks of LIST chunks
+ * @returns The issues and the top-level chunks that could be read
+ */
+function validateRiff(
+  riff: Uint8Array,
+  formType: string,
+): { issues: ValidationIssue[]; chunks: RiffChunkInfo[] } {
+  const dataView = new DataView(riff.buffer, riff.byteOffset, riff.byteLength);
+  if (riff.length < 12 || readFourCC(riff, 0) !== "RIFF") {
+    return { issues: [error(0, "Missing RIFF header")], chunks: [] };
+  }
+  if (readFourCC(riff, 8) !== formType) {
+    return {
+      issues: [
+        error(8, `RIFF form type is ${readFourCC(riff, 8)}, not ${formType}`),
+      ],
+      chunks: [],
+    };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const end = 8 + dataView.getUint32(4, true);
+  if (end > riff.length) {
+    issues.push(
+      error(
+        4,
+        `RIFF size exceeds the file by ${end - riff.length} bytes, the file may be truncated`,
+      ),
+    );
+  } else if (end < riff.length) {
+    issues.push(
+      warning(end, `${riff.length - end} bytes after the RIFF chunk`),
+    );
+  }
+
+  const walk = (start: number, end: number, parent: string) => {
+    const chunks: RiffChunkInfo[] = [];
+    let offset = start;
+    while (offset < end) {
+      if (offset + 8 > end) {
+        issues.push(
+          error(offset, `${end - offset} stray bytes at the end of ${parent}`),
+        );
+        break;
+      }
+      const id = readFourCC(riff, offset);
+      if (!/^[\x20-\x7e]{4}$/.test(id)) {
+        issues.push(
+          error(offset, `Invalid chunk ID ${JSON.stringify(id)} in ${parent}`),
+        );
+        break;
+      }
+      const size = dataView.getUint32(offset + 4, true);
+      const dataEnd = offset + 8 + size;
+      if (dataEnd > end) {
+        issues.push(
+          error(
+            offset,
+            `${id} chunk size exceeds ${parent} by ${dataEnd - end} bytes`,
+          ),
+        );
+        // keep the truncated chunk, so it is not reported missing as well
+        chunks.push({ id, offset, size: end - offset - 8 });
+        break;
+      }
+      chunks.push({ id, offset, size });
+      if (id === "LIST" && size >= 4) {
+        walk(offset + 12, dataEnd, `LIST/${readFourCC(riff, offset + 8)}`);
+      }
+
+      offset = dataEnd;
+      if (size % 2 === 0) continue;
+      // odd chunks are followed by a padding byte, some writers leave it out
+      if (dataEnd === end || isFourCC(riff, dataEnd)) {
+        const message = `${id} chunk has an odd size but no padding byte`;
+        if (dataEnd === end) issues.push(warning(dataEnd, message));
+        else issues.push(error(dataEnd, message));
+        continue;
+      }
+      if (riff[dataEnd] !== 0) {
+        issues.push(
+          warning(dataEnd, `Padding byte of ${id} chunk is not zero`),
+        );
+      }
+      offset += 1;
+    }
+    return chunks;
+  };
+
+  const chunks = walk(12, Math.min(end, riff.length), "RIFF");
+  return { issues, chunks };
+}
+
+/**
+ * Check the metadata block headers and lengths of a FLAC file, and that the
+ * audio frames start right after the last block
+ * @param buffer The FLAC file buffer
+ * @returns The issues in file order
+ */
+export function validateFlac(
+  buffer: Uint8Array | ArrayBuffer,
+): ValidationIssue[] {
+  const flac = new Uint8Array(buffer);
+  const dataView = new DataView(flac.buffer, flac.byteOffset, flac.byteLength);
+  if (readFourCC(flac, 0) !== "fLaC") {
+    return [error(0, "Missing fLaC signature")];
+  }
+
+  const issues: ValidationIssue[] = [];
+  let offset = 4;
+  let index = 0;
+  let vorbisComments = 0;
+  for (let last = false; !last; index++) {
+    if (offset + 4 > flac.length) {
+      issues.push(
+        error(offset, "The file ends before the last metadata block"),
+      );
+      return issues;
+    }
+    last = !!(flac[offset] & 0x80);
+    const type = flac[offset] & 0x7f;
+    const length = dataView.getUint32(offset) & 0xffffff;
+    const dataOffset = offset + 4;
+    if (dataOffset + length > flac.length) {
+      issues.push(
+        error(
+          offset,
+          `Metadata block ${index} is truncated, ${length} bytes declared but ${flac.length - dataOffset} left`,
+        ),
+      );
+      return issues;
+    }
+
+    if (index === 0 && type !== 0) {
+      issues.push(error(offset, "The first metadata block is not STREAMINFO"));
+    } else if (index > 0 && type === 0) {
+      issues.push(error(offset, "More than one STREAMINFO block"));
+    }
+    if (type === 0 && length !== 34) {
+      issues.push(
+        error(offset, `STREAMINFO block has ${length} bytes, not 34`),
+      );
+    }
+    if (type === 127) {
+      issues.push(error(offset, "Invalid metadata block type 127"));
+    }
+    if (type === 4 && ++vorbisComments > 1) {
+      issues.push(error(offset, "More than one VORBIS_COMMENT block"));
+    }
+    if (type === 4) {
+      issues.push(...validateVorbisComment(dataView, dataOffset, length));
+    }
+    offset = dataOffset + length;
+  }
+
+  if (offset === flac.length) {
+    issues.push(warning(offset, "No audio frames after the metadata blocks"));
+  } else if (flac[offset] !== 0xff || (flac[offset + 1] & 0xfe) !== 0xf8) {
+    issues.push(
+      error(
+        offset,
+        "No frame sync code after the last metadata block, the block lengths may be wrong",
+      ),
+    );
+  }
+  return issues;
+}
+
+/**
+ * Check that the vendor string and comment lengths fit into the block
+ */
+function validateVorbisComment(
+  dataView: DataView,
+  start: number,
+  length: number,
+): ValidationIssue[] {
+  const end = start + length;
+  let offset = start;
+  const readLength = () => {
+    if (offset + 4 > end) return undefined;
+    const value = dataView.getUint32(offset, true);
+    offset += 4;
+    return value;
+  };
+  const vendorLength = readLength();
+  if (vendorLength === undefined || offset + vendorLength > end) {
+    return [
+      error(start, "Vendor string length exceeds the VORBIS_COMMENT block"),
+    ];
+  }
+  offset += vendorLength;
+  const count = readLength();
+  if (count === undefined) {
+    return [error(offset, "VORBIS_COMMENT block has no comment count")];
+  }
+  for (let i = 0; i < count; i++) {
+    const commentOffset = offset;
+    const commentLength = readLength();
+    if (commentLength === undefined || offset + commentLength > end) {
+      return [
+        error(
+          commentOffset,
+          `Comment ${i} of ${count} exceeds the VORBIS_COMMENT block`,
+        ),
+      ];
+    }
+    offset += commentLength;
+  }
+  return [];
+}
+
+/**
+ * Check the ID3v2 tag header, synchsafe sizes and frame headers of an MP3
+ * file, and that MPEG audio frames follow the tag
+ * @param buffer The MP3 file buffer
+ * @returns The issues in file order
+ */
+export function validateMp3(
+  buffer: Uint8Array | ArrayBuffer,
+): ValidationIssue[] {
+  const mp3 = new Uint8Array(buffer);
+  const dataView = new DataView(mp3.buffer, mp3.byteOffset, mp3.byteLength);
+  const issues: ValidationIssue[] = [];
+
+  let audioOffset = 0;
+  if (readFourCC(mp3, 0).startsWith("ID3")) {
+    if (mp3.length < 10) return [error(0, "Truncated ID3v2 header")];
+    const version = mp3[3];
+    const flags = mp3[5];
+    if (version < 2 || version > 4 || mp3[4] === 0xff) {
+      return [error(3, `Unsupported ID3v2 version 2.${version}.${mp3[4]}`)];
+    }
+    const knownFlags = version === 4 ? 0xf0 : version === 3 ? 0xe0 : 0xc0;
+    if (flags & ~knownFlags) {
+      issues.push(warning(5, `Unknown ID3v2 header flags ${toHex(flags, 2)}`));
+    }
+    if (!isSynchsafe(mp3, 6)) {
+      issues.push(error(6, "ID3v2 tag size is not a synchsafe integer"));
+    }
+    const tagEnd =
+      10 + readSynchsafe(mp3, 6) + (version === 4 && flags & 0x10 ? 10 : 0);
+    if (tagEnd > mp3.length) {
+      issues.push(
+        error(
+          6,
+          `ID3v2 tag size exceeds the file by ${tagEnd - mp3.length} bytes`,
+        ),
+      );
+      return issues;
+    }
+    // ID3v2.3 unsynchronisation shifts the frames, their headers can't be checked in place
+    if (!(version === 3 && flags & 0x80)) {
+      issues.push(...validateId3Frames(mp3, dataView, version, flags));
+    }
+    audioOffset = tagEnd;
+  }
+
+  if (readFourCC(mp3, audioOffset).startsWith("ID3")) {
+    issues.push(warning(audioOffset, "A second ID3v2 tag follows the first"));
+  } else if (
+    mp3[audioOffset] !== 0xff ||
+    (mp3[audioOffset + 1] & 0xe0) !== 0xe0
+  ) {
+    issues.push(
+      (audioOffset ? warning : error)(
+        audioOffset,
+        audioOffset
+          ? "No MPEG frame sync right after the ID3v2 tag"
+          : "No ID3v2 tag or MPEG frame sync at the start",
+      ),
+    );
+  }
+  return issues;
+}
+
+function validateId3Frames(
+  mp3: Uint8Array,
+  dataView: DataView,
+  version: number,
+  flags: number,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const tagEnd = 10 + readSynchsafe(mp3, 6);
+  let offset = 10;
+  if (flags & 0x40 && version >= 3) {
+    // extended header, its size excludes itself in ID3v2.3
+    offset +=
+      version === 3
+        ? 4 + dataView.getUint32(offset)
+        : readSynchsafe(mp3, offset);
+  }
+  const idLength = version >= 3 ? 4 : 3;
+  const headerSize = version >= 3 ? 10 : 6;
+  while (offset + headerSize <= tagEnd) {
+    if (mp3[offset] === 0) {
+      // padding up to the end of the tag
+      const nonZero = mp3.subarray(offset, tagEnd).findIndex((e) => e !== 0);
+      if (nonZero !== -1) {
+        issues.push(
+          warning(offset + nonZero, "ID3v2 padding contains non-zero bytes"),
+        );
+      }
+      return issues;
+    }
+    const id = String.fromCharCode(...mp3.subarray(offset, offset + idLength));
+    if (!new RegExp(`^[A-Z0-9]{${idLength}}$`).test(id)) {
+      issues.push(
+        error(offset, `Invalid ID3v2 frame ID ${JSON.stringify(id)}`),
+      );
+      return issues;
+    }
+    let size: number;
+    if (version === 4) {
+      if (!isSynchsafe(mp3, offset + 4)) {
+        issues.push(
+          warning(
+            offset + 4,
+            `Size of the ${id} frame is not a synchsafe integer`,
+          ),
+        );
+      }
+      size = readSynchsafe(mp3, offset + 4);
+    } else if (version === 3) {
+      size = dataView.getUint32(offset + 4);
+    } else {
+      size = (dataView.getUint16(offset + 3) << 8) | mp3[offset + 5];
+    }
+    if (offset + headerSize + size > tagEnd) {
+      issues.push(
+        error(
+          offset,
+          `${id} frame exceeds the ID3v2 tag by ${offset + headerSize + size - tagEnd} bytes`,
+        ),
+      );
+      return issues;
+    }
+    offset += headerSize + size;
+  }
+  return issues;
+}
+
+// boxes whose content is a list of boxes
+const CONTAINER_BOXES = [
+  "moov",
+  "trak",
+  "mdia",
+  "minf",
+  "stbl",
+  "udta",
+  "edts",
+  "dinf",
+  "mvex",
+  "moof",
+  "traf",
+  "mfra",
+  "tref",
+  "iprp",
+  "ipco",
+  "sinf",
+  "schi",
+  "ilst",
+  "meta",
+];
+
+type BoxInfo = { type: string; offset: number; size: number; path: string };
+
+/**
+ * Check the box sizes and nesting of an MP4 / QuickTime file, and that the
+ * chunk offsets of its tracks point into 'mdat'
+ * @param buffer The MP4 file buffer
+ * @returns The issues in file order
+ */
+export function validateMp4(
+  buffer: Uint8Array | ArrayBuffer,
+): ValidationIssue[] {
+  const mp4 = new Uint8Array(buffer);
+  const { issues, boxes } = validateBoxes(mp4);
+  const topLevel = boxes.filter((e) => !e.path.includes("/"));
+  if (!topLevel.some((e) => e.type === "moov")) {
+    issues.push(error(0, "No 'moov' box"));
+  }
+  if (
+    topLevel[0] &&
+    !["ftyp", "moov", "mdat", "free", "skip", "wide"].includes(topLevel[0].type)
+  ) {
+    issues.push(warning(0, `The file starts with a '${topLevel[0].type}' box`));
+  }
+
+  // chunk offsets point into the media data
+  const dataView = new DataView(mp4.buffer, mp4.byteOffset, mp4.byteLength);
+  const mdats = topLevel.filter((e) => e.type === "mdat");
+  for (const box of boxes.filter(
+    (e) => e.type === "stco" || e.type === "co64",
+  )) {
+    const entrySize = box.type === "co64" ? 8 : 4;
+    const count = dataView.getUint32(box.offset + 12);
+    if (16 + count * entrySize > box.size) {
+      issues.push(
+        error(
+          box.offset,
+          `${box.path} has ${count} entries but room for fewer`,
+        ),
+      );
+      continue;
+    }
+    for (let i = 0; i < count; i++) {
+      const entryOffset = box.offset + 16 + i * entrySize;
+      const chunkOffset =
+        entrySize === 8
+          ? Number(dataView.getBigUint64(entryOffset))
+          : dataView.getUint32(entryOffset);
+      if (
+        !mdats.some(
+          (e) => chunkOffset >= e.offset && chunkOffset < e.offset + e.size,
+        )
+      ) {
+        issues.push(
+          error(
+            entryOffset,
+            `Chunk offset ${chunkOffset} in ${box.path} points outside of 'mdat'`,
+          ),
+        );
+        break;
+      }
+    }
+  }
+  return issues.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Check the box sizes and nesting of a HEIF (AVIF/HEIC) file, and that it has
+ * the 'ftyp' and 'meta' boxes images are described by
+ * @param buffer The HEIF file buffer
+ * @returns The issues in file order
+ */
+export function validateHeif(
+  buffer: Uint8Array | ArrayBuffer,
+): ValidationIssue[] {
+  const heif = new Uint8Array(buffer);
+  const { issues, boxes } = validateBoxes(heif);
+  const topLevel = boxes.filter((e) => !e.path.includes("/"));
+  if (topLevel[0]?.type !== "ftyp") {
+    issues.push(error(0, "The first box is not 'ftyp'"));
+  }
+  if (!topLevel.some((e) => e.type === "meta")) {
+    issues.push(error(0, "No 'meta' box"));
+  }
+  return issues.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Walk the boxes of an ISO base media file, every box has to fit into its
+ * parent and the children of a container have to fill it exactly
+ */
+function validateBoxes(data: Uint8Array): {
+  issues: ValidationIssue[];
+  boxes: BoxInfo[];
+} {
+  const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const issues: ValidationIssue[] = [];
+  const boxes: BoxInfo[] = [];
+
+  const walk = (start: number, end: number, parent: string) => {
+    const where = parent ? `'${parent}'` : "the file";
+    let offset = start;
+    while (offset < end) {
+      if (offset + 8 > end) {
+        issues.push(
+          error(offset, `${end - offset} stray bytes at the end of ${where}`),
+        );
+        return;
+      }
+      let size = dataView.getUint32(offset);
+      const type = readFourCC(data, offset + 4);
+      let headerSize = 8;
+      if (size === 1) {
+        if (offset + 16 > end) {
+          issues.push(error(offset, `Truncated 64-bit size of '${type}'`));
+          return;
+        }
+        size = Number(dataView.getBigUint64(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        if (parent) {
+          issues.push(
+            error(offset, `'${type}' box with size 0 inside ${where}`),
+          );
+          return;
+        }
+        // extends to the end of the file
+        size = end - offset;
+      }
+      // 'ilst' items of QuickTime 'meta' are typed by their key index
+      const isKeyIndex = parent.endsWith("ilst");
+      if (!isKeyIndex && [...type].some((e) => e.charCodeAt(0) < 0x20)) {
+        issues.push(
+          error(offset, `Invalid box type ${JSON.stringify(type)} in ${where}`),
+        );
+        return;
+      }
+      if (size < headerSize) {
+        issues.push(
+          error(
+            offset,
+            `'${type}' box size ${size} is smaller than its header`,
+          ),
+        );
+        return;
+      }
+      const path = parent ? `${parent}/${type}` : type;
+      if (offset + size > end) {
+        issues.push(
+          error(
+            offset,
+            `'${type}' box size exceeds ${where} by ${offset + size - end} bytes`,
+          ),
+        );
+        // keep the truncated box, so it is not reported missing as well
+        boxes.push({ type, offset, size: end - offset, path });
+        return;
+      }
+
+      boxes.push({ type, offset, size, path });
+      if (CONTAINER_BOXES.includes(type) || isKeyIndex) {
+        let childrenOffset = offset + headerSize;
+        // ISO 'meta' is a full box, QuickTime 'meta' starts with 'hdlr'
+        if (type === "meta" && readFourCC(data, offset + 12) !== "hdlr") {
+          childrenOffset += 4;
+        }
+        walk(childrenOffset, offset + size, path);
+      }
+      offset += size;
+    }
+  };
+
+  walk(0, data.length, "");
+  return { issues, boxes };
+}
+
+function error(offset: number, message: string): ValidationIssue {
+  return { severity: "error", offset, message };
+}
+
+function warning(offset: number, message: string): ValidationIssue {
+  return { severity: "warning", offset, message };
+}
+
+function readFourCC(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+function isFourCC(data: Uint8Array, offset: number): boolean {
+  return /^[\x20-\x7e]{4}$/.test(readFourCC(data, offset));
+}
+
+function isSynchsafe(data: Uint8Array, offset: number): boolean {
+  return data.subarray(offset, offset + 4).every((e) => e < 0x80);
+}
+
+function readSynchsafe(data: Uint8Array, offset: number): number {
+  return (
+    ((data[offset] & 0x7f) << 21) |
+    ((data[offset + 1] & 0x7f) << 14) |
+    ((data[offset + 2] & 0x7f) << 7) |
+    (data[offset + 3] & 0x7f)
+  );
+}
+
+function toHex(value: number, digits = 8): string {
+  return `0x${value.toString(16).padStart(digits, "0")}`;
+}
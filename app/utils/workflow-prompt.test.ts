@@ -0,0 +1,53 @@
+import { getPngMetadata } from "@/app/utils/exif-png";
+import { compareWorkflowAndPrompt } from "@/app/utils/workflow-prompt";
+
+async function readFixture() {
+  const png = Bun.file("./tests/png/ComfyUI_00001.png");
+  const { workflow, prompt } = await getPngMetadata(await png.arrayBuffer());
+  return { workflow: JSON.parse(workflow), prompt: JSON.parse(prompt) };
+}
+
+it("should accept a workflow and the prompt it was queued as", async () => {
+  const { workflow, prompt } = await readFixture();
+  expect(
+    compareWorkflowAndPrompt(JSON.stringify(workflow), JSON.stringify(prompt)),
+  ).toEqual([]);
+});
+
+it("should report a seed changed only in the workflow", async () => {
+  const { workflow, prompt } = await readFixture();
+  const sampler = workflow.nodes.find((e: { id: number }) => e.id === 3);
+  sampler.widgets_values[0] = 42;
+
+  const warnings = compareWorkflowAndPrompt(
+    JSON.stringify(workflow),
+    JSON.stringify(prompt),
+  );
+  expect(warnings).toEqual([
+    `node 3 (KSampler) seed is ${prompt["3"].inputs.seed} in the prompt but not in the workflow`,
+  ]);
+});
+
+it("should report nodes missing from the workflow or of another type", async () => {
+  const { workflow, prompt } = await readFixture();
+  workflow.nodes = workflow.nodes.filter((e: { id: number }) => e.id !== 5);
+  prompt["4"].class_type = "UNETLoader";
+
+  const warnings = compareWorkflowAndPrompt(
+    JSON.stringify(workflow),
+    JSON.stringify(prompt),
+  );
+  expect(warnings).toContain(
+    "node 5 (EmptyLatentImage) is in the prompt but not in the workflow",
+  );
+  expect(warnings).toContain(
+    "node 4 (UNETLoader) is a CheckpointLoaderSimple in the workflow",
+  );
+});
+
+it("should ignore files without a prompt and report invalid JSON", () => {
+  expect(compareWorkflowAndPrompt('{"nodes":[]}', "")).toEqual([]);
+  expect(compareWorkflowAndPrompt('{"nodes":[]}', "{")).toEqual([
+    "prompt is not valid JSON",
+  ]);
+});
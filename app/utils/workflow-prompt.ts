@@ -0,0 +1,89 @@
+/**
+ * Consistency check between the two JSON documents Hanzo Studio embeds
+ *
+ * - `workflow` is the UI graph: `{ nodes: [{ id, type, widgets_values }], links }`
+ * - `prompt` is the API format that was executed:
+ *   `{ [id]: { class_type, inputs: { [name]: value | [nodeId, slot] } } }`
+ *
+ * Widget names are only known to the server, so a prompt input is matched
+ * against the widget values of the node with the same id by value.
+ */
+
+type WorkflowNode = {
+  id: number | string;
+  type: string;
+  mode?: number;
+  widgets_values?: unknown[] | Record<string, unknown>;
+};
+
+type PromptNode = {
+  class_type: string;
+  inputs?: Record<string, unknown>;
+};
+
+/**
+ * Compare a workflow with its API prompt
+ * @param workflowJson The workflow JSON string
+ * @param promptJson The prompt JSON string, empty when the file has none
+ * @returns Human readable descriptions of the differences, empty if they agree
+ */
+export function compareWorkflowAndPrompt(
+  workflowJson: string,
+  promptJson: string,
+): string[] {
+  if (!promptJson?.trim()) return [];
+  const workflow = tryParseJson(workflowJson) as
+    { nodes?: WorkflowNode[] } | undefined;
+  const prompt = tryParseJson(promptJson) as
+    Record<string, PromptNode> | undefined;
+  if (!workflow) return ["workflow is not valid JSON"];
+  if (!prompt) return ["prompt is not valid JSON"];
+  if (!Array.isArray(workflow.nodes)) return [];
+
+  const nodes = new Map(workflow.nodes.map((e) => [String(e.id), e]));
+  const warnings: string[] = [];
+  for (const [id, promptNode] of Object.entries(prompt)) {
+    // nodes expanded from group nodes and subgraphs have ids like "12:3"
+    if (id.includes(":") || !promptNode?.class_type) continue;
+    const node = nodes.get(id);
+    const name = `node ${id} (${promptNode.class_type})`;
+    if (!node) {
+      warnings.push(`${name} is in the prompt but not in the workflow`);
+      continue;
+    }
+    if (node.type !== promptNode.class_type) {
+      warnings.push(`${name} is a ${node.type} in the workflow`);
+      continue;
+    }
+    const widgetValues = Object.values(node.widgets_values ?? {});
+    for (const [input, value] of Object.entries(promptNode.inputs ?? {})) {
+      // [nodeId, slot] links are not compared, and UI only widgets (like
+      // audioUI) are sent as empty strings without a widget value
+      if (typeof value === "object" || value === "") continue;
+      if (!widgetValues.some((e) => isSameValue(e, value))) {
+        warnings.push(
+          `${name} ${input} is ${JSON.stringify(value)} in the prompt but not in the workflow`,
+        );
+      }
+    }
+  }
+  return warnings;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // combo values may be stored as numbers on one side
+  return (
+    (typeof a === "number" || typeof a === "string") &&
+    (typeof b === "number" || typeof b === "string") &&
+    String(a) === String(b)
+  );
+}
+
+function tryParseJson(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch (_: unknown) {
+    return undefined;
+  }
+}